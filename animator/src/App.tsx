@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   KeyframeEditor,
   LayerPanel,
@@ -6,208 +6,1004 @@ import {
   PreviewCanvas,
   ExportControls,
   ErrorBoundary,
+  HistoryPanel,
+  MarkerPanel,
+  RecoveryPrompt,
 } from './components';
-import { useAnimationLoop } from './hooks';
-import { createNewLayer, getMaxZIndex } from './utils/layer';
+import {
+  useAnimationLoop,
+  useAutosave,
+  useHistory,
+  useKeyboardShortcuts,
+} from './hooks';
+import type { KeyboardShortcut } from './hooks';
+import {
+  createGroupLayer,
+  createNewLayer,
+  getMaxZIndex,
+  updateLayerProperty,
+  updateLayerTrack,
+} from './utils/layer';
+import { createShape } from './utils/shape';
+import {
+  getDescendantIds,
+  setLayerParent,
+  wrapInGroup,
+} from './utils/hierarchy';
+import {
+  pairMotionPathKeyframes,
+  updateMotionPathPoint,
+} from './utils/motionPath';
+import type { MotionPathPointUpdate } from './utils/motionPath';
+import {
+  applyKeyframeTimes,
+  getKeyframeTimes,
+  getTimeRange,
+  offsetKeyframeTimes,
+  pruneKeyframeSelection,
+  scaleKeyframeTimes,
+  toggleKeyframeSelection,
+} from './utils/keyframeSelection';
+import type { KeyframeTimeChange } from './utils/keyframeSelection';
+import {
+  copyKeyframes,
+  deleteKeyframes,
+  pasteKeyframes,
+} from './utils/keyframeClipboard';
+import type {
+  KeyframeClipboard,
+  PasteOptions,
+} from './utils/keyframeClipboard';
+import {
+  clampMarkers,
+  createMarker,
+  createRegion,
+  isRegion,
+} from './utils/markers';
+import { stepFrames } from './utils/playback';
+import { createEasingPreset } from './utils/easingPresets';
+import { applyTransformChanges } from './utils/transform';
+import { getKeyingOptions, setPropertyValue } from './utils/autoKey';
+import { updateArtboard } from './utils/artboard';
+import type { TransformChanges } from './utils/transform';
 import { generateId } from './utils/animation';
+import { parseProjectFile, serializeProject } from './utils/projectFile';
+import { downloadTextFile } from './utils/download';
 import type {
   AppState,
-  Layer,
+  Artboard,
+  AutosaveSnapshot,
+  CubicBezier,
+  LayerAnchor,
+  LoopRange,
+  ProjectSnapshot,
   SelectedKeyframeInfo,
   EasingFunction,
+  LayerPropertyKey,
+  ColorInterpolation,
+  MotionPathSettings,
+  OnionSkinSettings,
+  PlaybackMode,
+  ShapeType,
+  TimelineMarker,
+  TrackKey,
+  TransformMode,
 } from './types';
-import { DEFAULT_CANVAS_SIZE, ANIMATION_CONFIG } from './constants';
+import {
+  DEFAULT_ARTBOARD,
+  DEFAULT_ONION_SKIN,
+  ANIMATION_CONFIG,
+  EXPORT_CONFIG,
+  MARKER_CONFIG,
+  ONION_SKIN_CONFIG,
+  PLAYBACK_CONFIG,
+  TRANSFORM_MODE_LABELS,
+} from './constants';
 
 const initialState: AppState = {
   layers: [],
   selectedLayerId: null,
   selectedPropertyKey: null,
   selectedKeyframeInfo: null,
+  selectedKeyframes: [],
   currentTime: 0,
   isPlaying: false,
+  playbackRate: PLAYBACK_CONFIG.defaultRate,
+  playbackMode: 'loop',
+  isReversed: false,
+  isAutoKey: false,
+  autoKeyEasing: 'linear',
+  onionSkin: DEFAULT_ONION_SKIN,
+  onionSkinLayerIds: [],
   duration: ANIMATION_CONFIG.defaultDuration,
+  fps: ANIMATION_CONFIG.defaultFps,
+  markers: [],
+  easingPresets: [],
+  artboard: DEFAULT_ARTBOARD,
+  loopRange: null,
   timelineZoom: ANIMATION_CONFIG.defaultZoom,
 };
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(initialState);
+  const {
+    appState,
+    history,
+    canUndo,
+    canRedo,
+    setAppState,
+    commit,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    jumpTo,
+  } = useHistory(initialState);
 
   // Animation loop using custom hook
   useAnimationLoop({
     isPlaying: appState.isPlaying,
     duration: appState.duration,
-    onTimeUpdate: useCallback((time: number) => {
-      setAppState(prev => ({ ...prev, currentTime: time }));
-    }, []),
+    currentTime: appState.currentTime,
+    loopRange: appState.loopRange,
+    playbackRate: appState.playbackRate,
+    playbackMode: appState.playbackMode,
+    isReversed: appState.isReversed,
+    onTimeUpdate: useCallback(
+      (time: number) => {
+        setAppState((prev) => ({ ...prev, currentTime: time }));
+      },
+      [setAppState],
+    ),
+    onFinish: useCallback(() => {
+      setAppState((prev) => ({ ...prev, isPlaying: false }));
+    }, [setAppState]),
   });
 
+  // Autosave and crash recovery
+  const { recovery, unreadable, resolveRecovery, rejectRecovery, flush } =
+    useAutosave({
+      layers: appState.layers,
+      duration: appState.duration,
+      fps: appState.fps,
+      markers: appState.markers,
+      easingPresets: appState.easingPresets,
+      artboard: appState.artboard,
+    });
+
+  const handleRestoreAutosave = useCallback(
+    (snapshot: AutosaveSnapshot) => {
+      const result = parseProjectFile(snapshot.project);
+      if (result.ok) {
+        commit('Restore autosave', (prev) => ({
+          ...prev,
+          ...result.project,
+          loopRange: null,
+          selectedLayerId: null,
+          selectedPropertyKey: null,
+          selectedKeyframeInfo: null,
+          selectedKeyframes: [],
+        }));
+        resolveRecovery();
+      } else {
+        rejectRecovery(result.issues);
+      }
+    },
+    [commit, resolveRecovery, rejectRecovery],
+  );
+
+  const handleDownloadProject = useCallback(() => {
+    const { json } = EXPORT_CONFIG.formats;
+    downloadTextFile(
+      JSON.stringify(
+        serializeProject({
+          layers: appState.layers,
+          duration: appState.duration,
+          fps: appState.fps,
+          markers: appState.markers,
+          easingPresets: appState.easingPresets,
+          artboard: appState.artboard,
+        }),
+        null,
+        2,
+      ),
+      `${EXPORT_CONFIG.defaultFilename}.${json.extension}`,
+      json.mimeType,
+    );
+  }, [
+    appState.layers,
+    appState.duration,
+    appState.fps,
+    appState.markers,
+    appState.easingPresets,
+    appState.artboard,
+  ]);
+
   // Layer management
   const handleAddLayer = useCallback(() => {
-    const maxZ = getMaxZIndex(appState.layers);
-    const newLayer = createNewLayer(
-      `Layer ${appState.layers.length + 1}`,
-      maxZ + 1,
-    );
+    commit('Add layer', (prev) => {
+      const newLayer = createNewLayer(
+        `Layer ${prev.layers.length + 1}`,
+        getMaxZIndex(prev.layers) + 1,
+      );
 
-    setAppState((prev) => ({
-      ...prev,
-      layers: [...prev.layers, newLayer],
-      selectedLayerId: newLayer.id,
-    }));
-  }, [appState.layers]);
+      return {
+        ...prev,
+        layers: [...prev.layers, newLayer],
+        selectedLayerId: newLayer.id,
+      };
+    });
+  }, [commit]);
 
-  const handleDeleteLayer = useCallback((layerId: string) => {
-    setAppState((prev) => ({
-      ...prev,
-      layers: prev.layers.filter((l) => l.id !== layerId),
-      selectedLayerId:
-        prev.selectedLayerId === layerId ? null : prev.selectedLayerId,
-      selectedKeyframeInfo:
-        prev.selectedKeyframeInfo?.layerId === layerId
-          ? null
-          : prev.selectedKeyframeInfo,
-    }));
-  }, []);
+  const handleAddGroup = useCallback(() => {
+    commit('Add group', (prev) => {
+      const name = `Group ${
+        prev.layers.filter((l) => l.kind === 'group').length + 1
+      }`;
+      // With a layer selected, the group is created around it.
+      const wrapped =
+        prev.selectedLayerId !== null &&
+        wrapInGroup(prev.layers, prev.selectedLayerId, name);
+      if (wrapped) {
+        return {
+          ...prev,
+          layers: wrapped.layers,
+          selectedLayerId: wrapped.group.id,
+        };
+      }
 
-  const handleSelectLayer = useCallback((layerId: string) => {
-    setAppState((prev) => ({
-      ...prev,
-      selectedLayerId: layerId,
-      selectedKeyframeInfo: null,
-    }));
-  }, []);
+      const group = createGroupLayer(name, getMaxZIndex(prev.layers) + 1, {
+        x: 0,
+        y: 0,
+        width: prev.artboard.width,
+        height: prev.artboard.height,
+      });
+      return {
+        ...prev,
+        layers: [...prev.layers, group],
+        selectedLayerId: group.id,
+      };
+    });
+  }, [commit]);
 
-  const handleMoveLayer = useCallback(
-    (layerId: string, direction: 'up' | 'down') => {
+  const handleDeleteLayer = useCallback(
+    (layerId: string) => {
+      commit('Delete layer', (prev) => {
+        // Deleting a group deletes everything nested in it.
+        const removed = getDescendantIds(prev.layers, layerId).add(layerId);
+
+        return {
+          ...prev,
+          layers: prev.layers.filter((l) => !removed.has(l.id)),
+          selectedLayerId:
+            prev.selectedLayerId !== null && removed.has(prev.selectedLayerId)
+              ? null
+              : prev.selectedLayerId,
+          selectedPropertyKey:
+            prev.selectedLayerId !== null && removed.has(prev.selectedLayerId)
+              ? null
+              : prev.selectedPropertyKey,
+          selectedKeyframeInfo:
+            prev.selectedKeyframeInfo &&
+            removed.has(prev.selectedKeyframeInfo.layerId)
+              ? null
+              : prev.selectedKeyframeInfo,
+          selectedKeyframes: prev.selectedKeyframes.filter(
+            (kf) => !removed.has(kf.layerId),
+          ),
+        };
+      });
+    },
+    [commit],
+  );
+
+  const handleChangeParent = useCallback(
+    (layerId: string, parentId: string | null) => {
+      commit('Change parent', (prev) => ({
+        ...prev,
+        layers: setLayerParent(
+          prev.layers,
+          layerId,
+          parentId,
+          prev.currentTime,
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  const handleChangeAnchor = useCallback(
+    (layerId: string, anchor: LayerAnchor) => {
+      commit('Change anchor', (prev) => ({
+        ...prev,
+        layers: prev.layers.map((layer) =>
+          layer.id === layerId ? { ...layer, anchor } : layer,
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  const handleSelectLayer = useCallback(
+    (layerId: string | null) => {
+      setAppState((prev) => ({
+        ...prev,
+        selectedLayerId: layerId,
+        selectedPropertyKey: null,
+        selectedKeyframeInfo: null,
+        selectedKeyframes: [],
+      }));
+    },
+    [setAppState],
+  );
+
+  /** Picks the track that a single copied track is pasted onto. */
+  const handleSelectTrack = useCallback(
+    (layerId: string, propertyKey: TrackKey | null) => {
+      setAppState((prev) => ({
+        ...prev,
+        selectedLayerId: layerId,
+        selectedPropertyKey: propertyKey,
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleChangeShape = useCallback(
+    (layerId: string, shapeType: ShapeType) => {
+      commit('Change shape', (prev) => {
+        const layers = prev.layers.map((layer) =>
+          layer.id === layerId && layer.shape.type !== shapeType
+            ? { ...layer, shape: createShape(shapeType) }
+            : layer,
+        );
+
+        return {
+          ...prev,
+          layers,
+          selectedKeyframeInfo:
+            prev.selectedKeyframeInfo?.layerId === layerId
+              ? null
+              : prev.selectedKeyframeInfo,
+          selectedKeyframes: pruneKeyframeSelection(
+            layers,
+            prev.selectedKeyframes,
+          ),
+        };
+      });
+    },
+    [commit],
+  );
+
+  const handleChangePathData = useCallback(
+    (layerId: string, d: string) => {
+      commit('Edit path', (prev) => ({
+        ...prev,
+        layers: prev.layers.map((layer) =>
+          layer.id === layerId && layer.shape.type === 'path'
+            ? { ...layer, shape: { ...layer.shape, d } }
+            : layer,
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  const handleChangeColor = useCallback(
+    (layerId: string, color: string) => {
+      commit('Change color', (prev) => ({
+        ...prev,
+        layers: prev.layers.map((layer) =>
+          layer.id === layerId
+            ? {
+                ...layer,
+                color: setPropertyValue(
+                  layer.color,
+                  color,
+                  getKeyingOptions(prev),
+                ),
+              }
+            : layer,
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  const handleBeginColorEdit = useCallback(() => {
+    beginTransaction('Change color');
+  }, [beginTransaction]);
+
+  const handleChangeMotionPath = useCallback(
+    (layerId: string, changes: Partial<MotionPathSettings>) => {
+      commit('Change motion path', (prev) => ({
+        ...prev,
+        layers: prev.layers.map((layer) => {
+          if (layer.id !== layerId) return layer;
+
+          const updated = {
+            ...layer,
+            motionPath: { ...layer.motionPath, ...changes },
+          };
+          // Each path point needs both an x and a y keyframe to be edited.
+          return changes.enabled ? pairMotionPathKeyframes(updated) : updated;
+        }),
+      }));
+    },
+    [commit],
+  );
+
+  const handleUpdateMotionPathPoint = useCallback(
+    (layerId: string, time: number, update: MotionPathPointUpdate) => {
+      commit('Edit motion path', (prev) => ({
+        ...prev,
+        layers: prev.layers.map((layer) =>
+          layer.id === layerId
+            ? updateMotionPathPoint(layer, time, update)
+            : layer,
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  const handleBeginMotionPathEdit = useCallback(() => {
+    beginTransaction('Edit motion path');
+  }, [beginTransaction]);
+
+  const handleTransformLayer = useCallback(
+    (layerId: string, changes: TransformChanges) => {
+      commit('Transform layer', (prev) => {
+        const options = getKeyingOptions(prev);
+        return {
+          ...prev,
+          layers: prev.layers.map((layer) =>
+            layer.id === layerId
+              ? applyTransformChanges(layer, changes, options)
+              : layer,
+          ),
+        };
+      });
+    },
+    [commit],
+  );
+
+  const handleBeginTransform = useCallback(
+    (mode: TransformMode) => {
+      beginTransaction(TRANSFORM_MODE_LABELS[mode]);
+    },
+    [beginTransaction],
+  );
+
+  const handleToggleOnionSkin = useCallback(
+    (layerId: string) => {
+      setAppState((prev) => ({
+        ...prev,
+        onionSkinLayerIds: prev.onionSkinLayerIds.includes(layerId)
+          ? prev.onionSkinLayerIds.filter((id) => id !== layerId)
+          : [...prev.onionSkinLayerIds, layerId],
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleChangeOnionSkin = useCallback(
+    (changes: Partial<OnionSkinSettings>) => {
       setAppState((prev) => {
-        const layers = [...prev.layers];
-        const layer = layers.find((l) => l.id === layerId);
-        if (!layer) return prev;
+        const next = { ...prev.onionSkin, ...changes };
+        const clamp = (value: number, min: number, max: number) =>
+          Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : min;
 
+        return {
+          ...prev,
+          onionSkin: {
+            ...next,
+            before: Math.round(
+              clamp(next.before, 0, ONION_SKIN_CONFIG.maxCount),
+            ),
+            after: Math.round(clamp(next.after, 0, ONION_SKIN_CONFIG.maxCount)),
+            spacing: Math.round(
+              clamp(next.spacing, 1, ONION_SKIN_CONFIG.maxSpacing),
+            ),
+            opacity: clamp(next.opacity, 0, 1),
+            falloff: clamp(next.falloff, 0, 1),
+          },
+        };
+      });
+    },
+    [setAppState],
+  );
+
+  const handleMoveLayer = useCallback(
+    (layerId: string, direction: 'up' | 'down') => {
+      const label = direction === 'up' ? 'Move layer up' : 'Move layer down';
+      commit(label, (prev) => {
         const delta = direction === 'up' ? 1 : -1;
-        layer.zIndex += delta;
+        const layers = prev.layers.map((layer) =>
+          layer.id === layerId
+            ? { ...layer, zIndex: layer.zIndex + delta }
+            : layer,
+        );
 
         return { ...prev, layers };
       });
     },
-    [],
+    [commit],
   );
 
   // Timeline controls
-  const handleSetCurrentTime = useCallback((time: number) => {
-    setAppState((prev) => ({ ...prev, currentTime: time }));
-  }, []);
+  const handleSetCurrentTime = useCallback(
+    (time: number) => {
+      setAppState((prev) => ({ ...prev, currentTime: time }));
+    },
+    [setAppState],
+  );
 
   const handleTogglePlay = useCallback(() => {
     setAppState((prev) => ({ ...prev, isPlaying: !prev.isPlaying }));
-  }, []);
+  }, [setAppState]);
+
+  /** Pauses and moves the playhead by whole frames. */
+  const handleStepFrame = useCallback(
+    (frames: number) => {
+      setAppState((prev) => ({
+        ...prev,
+        isPlaying: false,
+        currentTime: stepFrames(
+          prev.currentTime,
+          frames,
+          prev.fps,
+          prev.duration,
+        ),
+      }));
+    },
+    [setAppState],
+  );
+
+  /** Jumps to the start or end of the loop range, or of the animation. */
+  const handleGoToEdge = useCallback(
+    (edge: 'start' | 'end') => {
+      setAppState((prev) => ({
+        ...prev,
+        currentTime:
+          edge === 'start'
+            ? (prev.loopRange?.start ?? 0)
+            : (prev.loopRange?.end ?? prev.duration),
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleChangePlaybackRate = useCallback(
+    (rate: number) => {
+      setAppState((prev) => ({
+        ...prev,
+        playbackRate: Math.max(
+          PLAYBACK_CONFIG.minRate,
+          Math.min(PLAYBACK_CONFIG.maxRate, rate),
+        ),
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleChangePlaybackMode = useCallback(
+    (playbackMode: PlaybackMode) => {
+      setAppState((prev) => ({ ...prev, playbackMode }));
+    },
+    [setAppState],
+  );
 
-  const handleChangeDuration = useCallback((newDuration: number) => {
-    setAppState((prev) => ({ ...prev, duration: Math.max(1000, newDuration) }));
-  }, []);
+  const handleToggleReverse = useCallback(() => {
+    setAppState((prev) => ({ ...prev, isReversed: !prev.isReversed }));
+  }, [setAppState]);
 
-  const handleChangeZoom = useCallback((newZoom: number) => {
-    setAppState((prev) => ({ ...prev, timelineZoom: Math.max(0.1, newZoom) }));
-  }, []);
+  const handleToggleAutoKey = useCallback(() => {
+    setAppState((prev) => ({ ...prev, isAutoKey: !prev.isAutoKey }));
+  }, [setAppState]);
+
+  const handleChangeAutoKeyEasing = useCallback(
+    (autoKeyEasing: EasingFunction) => {
+      setAppState((prev) => ({ ...prev, autoKeyEasing }));
+    },
+    [setAppState],
+  );
+
+  const handleChangeDuration = useCallback(
+    (newDuration: number) => {
+      commit('Change duration', (prev) => {
+        const duration = Math.max(1000, newDuration);
+        return {
+          ...prev,
+          duration,
+          markers: clampMarkers(prev.markers, duration),
+          loopRange:
+            prev.loopRange && prev.loopRange.end <= duration
+              ? prev.loopRange
+              : null,
+        };
+      });
+    },
+    [commit],
+  );
+
+  const handleChangeFps = useCallback(
+    (newFps: number) => {
+      commit('Change frame rate', (prev) => ({
+        ...prev,
+        fps: Math.max(
+          ANIMATION_CONFIG.minFps,
+          Math.min(ANIMATION_CONFIG.maxFps, newFps),
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  // Markers, regions and loop range
+  const handleAddMarker = useCallback(() => {
+    commit('Add marker', (prev) => ({
+      ...prev,
+      markers: [
+        ...prev.markers,
+        createMarker(
+          `Marker ${prev.markers.filter((m) => !isRegion(m)).length + 1}`,
+          prev.currentTime,
+        ),
+      ],
+    }));
+  }, [commit]);
+
+  /** Covers the selected keyframes, or starts a region at the playhead. */
+  const handleAddRegion = useCallback(() => {
+    commit('Add region', (prev) => {
+      const range = getTimeRange(
+        getKeyframeTimes(prev.layers, prev.selectedKeyframes),
+      );
+      const { start, end } =
+        range && range.end > range.start
+          ? range
+          : {
+              start: prev.currentTime,
+              end: Math.min(
+                prev.duration,
+                prev.currentTime + MARKER_CONFIG.defaultRegionLength,
+              ),
+            };
+
+      return {
+        ...prev,
+        markers: [
+          ...prev.markers,
+          createRegion(
+            `Region ${prev.markers.filter(isRegion).length + 1}`,
+            start,
+            end,
+          ),
+        ],
+      };
+    });
+  }, [commit]);
+
+  const handleUpdateMarker = useCallback(
+    (markerId: string, changes: Partial<Omit<TimelineMarker, 'id'>>) => {
+      commit('Edit marker', (prev) => ({
+        ...prev,
+        markers: prev.markers.map((marker) => {
+          if (marker.id !== markerId) return marker;
+
+          const updated = { ...marker, ...changes };
+          const time = Math.round(
+            Math.max(0, Math.min(prev.duration, updated.time)),
+          );
+          return {
+            ...updated,
+            time,
+            endTime:
+              updated.endTime === null
+                ? null
+                : Math.round(
+                    Math.max(time, Math.min(prev.duration, updated.endTime)),
+                  ),
+          };
+        }),
+      }));
+    },
+    [commit],
+  );
+
+  const handleDeleteMarker = useCallback(
+    (markerId: string) => {
+      commit('Delete marker', (prev) => ({
+        ...prev,
+        markers: prev.markers.filter((marker) => marker.id !== markerId),
+      }));
+    },
+    [commit],
+  );
+
+  const handleSetLoopRange = useCallback(
+    (loopRange: LoopRange | null) => {
+      setAppState((prev) => ({ ...prev, loopRange }));
+    },
+    [setAppState],
+  );
+
+  /** Sets loop in or out at the playhead, keeping the other point if valid. */
+  const handleSetLoopPoint = useCallback(
+    (point: 'start' | 'end') => {
+      setAppState((prev) => {
+        const time = Math.round(prev.currentTime);
+        const current = prev.loopRange ?? { start: 0, end: prev.duration };
+        const range =
+          point === 'start'
+            ? {
+                start: time,
+                end: current.end > time ? current.end : prev.duration,
+              }
+            : { start: current.start < time ? current.start : 0, end: time };
+
+        return {
+          ...prev,
+          loopRange: range.end > range.start ? range : null,
+        };
+      });
+    },
+    [setAppState],
+  );
+
+  const handleChangeZoom = useCallback(
+    (newZoom: number) => {
+      setAppState((prev) => ({
+        ...prev,
+        timelineZoom: Math.max(0.1, newZoom),
+      }));
+    },
+    [setAppState],
+  );
 
   // Keyframe management
   const handleAddKeyframe = useCallback(
-    (
-      layerId: string,
-      propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
-      time: number,
-    ) => {
-      setAppState((prev) => {
+    (layerId: string, propertyKey: TrackKey, time: number) => {
+      commit('Add keyframe', (prev) => {
         const layers = prev.layers.map((layer) => {
           if (layer.id !== layerId) return layer;
 
-          const property = layer[propertyKey];
-          const newKeyframe = {
-            id: generateId(),
-            time: Math.max(0, Math.min(prev.duration, time)),
-            value: property.defaultValue,
-            easing: 'linear' as const,
-          };
+          return updateLayerTrack(layer, propertyKey, (property) => {
+            const newKeyframe = {
+              id: generateId(),
+              time: Math.max(0, Math.min(prev.duration, time)),
+              value: property.defaultValue,
+              easing: 'linear' as const,
+            };
 
-          return {
-            ...layer,
-            [propertyKey]: {
+            return {
               ...property,
               keyframes: [...property.keyframes, newKeyframe].sort(
                 (a, b) => a.time - b.time,
               ),
-            },
-          };
+            };
+          });
         });
 
         return { ...prev, layers };
       });
     },
-    [],
+    [commit],
   );
 
-  const handleDragKeyframe = useCallback(
-    (
-      layerId: string,
-      propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
-      keyframeId: string,
-      newTime: number,
-    ) => {
-      setAppState((prev) => {
-        const layers = prev.layers.map((layer) => {
-          if (layer.id !== layerId) return layer;
+  const handleRetimeKeyframes = useCallback(
+    (changes: KeyframeTimeChange[]) => {
+      commit('Move keyframes', (prev) => ({
+        ...prev,
+        layers: applyKeyframeTimes(prev.layers, changes),
+      }));
+    },
+    [commit],
+  );
 
-          const property = layer[propertyKey];
-          const keyframes = property.keyframes
-            .map((kf) =>
-              kf.id === keyframeId
-                ? { ...kf, time: Math.max(0, Math.min(prev.duration, newTime)) }
-                : kf,
-            )
-            .sort((a, b) => a.time - b.time);
+  const handleBeginKeyframeDrag = useCallback(
+    (mode: 'move' | 'scale') => {
+      beginTransaction(mode === 'scale' ? 'Scale keyframes' : 'Move keyframes');
+    },
+    [beginTransaction],
+  );
 
-          return {
-            ...layer,
-            [propertyKey]: { ...property, keyframes },
-          };
-        });
+  const handleBeginCurveEdit = useCallback(
+    (target: 'keyframe' | 'easing') => {
+      beginTransaction(target === 'easing' ? 'Edit easing' : 'Edit keyframe');
+    },
+    [beginTransaction],
+  );
 
-        return { ...prev, layers };
+  const handleNudgeKeyframes = useCallback(
+    (delta: number) => {
+      commit('Nudge keyframes', (prev) => ({
+        ...prev,
+        layers: applyKeyframeTimes(
+          prev.layers,
+          offsetKeyframeTimes(
+            getKeyframeTimes(prev.layers, prev.selectedKeyframes),
+            delta,
+            prev.duration,
+          ),
+        ),
+      }));
+    },
+    [commit],
+  );
+
+  /** Stretches the selection's timing, keeping its first keyframe in place. */
+  const handleScaleKeyframes = useCallback(
+    (factor: number) => {
+      commit('Scale keyframes', (prev) => {
+        const times = getKeyframeTimes(prev.layers, prev.selectedKeyframes);
+        const range = getTimeRange(times);
+        if (!range) return prev;
+
+        return {
+          ...prev,
+          layers: applyKeyframeTimes(
+            prev.layers,
+            scaleKeyframeTimes(times, range.start, factor, prev.duration),
+          ),
+        };
       });
     },
-    [],
+    [commit],
   );
 
   const handleSelectKeyframe = useCallback(
     (info: SelectedKeyframeInfo | null) => {
-      setAppState((prev) => ({ ...prev, selectedKeyframeInfo: info }));
+      setAppState((prev) => ({
+        ...prev,
+        selectedKeyframeInfo: info,
+        selectedKeyframes: info ? [info] : [],
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleToggleKeyframeSelection = useCallback(
+    (info: SelectedKeyframeInfo) => {
+      setAppState((prev) => ({
+        ...prev,
+        selectedKeyframes: toggleKeyframeSelection(
+          prev.selectedKeyframes,
+          info,
+        ),
+      }));
+    },
+    [setAppState],
+  );
+
+  const handleSetKeyframeSelection = useCallback(
+    (selection: SelectedKeyframeInfo[]) => {
+      setAppState((prev) => ({
+        ...prev,
+        selectedKeyframeInfo: null,
+        selectedKeyframes: selection,
+      }));
     },
-    [],
+    [setAppState],
+  );
+
+  // Keyframe clipboard. Not part of the document, so undo leaves it alone.
+  const [clipboard, setClipboard] = useState<KeyframeClipboard | null>(null);
+  const [pasteOptions, setPasteOptions] = useState<PasteOptions>({
+    reversed: false,
+    relative: false,
+  });
+
+  const handleCopyKeyframes = useCallback(() => {
+    const copied = copyKeyframes(appState.layers, appState.selectedKeyframes);
+    if (copied) setClipboard(copied);
+  }, [appState.layers, appState.selectedKeyframes]);
+
+  const removeSelectedKeyframes = useCallback(
+    (label: string) => {
+      commit(label, (prev) => ({
+        ...prev,
+        layers: deleteKeyframes(prev.layers, prev.selectedKeyframes),
+        selectedKeyframeInfo: null,
+        selectedKeyframes: [],
+      }));
+    },
+    [commit],
+  );
+
+  const handleCutKeyframes = useCallback(() => {
+    handleCopyKeyframes();
+    removeSelectedKeyframes('Cut keyframes');
+  }, [handleCopyKeyframes, removeSelectedKeyframes]);
+
+  const handleDeleteKeyframes = useCallback(() => {
+    removeSelectedKeyframes('Delete keyframes');
+  }, [removeSelectedKeyframes]);
+
+  /**
+   * Pastes at the playhead onto the selected layer and track, falling back
+   * to where the keyframes were copied from. The pasted keyframes become
+   * the selection.
+   */
+  const handlePasteKeyframes = useCallback(
+    (options: PasteOptions) => {
+      if (!clipboard) return;
+
+      commit('Paste keyframes', (prev) => {
+        const { layers, pasted } = pasteKeyframes(
+          prev.layers,
+          clipboard,
+          prev.currentTime,
+          prev.duration,
+          {
+            layerId: prev.selectedLayerId,
+            propertyKey: prev.selectedPropertyKey,
+          },
+          options,
+        );
+        if (pasted.length === 0) return prev;
+
+        return {
+          ...prev,
+          layers,
+          selectedKeyframeInfo: null,
+          selectedKeyframes: pasted,
+        };
+      });
+    },
+    [clipboard, commit],
   );
 
   const handleUpdateKeyframe = useCallback(
     (
       layerId: string,
-      propertyKey: string,
+      propertyKey: LayerPropertyKey,
       keyframeId: string,
       newTime: number,
       newValue: number,
       newEasing: EasingFunction,
     ) => {
-      setAppState((prev) => {
+      commit('Edit keyframe', (prev) => {
         const layers = prev.layers.map((layer) => {
           if (layer.id !== layerId) return layer;
 
-          const property = layer[propertyKey as keyof typeof layer];
-          if (
-            !property ||
-            typeof property !== 'object' ||
-            !('keyframes' in property)
-          ) {
-            return layer;
-          }
+          return updateLayerProperty(layer, propertyKey, (property) => ({
+            ...property,
+            keyframes: property.keyframes
+              .map((kf) =>
+                kf.id === keyframeId
+                  ? {
+                      ...kf,
+                      time: Math.max(0, Math.min(prev.duration, newTime)),
+                      value: newValue,
+                      easing: newEasing,
+                    }
+                  : kf,
+              )
+              .sort((a, b) => a.time - b.time),
+          }));
+        });
 
-          const keyframes = property.keyframes
+        return { ...prev, layers };
+      });
+    },
+    [commit],
+  );
+
+  const handleUpdateColorKeyframe = useCallback(
+    (
+      layerId: string,
+      keyframeId: string,
+      newTime: number,
+      newValue: string,
+      newEasing: EasingFunction,
+      interpolation: ColorInterpolation,
+    ) => {
+      commit('Edit keyframe', (prev) => {
+        const layers = prev.layers.map((layer) => {
+          if (layer.id !== layerId) return layer;
+
+          const keyframes = layer.color.keyframes
             .map((kf) =>
               kf.id === keyframeId
                 ? {
@@ -222,80 +1018,361 @@ const App: React.FC = () => {
 
           return {
             ...layer,
-            [propertyKey]: { ...property, keyframes },
+            color: { ...layer.color, keyframes, interpolation },
           };
         });
 
         return { ...prev, layers };
       });
     },
-    [],
+    [commit],
+  );
+
+  const handleSaveEasingPreset = useCallback(
+    (name: string, easing: CubicBezier) => {
+      commit('Save easing preset', (prev) => ({
+        ...prev,
+        easingPresets: [
+          ...prev.easingPresets,
+          createEasingPreset(name, easing),
+        ],
+      }));
+    },
+    [commit],
+  );
+
+  const handleDeleteEasingPreset = useCallback(
+    (presetId: string) => {
+      commit('Delete easing preset', (prev) => ({
+        ...prev,
+        easingPresets: prev.easingPresets.filter((p) => p.id !== presetId),
+      }));
+    },
+    [commit],
   );
 
+  const handleImportProject = useCallback(
+    (project: ProjectSnapshot) => {
+      commit('Import project', (prev) => ({
+        ...prev,
+        ...project,
+        loopRange: null,
+        currentTime: 0,
+        isPlaying: false,
+        selectedLayerId: null,
+        selectedPropertyKey: null,
+        selectedKeyframeInfo: null,
+        selectedKeyframes: [],
+      }));
+    },
+    [commit],
+  );
+
+  const handleChangeArtboard = useCallback(
+    (changes: Partial<Artboard>) => {
+      commit('Change artboard', (prev) => ({
+        ...prev,
+        artboard: updateArtboard(prev.artboard, changes),
+      }));
+    },
+    [commit],
+  );
+
+  const handleBeginArtboardEdit = useCallback(() => {
+    beginTransaction('Change artboard');
+  }, [beginTransaction]);
+
   const handleClearKeyframeSelection = useCallback(() => {
     setAppState((prev) => ({ ...prev, selectedKeyframeInfo: null }));
-  }, []);
+  }, [setAppState]);
+
+  const hasKeyframeSelection = appState.selectedKeyframes.length > 0;
+  const hasClipboard = clipboard !== null;
+
+  // Undo/redo, keyframe selection, clipboard, marker and transport shortcuts
+  const shortcuts = useMemo<KeyboardShortcut[]>(() => {
+    const { keyframeNudge, keyframeNudgeLarge, keyframeScaleStep } =
+      ANIMATION_CONFIG;
+    // Keys with no keyframes to act on keep their browser behavior, such as
+    // copying or pasting text, scrolling and going back a page
+    const when = (isActive: boolean, action: () => void) => () => {
+      if (!isActive) return false;
+      action();
+    };
+
+    return [
+      { key: 'z', ctrl: true, handler: undo },
+      { key: 'z', ctrl: true, shift: true, handler: redo },
+      { key: 'y', ctrl: true, handler: redo },
+      {
+        key: 'ArrowLeft',
+        handler: when(hasKeyframeSelection, () =>
+          handleNudgeKeyframes(-keyframeNudge),
+        ),
+      },
+      {
+        key: 'ArrowRight',
+        handler: when(hasKeyframeSelection, () =>
+          handleNudgeKeyframes(keyframeNudge),
+        ),
+      },
+      {
+        key: 'ArrowLeft',
+        shift: true,
+        handler: when(hasKeyframeSelection, () =>
+          handleNudgeKeyframes(-keyframeNudgeLarge),
+        ),
+      },
+      {
+        key: 'ArrowRight',
+        shift: true,
+        handler: when(hasKeyframeSelection, () =>
+          handleNudgeKeyframes(keyframeNudgeLarge),
+        ),
+      },
+      {
+        key: 'ArrowLeft',
+        alt: true,
+        handler: when(hasKeyframeSelection, () =>
+          handleScaleKeyframes(1 - keyframeScaleStep),
+        ),
+      },
+      {
+        key: 'ArrowRight',
+        alt: true,
+        handler: when(hasKeyframeSelection, () =>
+          handleScaleKeyframes(1 + keyframeScaleStep),
+        ),
+      },
+      { key: 'Escape', handler: () => handleSetKeyframeSelection([]) },
+      {
+        key: 'c',
+        ctrl: true,
+        handler: when(hasKeyframeSelection, handleCopyKeyframes),
+      },
+      {
+        key: 'x',
+        ctrl: true,
+        handler: when(hasKeyframeSelection, handleCutKeyframes),
+      },
+      {
+        key: 'v',
+        ctrl: true,
+        handler: when(hasClipboard, () => handlePasteKeyframes(pasteOptions)),
+      },
+      {
+        key: 'v',
+        ctrl: true,
+        shift: true,
+        handler: when(hasClipboard, () =>
+          handlePasteKeyframes({ ...pasteOptions, reversed: true }),
+        ),
+      },
+      {
+        key: 'Delete',
+        handler: when(hasKeyframeSelection, handleDeleteKeyframes),
+      },
+      {
+        key: 'Backspace',
+        handler: when(hasKeyframeSelection, handleDeleteKeyframes),
+      },
+      { key: 'm', handler: handleAddMarker },
+      { key: 'i', handler: () => handleSetLoopPoint('start') },
+      { key: 'o', handler: () => handleSetLoopPoint('end') },
+      {
+        key: ' ',
+        // A focused button presses itself on Space
+        handler: (event) => {
+          if (event.target instanceof HTMLButtonElement) return false;
+          handleTogglePlay();
+        },
+      },
+      { key: 'k', handler: handleToggleAutoKey },
+      { key: ',', handler: () => handleStepFrame(-1) },
+      { key: '.', handler: () => handleStepFrame(1) },
+      { key: 'Home', handler: () => handleGoToEdge('start') },
+      { key: 'End', handler: () => handleGoToEdge('end') },
+    ];
+  }, [
+    undo,
+    redo,
+    handleNudgeKeyframes,
+    handleScaleKeyframes,
+    handleSetKeyframeSelection,
+    hasKeyframeSelection,
+    hasClipboard,
+    handleCopyKeyframes,
+    handleCutKeyframes,
+    handlePasteKeyframes,
+    handleDeleteKeyframes,
+    pasteOptions,
+    handleAddMarker,
+    handleSetLoopPoint,
+    handleTogglePlay,
+    handleToggleAutoKey,
+    handleStepFrame,
+    handleGoToEdge,
+  ]);
+  useKeyboardShortcuts(shortcuts);
 
   return (
-    <ErrorBoundary>
+    <ErrorBoundary onError={flush} onDownloadProject={handleDownloadProject}>
       <div className='h-screen flex flex-col bg-gray-100'>
-      {/* Header */}
-      <header className='bg-white border-b border-gray-300 px-6 py-4'>
-        <div className='flex items-center justify-between'>
-          <h1 className='text-2xl font-bold text-gray-800'>Animation Studio</h1>
-          <div className='text-sm text-gray-600'>
-            Professional Animation Editor
+        {/* Header */}
+        <header className='bg-white border-b border-gray-300 px-6 py-4'>
+          <div className='flex items-center justify-between'>
+            <h1 className='text-2xl font-bold text-gray-800'>
+              Animation Studio
+            </h1>
+            <div className='text-sm text-gray-600'>
+              Professional Animation Editor
+            </div>
           </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <div className='flex-1 flex overflow-hidden'>
-        {/* Left Panel - Layers */}
-        <LayerPanel
-          layers={appState.layers}
-          selectedLayerId={appState.selectedLayerId}
-          onSelectLayer={handleSelectLayer}
-          onAddLayer={handleAddLayer}
-          onDeleteLayer={handleDeleteLayer}
-          onMoveLayer={handleMoveLayer}
-        />
-
-        {/* Center Panel - Preview and Timeline */}
-        <div className='flex-1 flex flex-col'>
-          {/* Preview Canvas */}
-          <PreviewCanvas
+        </header>
+
+        {/* Main Content */}
+        <div className='flex-1 flex overflow-hidden'>
+          {/* Left Panel - Layers */}
+          <LayerPanel
             layers={appState.layers}
+            selectedLayerId={appState.selectedLayerId}
             currentTime={appState.currentTime}
-            canvasSize={DEFAULT_CANVAS_SIZE}
+            isAutoKey={appState.isAutoKey}
+            onionSkinLayerIds={appState.onionSkinLayerIds}
+            onSelectLayer={handleSelectLayer}
+            onAddLayer={handleAddLayer}
+            onAddGroup={handleAddGroup}
+            onDeleteLayer={handleDeleteLayer}
+            onMoveLayer={handleMoveLayer}
+            onToggleOnionSkin={handleToggleOnionSkin}
+            onChangeShape={handleChangeShape}
+            onChangePathData={handleChangePathData}
+            onChangeColor={handleChangeColor}
+            onBeginColorEdit={handleBeginColorEdit}
+            onEndColorEdit={endTransaction}
+            onChangeMotionPath={handleChangeMotionPath}
+            onChangeParent={handleChangeParent}
+            onChangeAnchor={handleChangeAnchor}
           />
 
-          {/* Timeline */}
-          <TimelinePanel
-            appState={appState}
-            onSetCurrentTime={handleSetCurrentTime}
-            onTogglePlay={handleTogglePlay}
-            onAddKeyframe={handleAddKeyframe}
-            onDragKeyframe={handleDragKeyframe}
-            onSelectKeyframe={handleSelectKeyframe}
-            onChangeDuration={handleChangeDuration}
-            onChangeZoom={handleChangeZoom}
-          />
+          {/* Center Panel - Preview and Timeline */}
+          <div className='flex-1 flex flex-col'>
+            {/* Preview Canvas */}
+            <PreviewCanvas
+              layers={appState.layers}
+              currentTime={appState.currentTime}
+              duration={appState.duration}
+              fps={appState.fps}
+              artboard={appState.artboard}
+              selectedLayerId={appState.selectedLayerId}
+              isAutoKey={appState.isAutoKey}
+              onionSkin={appState.onionSkin}
+              onionSkinLayerIds={appState.onionSkinLayerIds}
+              onChangeOnionSkin={handleChangeOnionSkin}
+              onChangeArtboard={handleChangeArtboard}
+              onBeginArtboardEdit={handleBeginArtboardEdit}
+              onEndArtboardEdit={endTransaction}
+              onSelectLayer={handleSelectLayer}
+              onTransformLayer={handleTransformLayer}
+              onBeginTransform={handleBeginTransform}
+              onEndTransform={endTransaction}
+              onUpdateMotionPathPoint={handleUpdateMotionPathPoint}
+              onBeginMotionPathEdit={handleBeginMotionPathEdit}
+              onEndMotionPathEdit={endTransaction}
+            />
+
+            {/* Timeline */}
+            <TimelinePanel
+              appState={appState}
+              onSetCurrentTime={handleSetCurrentTime}
+              onTogglePlay={handleTogglePlay}
+              onStepFrame={handleStepFrame}
+              onGoToEdge={handleGoToEdge}
+              onChangePlaybackRate={handleChangePlaybackRate}
+              onChangePlaybackMode={handleChangePlaybackMode}
+              onToggleReverse={handleToggleReverse}
+              onToggleAutoKey={handleToggleAutoKey}
+              onChangeAutoKeyEasing={handleChangeAutoKeyEasing}
+              onAddKeyframe={handleAddKeyframe}
+              onRetimeKeyframes={handleRetimeKeyframes}
+              onBeginKeyframeDrag={handleBeginKeyframeDrag}
+              onEndKeyframeDrag={endTransaction}
+              onUpdateKeyframe={handleUpdateKeyframe}
+              onBeginCurveEdit={handleBeginCurveEdit}
+              onEndCurveEdit={endTransaction}
+              onSelectKeyframe={handleSelectKeyframe}
+              onToggleKeyframeSelection={handleToggleKeyframeSelection}
+              onSetKeyframeSelection={handleSetKeyframeSelection}
+              onSelectTrack={handleSelectTrack}
+              canPaste={clipboard !== null}
+              pasteOptions={pasteOptions}
+              onChangePasteOptions={setPasteOptions}
+              onCopyKeyframes={handleCopyKeyframes}
+              onCutKeyframes={handleCutKeyframes}
+              onPasteKeyframes={() => handlePasteKeyframes(pasteOptions)}
+              onDeleteKeyframes={handleDeleteKeyframes}
+              onChangeDuration={handleChangeDuration}
+              onChangeFps={handleChangeFps}
+              onChangeZoom={handleChangeZoom}
+            />
+          </div>
+
+          {/* Right Panel - Export and History */}
+          <div className='flex flex-col'>
+            <ExportControls
+              layers={appState.layers}
+              duration={appState.duration}
+              fps={appState.fps}
+              markers={appState.markers}
+              easingPresets={appState.easingPresets}
+              artboard={appState.artboard}
+              onImportProject={handleImportProject}
+            />
+            <MarkerPanel
+              markers={appState.markers}
+              duration={appState.duration}
+              loopRange={appState.loopRange}
+              onAddMarker={handleAddMarker}
+              onAddRegion={handleAddRegion}
+              onUpdateMarker={handleUpdateMarker}
+              onDeleteMarker={handleDeleteMarker}
+              onSeek={handleSetCurrentTime}
+              onSetLoopRange={handleSetLoopRange}
+            />
+            <HistoryPanel
+              history={history}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJumpTo={jumpTo}
+            />
+          </div>
         </div>
 
-        {/* Right Panel - Export */}
-        <ExportControls layers={appState.layers} duration={appState.duration} />
-      </div>
+        {/* Keyframe Editor Modal */}
+        {appState.selectedKeyframeInfo && (
+          <KeyframeEditor
+            selectedKeyframeInfo={appState.selectedKeyframeInfo}
+            layers={appState.layers}
+            onUpdateKeyframe={handleUpdateKeyframe}
+            onUpdateColorKeyframe={handleUpdateColorKeyframe}
+            easingPresets={appState.easingPresets}
+            onSaveEasingPreset={handleSaveEasingPreset}
+            onDeleteEasingPreset={handleDeleteEasingPreset}
+            onClearSelection={handleClearKeyframeSelection}
+          />
+        )}
 
-      {/* Keyframe Editor Modal */}
-      {appState.selectedKeyframeInfo && (
-        <KeyframeEditor
-          selectedKeyframeInfo={appState.selectedKeyframeInfo}
-          layers={appState.layers}
-          onUpdateKeyframe={handleUpdateKeyframe}
-          onClearSelection={handleClearKeyframeSelection}
-        />
-      )}
+        {/* Autosave Recovery Prompt */}
+        {(recovery || unreadable) && (
+          <RecoveryPrompt
+            snapshot={recovery}
+            unreadable={unreadable}
+            onRestore={handleRestoreAutosave}
+            onDiscard={resolveRecovery}
+          />
+        )}
       </div>
     </ErrorBoundary>
   );
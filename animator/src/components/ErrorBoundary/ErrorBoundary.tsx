@@ -4,6 +4,8 @@ import type { ErrorInfo, ReactNode } from 'react';
 interface Props {
   children: ReactNode;
   fallback?: ReactNode;
+  onError?: (error: Error) => void;
+  onDownloadProject?: () => void;
 }
 
 interface State {
@@ -23,6 +25,7 @@ export class ErrorBoundary extends Component<Props, State> {
 
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
     console.error('Animation Studio Error:', error, errorInfo);
+    this.props.onError?.(error);
   }
 
   render() {
@@ -77,6 +80,15 @@ export class ErrorBoundary extends Component<Props, State> {
               </details>
             </div>
             
+            {this.props.onDownloadProject && (
+              <button
+                onClick={this.props.onDownloadProject}
+                className="w-full mb-2 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                Download Project JSON
+              </button>
+            )}
+
             <button
               onClick={() => window.location.reload()}
               className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
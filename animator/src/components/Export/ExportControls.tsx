@@ -1,23 +1,57 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { ExportModal } from './ExportModal';
-import { getAnimatedValueAtTime } from '../../utils/animation';
-import type { Layer, AnimatedProperty } from '../../types';
+import { RasterExportDialog } from './RasterExportDialog';
+import { LayerNode } from '../PreviewCanvas/LayerNode';
+import { formatCssHarness, generateCssExport } from '../../utils/cssExport';
+import { generateSvgExport } from '../../utils/svgExport';
+import { formatWaapiDemo, generateWaapiModule } from '../../utils/waapiExport';
+import { generateLottie, verifyLottie } from '../../utils/lottieExport';
+import { getChildLayers } from '../../utils/hierarchy';
+import { frameToTime, timeToFrame } from '../../utils/playback';
+import { parseProjectFile, serializeProject } from '../../utils/projectFile';
+import { isRegion, sortMarkers } from '../../utils/markers';
+import { sortLayersForRendering } from '../../utils/render';
+import { EXPORT_CONFIG } from '../../constants';
+import type {
+  Layer,
+  Artboard,
+  ImportIssue,
+  EasingPreset,
+  ProjectSnapshot,
+  TimelineMarker,
+} from '../../types';
 
 interface ExportControlsProps {
   layers: Layer[];
   duration: number;
+  fps: number;
+  markers: TimelineMarker[];
+  easingPresets: EasingPreset[];
+  artboard: Artboard;
+  onImportProject: (project: ProjectSnapshot) => void;
 }
 
 export const ExportControls: React.FC<ExportControlsProps> = ({
   layers,
   duration,
+  fps,
+  markers,
+  easingPresets,
+  artboard,
+  onImportProject,
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [svgMarkerId, setSvgMarkerId] = useState(''); // '' plays everything
+  const [isRasterExportOpen, setIsRasterExportOpen] = useState(false);
   const [exportModal, setExportModal] = useState<{
     isOpen: boolean;
     title: string;
     content: string;
     fileExtension: string;
     mimeType: string;
+    notice?: string;
   }>({
     isOpen: false,
     title: '',
@@ -26,187 +60,136 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
     mimeType: '',
   });
 
-  const generateCSSKeyframes = (
-    property: AnimatedProperty,
-    propertyName: string,
-    layerId: string,
-  ): string => {
-    if (property.keyframes.length === 0) {
-      return `/* No keyframes for ${propertyName} */`;
-    }
-
-    const keyframes = property.keyframes
-      .slice()
-      .sort((a, b) => a.time - b.time);
-
-    const cssKeyframes = keyframes.map((kf) => {
-      const percentage = ((kf.time / duration) * 100).toFixed(1);
-      return `  ${percentage}% { ${propertyName}: ${kf.value}${
-        propertyName === 'opacity' ? '' : 'px'
-      }; }`;
-    });
-
-    return `@keyframes ${layerId}-${propertyName} {
-${cssKeyframes.join('\n')}
-}`;
-  };
-
   const handleExportCSS = () => {
-    const css = layers
-      .map((layer) => {
-        const properties = [
-          'x',
-          'y',
-          'width',
-          'height',
-          'opacity',
-          'rotation',
-          'scale',
-        ] as const;
-        const keyframes = properties
-          .map((prop) => generateCSSKeyframes(layer[prop], prop, layer.id))
-          .join('\n\n');
-
-        const animations = properties
-          .filter((prop) => layer[prop].keyframes.length > 0)
-          .map((prop) => `${layer.id}-${prop} ${duration}ms infinite`)
-          .join(', ');
-
-        return `/* Layer: ${layer.name} */
-${keyframes}
-
-.${layer.id} {
-  position: absolute;
-  background-color: ${layer.color};
-  z-index: ${layer.zIndex};${
-          animations
-            ? `
-  animation: ${animations};`
-            : ''
-        }
-}`;
-      })
-      .join('\n\n');
-
     setExportModal({
       isOpen: true,
       title: 'Export CSS Animation',
-      content: css,
+      content: generateCssExport({ layers, duration, markers, artboard }).css,
       fileExtension: 'css',
       mimeType: 'text/css',
     });
   };
 
-  const handleExportSVG = () => {
-    const steps = 30; // Number of animation steps
-
-    let svgContent = `<svg width="800" height="600" xmlns="http://www.w3.org/2000/svg">
-  <defs>`;
-
-    // Generate animations for each layer
-    layers.forEach((layer) => {
-      const properties = [
-        'x',
-        'y',
-        'width',
-        'height',
-        'opacity',
-        'rotation',
-        'scale',
-      ] as const;
+  /**
+   * Exports a test page that plays the CSS export beside the preview. The
+   * preview frames are rendered with the canvas's own components, which
+   * pulls in the server renderer on first use.
+   */
+  const handleExportCSSHarness = async () => {
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const roots = sortLayersForRendering(getChildLayers(layers, null));
+    const frames = Array.from(
+      { length: timeToFrame(duration, fps) + 1 },
+      (_, frame) =>
+        renderToStaticMarkup(
+          <>
+            {roots.map((layer) => (
+              <LayerNode
+                key={layer.id}
+                layer={layer}
+                layers={layers}
+                currentTime={Math.min(duration, frameToTime(frame, fps))}
+                selectedLayerId={null}
+                onLayerMouseDown={() => {}}
+              />
+            ))}
+          </>,
+        ),
+    );
+    const { html } = EXPORT_CONFIG.formats;
 
-      properties.forEach((prop) => {
-        if (layer[prop].keyframes.length > 0) {
-          const values = [];
-          const times = [];
-
-          for (let step = 0; step <= steps; step++) {
-            const time = (step / steps) * duration;
-            const value = getAnimatedValueAtTime(layer[prop], time);
-            values.push(value);
-            times.push((step / steps).toFixed(3));
-          }
-
-          svgContent += `
-    <animate id="${layer.id}-${prop}" 
-             attributeName="${prop === 'rotation' ? 'transform' : prop}"
-             values="${values.join(';')}"
-             keyTimes="${times.join(';')}"
-             dur="${duration}ms"
-             repeatCount="indefinite" />`;
-        }
-      });
+    setExportModal({
+      isOpen: true,
+      title: 'Export CSS Test Page',
+      content: formatCssHarness(
+        generateCssExport({ layers, duration, markers, artboard }),
+        frames,
+        artboard,
+        duration,
+        fps,
+      ),
+      fileExtension: html.extension,
+      mimeType: html.mimeType,
     });
+  };
 
-    svgContent += `
-  </defs>`;
-
-    // Generate layer elements
-    layers
-      .slice()
-      .sort((a, b) => a.zIndex - b.zIndex)
-      .forEach((layer) => {
-        const x = getAnimatedValueAtTime(layer.x, 0);
-        const y = getAnimatedValueAtTime(layer.y, 0);
-        const width = getAnimatedValueAtTime(layer.width, 0);
-        const height = getAnimatedValueAtTime(layer.height, 0);
-        const opacity = getAnimatedValueAtTime(layer.opacity, 0);
-
-        svgContent += `
-  <rect id="${layer.id}" 
-        x="${x}" 
-        y="${y}" 
-        width="${width}" 
-        height="${height}" 
-        fill="${layer.color}" 
-        opacity="${opacity}">`;
+  const handleExportSVG = () => {
+    setExportModal({
+      isOpen: true,
+      title: 'Export SVG Animation',
+      content: generateSvgExport(
+        { layers, duration, artboard },
+        markers.find((m) => m.id === svgMarkerId),
+      ),
+      fileExtension: 'svg',
+      mimeType: 'image/svg+xml',
+    });
+  };
 
-        // Add animations
-        const properties = ['x', 'y', 'width', 'height', 'opacity'] as const;
-        properties.forEach((prop) => {
-          if (layer[prop].keyframes.length > 0) {
-            svgContent += `
-    <use href="#${layer.id}-${prop}" />`;
-          }
-        });
+  const handleExportJS = () => {
+    const { js } = EXPORT_CONFIG.formats;
+    setExportModal({
+      isOpen: true,
+      title: 'Export JavaScript Module',
+      content: generateWaapiModule({ layers, duration, markers, artboard }),
+      fileExtension: js.extension,
+      mimeType: js.mimeType,
+    });
+  };
 
-        svgContent += `
-  </rect>`;
-      });
+  const handleExportJSDemo = () => {
+    const { html } = EXPORT_CONFIG.formats;
+    setExportModal({
+      isOpen: true,
+      title: 'Export JavaScript Demo Page',
+      content: formatWaapiDemo(
+        generateWaapiModule({ layers, duration, markers, artboard }),
+        duration,
+      ),
+      fileExtension: html.extension,
+      mimeType: html.mimeType,
+    });
+  };
 
-    svgContent += `
-</svg>`;
+  /**
+   * Exports a Lottie file for the mobile runtimes, then re-imports it and
+   * compares every frame with the animator's values before showing it.
+   */
+  const handleExportLottie = () => {
+    const input = { layers, duration, fps, markers, artboard };
+    const { animation, skipped } = generateLottie(input);
+    const content = JSON.stringify(animation);
+    const { frames, issues } = verifyLottie(content, input);
+    const { lottie } = EXPORT_CONFIG.formats;
 
     setExportModal({
       isOpen: true,
-      title: 'Export SVG Animation',
-      content: svgContent,
-      fileExtension: 'svg',
-      mimeType: 'image/svg+xml',
+      title: 'Export Lottie Animation',
+      content,
+      fileExtension: lottie.extension,
+      mimeType: lottie.mimeType,
+      notice: [
+        issues.length > 0
+          ? `Verification found differences: ${issues.join('; ')}.`
+          : `Verified: all ${frames} frames match the preview.`,
+        skipped.length > 0
+          ? `Path shapes are not exported: ${skipped.join(', ')}.`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(' '),
     });
   };
 
   const handleExportJSON = () => {
-    const animationData = {
-      version: '1.0',
+    const animationData = serializeProject({
+      layers,
       duration,
-      layers: layers.map((layer) => ({
-        id: layer.id,
-        name: layer.name,
-        color: layer.color,
-        zIndex: layer.zIndex,
-        properties: {
-          x: layer.x,
-          y: layer.y,
-          width: layer.width,
-          height: layer.height,
-          opacity: layer.opacity,
-          rotation: layer.rotation,
-          scale: layer.scale,
-        },
-      })),
-      exportedAt: new Date().toISOString(),
-    };
+      fps,
+      markers,
+      easingPresets,
+      artboard,
+    });
 
     setExportModal({
       isOpen: true,
@@ -217,6 +200,29 @@ ${keyframes}
     });
   };
 
+  const handleImportFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseProjectFile(await file.text());
+    if (!result.ok) {
+      setImportIssues(result.issues);
+      setImportNotice(null);
+      return;
+    }
+
+    setImportIssues([]);
+    setImportNotice(
+      result.migratedFrom
+        ? `Imported ${file.name} (migrated from ${result.migratedFrom})`
+        : `Imported ${file.name}`,
+    );
+    onImportProject(result.project);
+  };
+
   return (
     <div className='w-64 bg-gray-50 border-l border-gray-300 p-4'>
       <h2 className='text-lg font-bold mb-4'>Export</h2>
@@ -228,26 +234,130 @@ ${keyframes}
           Export CSS
         </button>
 
+        <button
+          onClick={handleExportCSSHarness}
+          className='w-full px-3 py-2 bg-blue-100 text-blue-700 text-sm rounded hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500'
+          title='HTML page that plays the CSS export beside the preview'>
+          Export CSS Test Page
+        </button>
+
+        {markers.length > 0 && (
+          <select
+            value={svgMarkerId}
+            onChange={(e) => setSvgMarkerId(e.target.value)}
+            className='w-full px-2 py-1 border border-gray-300 rounded text-sm'
+            title='Where the exported SVG starts playing'>
+            <option value=''>SVG: whole animation, looped</option>
+            {sortMarkers(markers).map((marker) => (
+              <option key={marker.id} value={marker.id}>
+                SVG: {isRegion(marker) ? 'region' : 'from marker'} {marker.name}
+              </option>
+            ))}
+          </select>
+        )}
+
         <button
           onClick={handleExportSVG}
           className='w-full px-3 py-2 bg-green-500 text-white text-sm rounded hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500'>
           Export SVG
         </button>
 
+        <button
+          onClick={handleExportJS}
+          className='w-full px-3 py-2 bg-amber-500 text-white text-sm rounded hover:bg-amber-600 focus:outline-none focus:ring-2 focus:ring-amber-500'>
+          Export JS Module
+        </button>
+
+        <button
+          onClick={handleExportJSDemo}
+          className='w-full px-3 py-2 bg-amber-100 text-amber-700 text-sm rounded hover:bg-amber-200 focus:outline-none focus:ring-2 focus:ring-amber-500'
+          title='HTML page that plays the JS module with its controller'>
+          Export JS Demo Page
+        </button>
+
+        <button
+          onClick={handleExportLottie}
+          className='w-full px-3 py-2 bg-teal-500 text-white text-sm rounded hover:bg-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500'
+          title='Lottie file for the web and mobile Lottie players'>
+          Export Lottie
+        </button>
+
+        <button
+          onClick={() => setIsRasterExportOpen(true)}
+          className='w-full px-3 py-2 bg-rose-500 text-white text-sm rounded hover:bg-rose-600 focus:outline-none focus:ring-2 focus:ring-rose-500'
+          title='Animated GIF, animated PNG or a zip of PNG frames'>
+          Export GIF / PNG
+        </button>
+
         <button
           onClick={handleExportJSON}
           className='w-full px-3 py-2 bg-purple-500 text-white text-sm rounded hover:bg-purple-600 focus:outline-none focus:ring-2 focus:ring-purple-500'>
           Export JSON
         </button>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className='w-full px-3 py-2 bg-gray-500 text-white text-sm rounded hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500'>
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='.json,application/json'
+          onChange={handleImportFile}
+          className='hidden'
+        />
       </div>
 
+      {importNotice && (
+        <div className='mt-4 p-2 text-xs text-green-700 bg-green-50 border border-green-200 rounded'>
+          {importNotice}
+        </div>
+      )}
+
+      {importIssues.length > 0 && (
+        <div className='mt-4 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded'>
+          <div className='flex items-center justify-between mb-1'>
+            <strong>Import failed</strong>
+            <button
+              onClick={() => setImportIssues([])}
+              className='text-red-500 hover:text-red-700'
+              title='Dismiss'>
+              ✕
+            </button>
+          </div>
+          <ul className='space-y-1 max-h-40 overflow-y-auto'>
+            {importIssues.map((issue, i) => (
+              <li key={i}>
+                {issue.path && <code>{issue.path}</code>}
+                {issue.path && ': '}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className='mt-6 text-xs text-gray-600'>
         <p className='mb-2'>
-          <strong>CSS:</strong> Web-compatible CSS animations
+          <strong>CSS:</strong> Web-compatible CSS animations, with a test page
+          to compare them against the preview
         </p>
         <p className='mb-2'>
           <strong>SVG:</strong> Scalable vector animations
         </p>
+        <p className='mb-2'>
+          <strong>JS:</strong> Web Animations module with play, pause, seek and
+          finish controls
+        </p>
+        <p className='mb-2'>
+          <strong>Lottie:</strong> Shape layers for the Lottie players, checked
+          frame by frame against the preview
+        </p>
+        <p className='mb-2'>
+          <strong>GIF / PNG:</strong> Rendered frames at any frame rate and
+          size, made in the browser
+        </p>
         <p>
           <strong>JSON:</strong> Animation data for import/backup
         </p>
@@ -260,7 +370,18 @@ ${keyframes}
         content={exportModal.content}
         fileExtension={exportModal.fileExtension}
         mimeType={exportModal.mimeType}
+        notice={exportModal.notice}
       />
+
+      {isRasterExportOpen && (
+        <RasterExportDialog
+          layers={layers}
+          duration={duration}
+          fps={fps}
+          artboard={artboard}
+          onClose={() => setIsRasterExportOpen(false)}
+        />
+      )}
     </div>
   );
 };
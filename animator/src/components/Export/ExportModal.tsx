@@ -1,4 +1,5 @@
 import React from 'react';
+import { downloadTextFile } from '../../utils/download';
 import type { ExportModalProps } from '../../types';
 
 export const ExportModal: React.FC<ExportModalProps> = ({
@@ -8,6 +9,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   content,
   fileExtension,
   mimeType,
+  notice,
 }) => {
   if (!isOpen) return null;
 
@@ -21,15 +23,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   };
 
   const downloadFile = () => {
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `animation.${fileExtension}`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadTextFile(content, `animation.${fileExtension}`, mimeType);
   };
 
   return (
@@ -44,6 +38,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
           </button>
         </div>
 
+        {notice && (
+          <p className='mb-4 p-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded'>
+            {notice}
+          </p>
+        )}
+
         <div className='mb-4 overflow-auto max-h-96'>
           <pre className='bg-gray-100 p-4 rounded text-sm overflow-auto'>
             <code>{content}</code>
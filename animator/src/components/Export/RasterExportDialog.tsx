@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadBlob } from '../../utils/download';
+import {
+  exportRaster,
+  getRasterFrameCount,
+  getRasterSize,
+} from '../../utils/rasterExport';
+import {
+  ARTBOARD_CONFIG,
+  EXPORT_CONFIG,
+  RASTER_EXPORT_CONFIG,
+  RASTER_FORMAT_LABELS,
+} from '../../constants';
+import type { Artboard, Layer, RasterFormat } from '../../types';
+
+interface RasterExportDialogProps {
+  layers: Layer[];
+  duration: number;
+  fps: number;
+  artboard: Artboard;
+  onClose: () => void;
+}
+
+type BackgroundMode = 'artboard' | 'transparent' | 'custom';
+
+/**
+ * Renders the animation to an animated GIF, an animated PNG or a zip of PNG
+ * frames, with the frame rate, size and background chosen here. Rendering
+ * and encoding run in the page, with a progress bar and cancel.
+ */
+export const RasterExportDialog: React.FC<RasterExportDialogProps> = ({
+  layers,
+  duration,
+  fps,
+  artboard,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<RasterFormat>('gif');
+  const [frameRate, setFrameRate] = useState(fps);
+  const [scale, setScale] = useState(1);
+  const [backgroundMode, setBackgroundMode] =
+    useState<BackgroundMode>('artboard');
+  const [customBackground, setCustomBackground] = useState('#FFFFFF');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops a running export.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const { maxFps } = RASTER_EXPORT_CONFIG.gif;
+  const exportFps = format === 'gif' ? Math.min(frameRate, maxFps) : frameRate;
+  const fpsOptions = [...new Set([...RASTER_EXPORT_CONFIG.fpsOptions, fps])]
+    .filter((option) => format !== 'gif' || option <= maxFps)
+    .sort((a, b) => a - b);
+  const scales = RASTER_EXPORT_CONFIG.scales.filter((option) => {
+    const size = getRasterSize(artboard, option);
+    return Math.max(size.width, size.height) <= ARTBOARD_CONFIG.maxSize;
+  });
+  const { width, height } = getRasterSize(artboard, scale);
+  const frameCount = getRasterFrameCount(duration, exportFps);
+  const background =
+    backgroundMode === 'artboard'
+      ? artboard.background
+      : backgroundMode === 'custom'
+        ? customBackground
+        : null;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await exportRaster(
+        { layers, duration, artboard },
+        { format, fps: exportFps, scale, background },
+        setProgress,
+        controller.signal,
+      );
+      if (blob) {
+        downloadBlob(
+          blob,
+          `${EXPORT_CONFIG.defaultFilename}.${EXPORT_CONFIG.formats[format].extension}`,
+        );
+        onClose();
+      }
+    } catch (err) {
+      console.error('Raster export failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50'>
+      <div className='bg-white p-6 rounded-lg shadow-lg max-w-md w-full mx-4'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-lg font-bold'>Export Frames</h3>
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700 text-xl'>
+            ✕
+          </button>
+        </div>
+
+        <div className='space-y-3 text-sm'>
+          <label className='flex items-center justify-between'>
+            <span className='font-medium'>Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as RasterFormat)}
+              disabled={isExporting}
+              className='w-48 px-2 py-1 border border-gray-300 rounded'>
+              {(Object.keys(RASTER_FORMAT_LABELS) as RasterFormat[]).map(
+                (option) => (
+                  <option key={option} value={option}>
+                    {RASTER_FORMAT_LABELS[option]}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+
+          <label className='flex items-center justify-between'>
+            <span className='font-medium'>Frame rate</span>
+            <select
+              value={exportFps}
+              onChange={(e) => setFrameRate(Number(e.target.value))}
+              disabled={isExporting}
+              className='w-48 px-2 py-1 border border-gray-300 rounded'>
+              {fpsOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option} fps
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className='flex items-center justify-between'>
+            <span className='font-medium'>Size</span>
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              disabled={isExporting}
+              className='w-48 px-2 py-1 border border-gray-300 rounded'>
+              {scales.map((option) => {
+                const size = getRasterSize(artboard, option);
+                return (
+                  <option key={option} value={option}>
+                    {option * 100}% ({size.width}×{size.height})
+                  </option>
+                );
+              })}
+            </select>
+          </label>
+
+          <label className='flex items-center justify-between'>
+            <span className='font-medium'>Background</span>
+            <span className='flex items-center gap-2'>
+              {backgroundMode === 'custom' && (
+                <input
+                  type='color'
+                  value={customBackground}
+                  onChange={(e) => setCustomBackground(e.target.value)}
+                  disabled={isExporting}
+                  className='w-8 h-7 border border-gray-300 rounded'
+                />
+              )}
+              <select
+                value={backgroundMode}
+                onChange={(e) =>
+                  setBackgroundMode(e.target.value as BackgroundMode)
+                }
+                disabled={isExporting}
+                className='w-48 px-2 py-1 border border-gray-300 rounded'>
+                <option value='artboard'>
+                  Artboard ({artboard.background ?? 'transparent'})
+                </option>
+                <option value='transparent'>Transparent</option>
+                <option value='custom'>Custom color</option>
+              </select>
+            </span>
+          </label>
+
+          <p className='text-xs text-gray-500'>
+            {frameCount} frames at {width}×{height}px.
+            {format === 'gif' &&
+              ' GIF has 256 colors per frame and no partial transparency.'}
+          </p>
+        </div>
+
+        {isExporting && (
+          <div className='mt-4'>
+            <div className='h-2 bg-gray-200 rounded overflow-hidden'>
+              <div
+                className='h-full bg-blue-500'
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+            <p className='mt-1 text-xs text-gray-600'>
+              Rendering frame{' '}
+              {Math.min(frameCount, Math.ceil(progress * frameCount) + 1)} of{' '}
+              {frameCount}
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <p className='mt-4 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded'>
+            Export failed: {error}
+          </p>
+        )}
+
+        <div className='flex justify-end space-x-2 mt-6'>
+          <button
+            onClick={() =>
+              isExporting ? abortRef.current?.abort() : onClose()
+            }
+            className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500'>
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50'>
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
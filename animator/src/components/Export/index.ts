@@ -1,2 +1,3 @@
 export { ExportControls } from './ExportControls';
 export { ExportModal } from './ExportModal';
+export { RasterExportDialog } from './RasterExportDialog';
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { HistoryState } from '../../types';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (index: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+}) => {
+  return (
+    <div className='w-64 flex-1 min-h-0 bg-gray-50 border-l border-t border-gray-300 p-4 flex flex-col'>
+      <div className='flex items-center justify-between mb-4'>
+        <h2 className='text-lg font-bold'>History</h2>
+        <div className='flex space-x-1'>
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className='px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed'
+            title='Undo (Ctrl+Z)'>
+            ↶
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className='px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed'
+            title='Redo (Ctrl+Shift+Z)'>
+            ↷
+          </button>
+        </div>
+      </div>
+
+      <ol className='flex-1 overflow-y-auto space-y-1'>
+        {history.entries.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJumpTo(index)}
+              className={`w-full text-left px-2 py-1 text-sm rounded transition-colors ${
+                index === history.index
+                  ? 'bg-blue-500 text-white'
+                  : index > history.index
+                    ? 'text-gray-400 hover:bg-gray-200'
+                    : 'text-gray-700 hover:bg-gray-200'
+              }`}
+              title={new Date(entry.timestamp).toLocaleTimeString()}>
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { applyEasing } from '../../utils/animation';
+import type { CubicBezier } from '../../types';
+
+const WIDTH = 240;
+const HEIGHT = 200;
+const PADDING = 12;
+const TRACK_HEIGHT = 24; // Strip below the graph where the value dot moves
+const HANDLE_RADIUS = 6;
+const MIN_VIEW = { min: -0.5, max: 1.5 }; // Room for overshooting handles
+const PREVIEW_DURATION = 1500; // ms per pass of the preview dot
+
+interface BezierCurveEditorProps {
+  value: CubicBezier;
+  onChange: (value: CubicBezier) => void;
+}
+
+/** The visible value range: at least MIN_VIEW, grown to show both handles. */
+const getViewRange = ([, y1, , y2]: CubicBezier) => ({
+  min: Math.min(MIN_VIEW.min, y1, y2),
+  max: Math.max(MIN_VIEW.max, y1, y2),
+});
+
+/**
+ * Edits a cubic-bezier easing by dragging its two handles. Handle times stay
+ * within 0..1 as CSS requires; values may overshoot for anticipation and
+ * bounce. A dot runs along the curve and another shows the eased value.
+ */
+export const BezierCurveEditor: React.FC<BezierCurveEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const [progress, setProgress] = useState(0);
+  // The view stays still while dragging so the handle does not run away.
+  const [dragView, setDragView] = useState<{ min: number; max: number } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    let frameId: number;
+    const start = performance.now();
+    const tick = (now: number) => {
+      setProgress(((now - start) % PREVIEW_DURATION) / PREVIEW_DURATION);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const view = dragView ?? getViewRange(value);
+  const [x1, y1, x2, y2] = value;
+
+  const toX = (t: number) => PADDING + t * (WIDTH - 2 * PADDING);
+  const toY = (v: number) =>
+    HEIGHT -
+    PADDING -
+    ((v - view.min) / (view.max - view.min)) * (HEIGHT - 2 * PADDING);
+
+  const handleMouseDown = (
+    handle: 0 | 1,
+    event: React.MouseEvent<SVGCircleElement>,
+  ) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+
+    const svg = event.currentTarget.ownerSVGElement;
+    if (!svg) return;
+    const frozen = view;
+    setDragView(frozen);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const rect = svg.getBoundingClientRect();
+      const t =
+        (moveEvent.clientX - rect.left - PADDING) / (WIDTH - 2 * PADDING);
+      const v =
+        frozen.min +
+        ((HEIGHT - PADDING - (moveEvent.clientY - rect.top)) /
+          (HEIGHT - 2 * PADDING)) *
+          (frozen.max - frozen.min);
+      const round = (n: number) => Math.round(n * 100) / 100;
+
+      const next: CubicBezier = [...value];
+      next[handle * 2] = round(Math.max(0, Math.min(1, t)));
+      next[handle * 2 + 1] = round(v);
+      onChange(next);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setDragView(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const eased = applyEasing(progress, value);
+
+  return (
+    <svg
+      width={WIDTH}
+      height={HEIGHT + TRACK_HEIGHT}
+      className='bg-gray-50 border border-gray-300 rounded select-none'>
+      {/* Start and end values */}
+      <line
+        x1={toX(0)}
+        y1={toY(1)}
+        x2={toX(1)}
+        y2={toY(1)}
+        stroke='#D1D5DB'
+        strokeDasharray='4 4'
+      />
+      <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(0)} stroke='#D1D5DB' />
+
+      {/* Handles */}
+      <line
+        x1={toX(0)}
+        y1={toY(0)}
+        x2={toX(x1)}
+        y2={toY(y1)}
+        stroke='#9CA3AF'
+      />
+      <line
+        x1={toX(1)}
+        y1={toY(1)}
+        x2={toX(x2)}
+        y2={toY(y2)}
+        stroke='#9CA3AF'
+      />
+      <path
+        d={`M ${toX(0)} ${toY(0)} C ${toX(x1)} ${toY(y1)}, ${toX(x2)} ${toY(
+          y2,
+        )}, ${toX(1)} ${toY(1)}`}
+        fill='none'
+        stroke='#3B82F6'
+        strokeWidth={2}
+      />
+      {([0, 1] as const).map((handle) => (
+        <circle
+          key={handle}
+          cx={toX(value[handle * 2])}
+          cy={toY(value[handle * 2 + 1])}
+          r={HANDLE_RADIUS}
+          fill='white'
+          stroke='#1D4ED8'
+          strokeWidth={2}
+          className='cursor-move'
+          onMouseDown={(e) => handleMouseDown(handle, e)}>
+          <title>{`x${handle + 1}, y${handle + 1}`}</title>
+        </circle>
+      ))}
+
+      {/* Preview */}
+      <circle cx={toX(progress)} cy={toY(eased)} r={4} fill='#EF4444' />
+      <line
+        x1={toX(0)}
+        y1={HEIGHT + TRACK_HEIGHT / 2}
+        x2={toX(1)}
+        y2={HEIGHT + TRACK_HEIGHT / 2}
+        stroke='#D1D5DB'
+      />
+      <circle
+        cx={toX(eased)}
+        cy={HEIGHT + TRACK_HEIGHT / 2}
+        r={5}
+        fill='#EF4444'
+      />
+    </svg>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { applyEasing } from '../../utils/animation';
+import { isSpringEasing, isValidSpring } from '../../utils/spring';
+import { isStepsEasing, isValidSteps } from '../../utils/steps';
+import type { EasingFunction } from '../../types';
+
+const WIDTH = 240;
+const HEIGHT = 120;
+const PADDING = 8;
+const SAMPLES = 100;
+const PREVIEW_DURATION = 1500; // ms per pass of the preview dot
+
+interface EasingCurvePreviewProps {
+  easing: EasingFunction;
+}
+
+/**
+ * Plots an easing curve and runs a dot along it. The vertical range grows to
+ * fit curves that overshoot, such as springs.
+ */
+export const EasingCurvePreview: React.FC<EasingCurvePreviewProps> = ({
+  easing,
+}) => {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    let frameId: number;
+    const start = performance.now();
+    const tick = (now: number) => {
+      setProgress(((now - start) % PREVIEW_DURATION) / PREVIEW_DURATION);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const invalidMessage =
+    isSpringEasing(easing) && !isValidSpring(easing)
+      ? 'Mass and stiffness must be positive'
+      : isStepsEasing(easing) && !isValidSteps(easing)
+        ? 'Step count must be a whole number of at least 1 (2 for Jump None)'
+        : null;
+
+  if (invalidMessage) {
+    return (
+      <div
+        className='flex items-center justify-center p-4 text-center bg-gray-50 border border-gray-300 rounded text-xs text-gray-500'
+        style={{ width: WIDTH, height: HEIGHT }}>
+        {invalidMessage}
+      </div>
+    );
+  }
+
+  const values = Array.from({ length: SAMPLES + 1 }, (_, i) =>
+    applyEasing(i / SAMPLES, easing),
+  );
+  const min = Math.min(0, ...values);
+  const max = Math.max(1, ...values);
+
+  const toX = (t: number) => PADDING + t * (WIDTH - 2 * PADDING);
+  const toY = (v: number) =>
+    HEIGHT - PADDING - ((v - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+
+  const points = values
+    .map((v, i) => `${toX(i / SAMPLES).toFixed(1)},${toY(v).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg
+      width={WIDTH}
+      height={HEIGHT}
+      className='bg-gray-50 border border-gray-300 rounded'>
+      <line
+        x1={toX(0)}
+        y1={toY(1)}
+        x2={toX(1)}
+        y2={toY(1)}
+        stroke='#D1D5DB'
+        strokeDasharray='4 4'
+      />
+      <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(0)} stroke='#D1D5DB' />
+      <polyline points={points} fill='none' stroke='#3B82F6' strokeWidth={2} />
+      <circle
+        cx={toX(progress)}
+        cy={toY(applyEasing(progress, easing))}
+        r={4}
+        fill='#EF4444'
+      />
+    </svg>
+  );
+};
@@ -1,17 +1,67 @@
 import React, { useState } from 'react';
-import type { SelectedKeyframeInfo, Layer, EasingFunction } from '../../types';
+import { getLayerTrack } from '../../utils/layer';
+import {
+  interpolateColor,
+  isHexColor,
+  toColorInputValue,
+} from '../../utils/color';
+import {
+  createSpringEasing,
+  isSpringEasing,
+  isValidSpring,
+} from '../../utils/spring';
+import {
+  createStepsEasing,
+  getMinSteps,
+  isStepsEasing,
+  isValidSteps,
+} from '../../utils/steps';
+import { isSameBezier } from '../../utils/easingPresets';
+import {
+  BEZIER_PRESET_LIBRARY,
+  COLOR_INTERPOLATION_LABELS,
+  STEP_POSITION_LABELS,
+  STEPS_CONFIG,
+} from '../../constants';
+import { EasingCurvePreview } from './EasingCurvePreview';
+import { BezierCurveEditor } from './BezierCurveEditor';
+import type {
+  CubicBezier,
+  EasingPreset,
+  SelectedKeyframeInfo,
+  Layer,
+  EasingFunction,
+  Keyframe,
+  LayerPropertyKey,
+  ColorInterpolation,
+  SpringEasing,
+  StepPosition,
+} from '../../types';
+
+const GRADIENT_PREVIEW_STOPS = 12;
 
 interface KeyframeEditorProps {
   selectedKeyframeInfo: SelectedKeyframeInfo;
   layers: Layer[];
   onUpdateKeyframe: (
     layerId: string,
-    propertyKey: string,
+    propertyKey: LayerPropertyKey,
     keyframeId: string,
     newTime: number,
     newValue: number,
     newEasing: EasingFunction,
   ) => void;
+  onUpdateColorKeyframe: (
+    layerId: string,
+    keyframeId: string,
+    newTime: number,
+    newValue: string,
+    newEasing: EasingFunction,
+    interpolation: ColorInterpolation,
+  ) => void;
+  easingPresets: EasingPreset[]; // Custom presets saved with the project
+  onSaveEasingPreset: (name: string, easing: CubicBezier) => void;
+  onDeleteEasingPreset: (presetId: string) => void;
   onClearSelection: () => void;
 }
 
@@ -19,26 +69,55 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
   selectedKeyframeInfo,
   layers,
   onUpdateKeyframe,
+  onUpdateColorKeyframe,
+  easingPresets,
+  onSaveEasingPreset,
+  onDeleteEasingPreset,
   onClearSelection,
 }) => {
   const { layerId, propertyKey, keyframeId } = selectedKeyframeInfo;
 
   const layer = layers.find((l) => l.id === layerId);
-  const property = layer?.[propertyKey];
-  const keyframe = property?.keyframes.find((kf) => kf.id === keyframeId);
+  const keyframes: Keyframe<number | string>[] =
+    (layer && getLayerTrack(layer, propertyKey)?.keyframes) || [];
+  const keyframeIndex = keyframes.findIndex((kf) => kf.id === keyframeId);
+  const keyframe = keyframes[keyframeIndex];
+  const nextKeyframe = keyframes[keyframeIndex + 1];
 
   const [time, setTime] = useState(keyframe?.time || 0);
   const [value, setValue] = useState(keyframe?.value || 0);
   const [easing, setEasing] = useState<EasingFunction>(
     keyframe?.easing || 'linear',
   );
+  const [interpolation, setInterpolation] = useState<ColorInterpolation>(
+    layer?.color.interpolation || 'srgb',
+  );
+  const [presetName, setPresetName] = useState('');
 
   if (!keyframe || !layer) {
     return null;
   }
 
   const handleSave = () => {
-    onUpdateKeyframe(layerId, propertyKey, keyframeId, time, value, easing);
+    if (propertyKey === 'color') {
+      onUpdateColorKeyframe(
+        layerId,
+        keyframeId,
+        time,
+        String(value),
+        easing,
+        interpolation,
+      );
+    } else {
+      onUpdateKeyframe(
+        layerId,
+        propertyKey,
+        keyframeId,
+        time,
+        Number(value),
+        easing,
+      );
+    }
     onClearSelection();
   };
 
@@ -46,33 +125,89 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
     setTime(keyframe.time);
     setValue(keyframe.value);
     setEasing(keyframe.easing);
+    setInterpolation(layer.color.interpolation);
     onClearSelection();
   };
 
+  /** Gradient from this keyframe to the next in the chosen color space. */
+  const getColorGradient = (to: string) => {
+    const stops = Array.from({ length: GRADIENT_PREVIEW_STOPS + 1 }, (_, i) =>
+      interpolateColor(
+        String(value),
+        to,
+        i / GRADIENT_PREVIEW_STOPS,
+        interpolation,
+      ),
+    );
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+  };
+
   const handleEasingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const val = e.target.value;
     if (val === 'custom') {
       setEasing([0.25, 0.1, 0.25, 1]);
+    } else if (val === 'spring') {
+      setEasing(createSpringEasing());
+    } else if (val === 'steps') {
+      setEasing(createStepsEasing());
     } else {
       setEasing(val as EasingFunction);
     }
   };
 
+  /** Control point times (x1, x2) must stay within 0..1; values may not. */
   const handleCubicBezierChange = (index: number, newVal: number) => {
     if (Array.isArray(easing)) {
-      const newEasing: [number, number, number, number] = [...easing] as [
-        number,
-        number,
-        number,
-        number,
-      ];
-      newEasing[index] = newVal;
+      const newEasing: CubicBezier = [...easing];
+      newEasing[index] =
+        index % 2 === 0 ? Math.max(0, Math.min(1, newVal)) : newVal;
       setEasing(newEasing);
     }
   };
 
+  /** Preset options are keyed 'library:<group>:<index>' or 'project:<id>'. */
+  const getPresetKey = (bezier: CubicBezier): string => {
+    const own = easingPresets.find((p) => isSameBezier(p.easing, bezier));
+    if (own) return `project:${own.id}`;
+    for (const { group, presets } of BEZIER_PRESET_LIBRARY) {
+      const index = presets.findIndex((p) => isSameBezier(p.easing, bezier));
+      if (index >= 0) return `library:${group}:${index}`;
+    }
+    return '';
+  };
+
+  const handlePresetChange = (key: string) => {
+    const [source, id, index] = key.split(':');
+    const preset =
+      source === 'project'
+        ? easingPresets.find((p) => p.id === id)
+        : BEZIER_PRESET_LIBRARY.find((g) => g.group === id)?.presets[
+            Number(index)
+          ];
+    if (preset) setEasing([...preset.easing]);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (name && Array.isArray(easing)) {
+      onSaveEasingPreset(name, easing);
+      setPresetName('');
+    }
+  };
+
+  const handleSpringChange = (
+    key: Exclude<keyof SpringEasing, 'type'>,
+    newVal: number,
+  ) => {
+    if (isSpringEasing(easing)) {
+      setEasing({ ...easing, [key]: newVal });
+    }
+  };
+
   const getEasingDisplayValue = () => {
     if (Array.isArray(easing)) return 'custom';
+    if (isSpringEasing(easing)) return 'spring';
+    if (isStepsEasing(easing)) return 'steps';
     return easing;
   };
 
@@ -96,16 +231,73 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
             />
           </div>
 
-          <div>
-            <label className='block text-sm font-medium mb-1'>Value</label>
-            <input
-              type='number'
-              value={value}
-              onChange={(e) => setValue(Number(e.target.value))}
-              className='w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
-              step='0.1'
-            />
-          </div>
+          {propertyKey === 'color' ? (
+            <>
+              <div>
+                <label className='block text-sm font-medium mb-1'>Color</label>
+                <div className='flex items-center space-x-2'>
+                  <input
+                    type='color'
+                    value={toColorInputValue(String(value))}
+                    onChange={(e) => setValue(e.target.value.toUpperCase())}
+                    className='w-10 h-10 p-0 border border-gray-300 rounded cursor-pointer'
+                  />
+                  <input
+                    type='text'
+                    value={value}
+                    onChange={(e) => setValue(e.target.value.trim())}
+                    className='flex-1 px-3 py-2 border border-gray-300 rounded font-mono focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    placeholder='#RRGGBB or #RRGGBBAA'
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium mb-1'>
+                  Interpolation
+                </label>
+                <select
+                  value={interpolation}
+                  onChange={(e) =>
+                    setInterpolation(e.target.value as ColorInterpolation)
+                  }
+                  className='w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'>
+                  {(
+                    Object.keys(
+                      COLOR_INTERPOLATION_LABELS,
+                    ) as ColorInterpolation[]
+                  ).map((space) => (
+                    <option key={space} value={space}>
+                      {COLOR_INTERPOLATION_LABELS[space]}
+                    </option>
+                  ))}
+                </select>
+                <p className='text-xs text-gray-500 mt-1'>
+                  Applies to every color keyframe of this layer.
+                </p>
+                {nextKeyframe && (
+                  <div
+                    className='mt-2 h-4 rounded border border-gray-300'
+                    style={{
+                      background: getColorGradient(String(nextKeyframe.value)),
+                    }}
+                    title='Blend towards the next keyframe'
+                  />
+                )}
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className='block text-sm font-medium mb-1'>Value</label>
+              <input
+                type='number'
+                value={value}
+                onChange={(e) => setValue(Number(e.target.value))}
+                className='w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+                step='0.1'
+              />
+            </div>
+          )}
 
           <div>
             <label className='block text-sm font-medium mb-1'>Easing</label>
@@ -118,11 +310,76 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
               <option value='ease-out'>Ease Out</option>
               <option value='ease-in-out'>Ease In-Out</option>
               <option value='custom'>Custom Cubic Bezier</option>
+              <option value='spring'>Spring</option>
+              <option value='hold'>Hold</option>
+              <option value='steps'>Steps</option>
             </select>
           </div>
 
           {Array.isArray(easing) && (
             <div>
+              <label className='block text-sm font-medium mb-1'>Preset</label>
+              <div className='flex items-center space-x-2 mb-2'>
+                <select
+                  value={getPresetKey(easing)}
+                  onChange={(e) => handlePresetChange(e.target.value)}
+                  className='flex-1 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'>
+                  <option value=''>Custom</option>
+                  {easingPresets.length > 0 && (
+                    <optgroup label='Project'>
+                      {easingPresets.map((preset) => (
+                        <option key={preset.id} value={`project:${preset.id}`}>
+                          {preset.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {BEZIER_PRESET_LIBRARY.map(({ group, presets }) => (
+                    <optgroup key={group} label={group}>
+                      {presets.map((preset, index) => (
+                        <option
+                          key={preset.name}
+                          value={`library:${group}:${index}`}>
+                          {preset.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                {getPresetKey(easing).startsWith('project:') && (
+                  <button
+                    onClick={() =>
+                      onDeleteEasingPreset(
+                        getPresetKey(easing).slice('project:'.length),
+                      )
+                    }
+                    className='px-2 py-1 text-sm text-red-600 border border-gray-300 rounded hover:bg-red-50'
+                    title='Delete this preset from the project'>
+                    Delete
+                  </button>
+                )}
+              </div>
+              <div className='flex items-center space-x-2 mb-3'>
+                <input
+                  type='text'
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSavePreset();
+                  }}
+                  className='flex-1 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'
+                  placeholder='Preset name'
+                  aria-label='Preset name'
+                />
+                <button
+                  onClick={handleSavePreset}
+                  disabled={!presetName.trim()}
+                  className='px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+                  title='Save this curve as a preset of the project'>
+                  Save preset
+                </button>
+              </div>
+
               <label className='block text-sm font-medium mb-2'>
                 Cubic Bezier Control Points
               </label>
@@ -140,14 +397,97 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
                       }
                       className='w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'
                       step='0.01'
-                      min='0'
-                      max='1'
+                      min={index % 2 === 0 ? 0 : undefined}
+                      max={index % 2 === 0 ? 1 : undefined}
                     />
                   </div>
                 ))}
               </div>
             </div>
           )}
+
+          {isSpringEasing(easing) && (
+            <div>
+              <label className='block text-sm font-medium mb-2'>
+                Spring Parameters
+              </label>
+              <div className='grid grid-cols-2 gap-2'>
+                {(
+                  [
+                    ['mass', 'Mass', '0.1', '0.1'],
+                    ['stiffness', 'Stiffness', '1', '1'],
+                    ['damping', 'Damping', '0.5', '0'],
+                    ['velocity', 'Velocity', '0.5', undefined],
+                  ] as const
+                ).map(([key, label, step, min]) => (
+                  <div key={key}>
+                    <label className='block text-xs text-gray-600 mb-1'>
+                      {label}
+                    </label>
+                    <input
+                      type='number'
+                      value={easing[key]}
+                      onChange={(e) =>
+                        handleSpringChange(key, Number(e.target.value))
+                      }
+                      className='w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'
+                      step={step}
+                      min={min}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isStepsEasing(easing) && (
+            <div className='grid grid-cols-2 gap-2'>
+              <div>
+                <label className='block text-xs text-gray-600 mb-1'>
+                  Steps
+                </label>
+                <input
+                  type='number'
+                  value={easing.count}
+                  onChange={(e) =>
+                    setEasing({ ...easing, count: Number(e.target.value) })
+                  }
+                  className='w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'
+                  step='1'
+                  min={getMinSteps(easing)}
+                  max={STEPS_CONFIG.maxCount}
+                />
+              </div>
+              <div>
+                <label className='block text-xs text-gray-600 mb-1'>Jump</label>
+                <select
+                  value={easing.position}
+                  onChange={(e) =>
+                    setEasing({
+                      ...easing,
+                      position: e.target.value as StepPosition,
+                    })
+                  }
+                  className='w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'>
+                  {(Object.keys(STEP_POSITION_LABELS) as StepPosition[]).map(
+                    (position) => (
+                      <option key={position} value={position}>
+                        {STEP_POSITION_LABELS[position]}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className='flex justify-center'>
+            {Array.isArray(easing) ? (
+              <BezierCurveEditor value={easing} onChange={setEasing} />
+            ) : (
+              <EasingCurvePreview easing={easing} />
+            )}
+          </div>
         </div>
 
         <div className='flex justify-end space-x-2 mt-6'>
@@ -158,7 +498,12 @@ export const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
           </button>
           <button
             onClick={handleSave}
-            className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'>
+            disabled={
+              (propertyKey === 'color' && !isHexColor(value)) ||
+              (isSpringEasing(easing) && !isValidSpring(easing)) ||
+              (isStepsEasing(easing) && !isValidSteps(easing))
+            }
+            className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed'>
             Save
           </button>
         </div>
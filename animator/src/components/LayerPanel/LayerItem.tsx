@@ -1,23 +1,86 @@
 import React from 'react';
-import type { Layer } from '../../types';
+import { LAYER_KIND_LABELS, SHAPE_LABELS } from '../../constants';
+import { getAnimatedColorAtTime, toColorInputValue } from '../../utils/color';
+import { isValidPathData } from '../../utils/shape';
+import type {
+  Layer,
+  LayerAnchor,
+  MotionPathSettings,
+  ShapeType,
+} from '../../types';
 
 interface LayerItemProps {
   layer: Layer;
   isSelected: boolean;
+  currentTime: number;
+  isAutoKey: boolean; // Color edits key the playhead, even when keyframed
+  isOnionSkinned: boolean;
+  hasChildren: boolean;
+  isCollapsed: boolean;
+  parentOptions: Layer[]; // Layers this one can be parented to
   onSelect: (layerId: string) => void;
+  onToggleCollapsed: (layerId: string) => void;
+  onToggleOnionSkin: (layerId: string) => void;
   onDelete: (layerId: string) => void;
   onMoveUp: (layerId: string) => void;
   onMoveDown: (layerId: string) => void;
+  onChangeShape: (layerId: string, shapeType: ShapeType) => void;
+  onChangePathData: (layerId: string, d: string) => void;
+  onChangeColor: (layerId: string, color: string) => void;
+  onBeginColorEdit: () => void;
+  onEndColorEdit: () => void;
+  onChangeMotionPath: (
+    layerId: string,
+    changes: Partial<MotionPathSettings>,
+  ) => void;
+  onChangeParent: (layerId: string, parentId: string | null) => void;
+  onChangeAnchor: (layerId: string, anchor: LayerAnchor) => void;
 }
 
 export const LayerItem: React.FC<LayerItemProps> = ({
   layer,
   isSelected,
+  currentTime,
+  isAutoKey,
+  isOnionSkinned,
+  hasChildren,
+  isCollapsed,
+  parentOptions,
   onSelect,
+  onToggleCollapsed,
+  onToggleOnionSkin,
   onDelete,
   onMoveUp,
   onMoveDown,
+  onChangeShape,
+  onChangePathData,
+  onChangeColor,
+  onBeginColorEdit,
+  onEndColorEdit,
+  onChangeMotionPath,
+  onChangeParent,
+  onChangeAnchor,
 }) => {
+  const isColorKeyframed = layer.color.keyframes.length > 0;
+  const isColorLocked = isColorKeyframed && !isAutoKey;
+  const isGroup = layer.kind === 'group';
+
+  /** Commits an anchor coordinate typed in percent. */
+  const commitAnchor = (axis: keyof LayerAnchor, text: string) => {
+    const percent = parseFloat(text);
+    if (Number.isFinite(percent) && percent / 100 !== layer.anchor[axis]) {
+      onChangeAnchor(layer.id, { ...layer.anchor, [axis]: percent / 100 });
+    }
+  };
+
+  // Text that is not path data puts the input back to the current path.
+  const commitPathData = (input: HTMLInputElement) => {
+    if (layer.shape.type !== 'path') return;
+    const d = input.value.trim();
+    if (!isValidPathData(d)) input.value = layer.shape.d;
+    else if (d !== layer.shape.d) onChangePathData(layer.id, d);
+  };
+
   return (
     <div
       className={`p-3 border rounded cursor-pointer transition-colors ${
@@ -28,14 +91,61 @@ export const LayerItem: React.FC<LayerItemProps> = ({
       onClick={() => onSelect(layer.id)}>
       <div className='flex items-center justify-between'>
         <div className='flex items-center space-x-3'>
-          <div
-            className='w-4 h-4 rounded border border-gray-300'
-            style={{ backgroundColor: layer.color }}
-          />
+          {hasChildren && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleCollapsed(layer.id);
+              }}
+              className='w-4 text-xs text-gray-500 hover:text-gray-800'
+              title={isCollapsed ? 'Expand' : 'Collapse'}>
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+          )}
+          {isGroup ? (
+            <span
+              className='w-4 h-4 rounded border border-dashed border-gray-500'
+              title='Group'
+            />
+          ) : (
+            <input
+              type='color'
+              value={toColorInputValue(
+                isAutoKey
+                  ? getAnimatedColorAtTime(layer.color, currentTime)
+                  : (layer.color.keyframes[0]?.value ??
+                      layer.color.defaultValue),
+              )}
+              disabled={isColorLocked}
+              onClick={(e) => e.stopPropagation()}
+              onFocus={onBeginColorEdit}
+              onBlur={onEndColorEdit}
+              onChange={(e) => onChangeColor(layer.id, e.target.value)}
+              className='w-4 h-4 p-0 rounded border border-gray-300 cursor-pointer disabled:cursor-default'
+              title={
+                isColorLocked
+                  ? 'Color is keyframed; edit it on the timeline'
+                  : 'Color'
+              }
+            />
+          )}
           <span className='font-medium text-sm'>{layer.name}</span>
         </div>
 
         <div className='flex space-x-1'>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleOnionSkin(layer.id);
+            }}
+            className={`px-2 py-1 text-xs rounded transition-colors ${
+              isOnionSkinned
+                ? 'bg-blue-500 text-white hover:bg-blue-600'
+                : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+            title='Onion skin: show ghosts at nearby times'>
+            ◎
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -66,7 +176,106 @@ export const LayerItem: React.FC<LayerItemProps> = ({
         </div>
       </div>
 
-      <div className='mt-2 text-xs text-gray-500'>Z-Index: {layer.zIndex}</div>
+      <div className='mt-2 flex items-center justify-between text-xs text-gray-500'>
+        <span>Z-Index: {layer.zIndex}</span>
+        {isGroup ? (
+          <span>{LAYER_KIND_LABELS.group}</span>
+        ) : (
+          <select
+            value={layer.shape.type}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) =>
+              onChangeShape(layer.id, e.target.value as ShapeType)
+            }
+            className='px-1 py-0.5 border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500'
+            title='Shape'>
+            {(Object.keys(SHAPE_LABELS) as ShapeType[]).map((type) => (
+              <option key={type} value={type}>
+                {SHAPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div
+        className='mt-2 flex items-center justify-between text-xs text-gray-500'
+        onClick={(e) => e.stopPropagation()}>
+        <select
+          value={layer.parentId ?? ''}
+          onChange={(e) => onChangeParent(layer.id, e.target.value || null)}
+          className='w-24 px-1 py-0.5 border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500'
+          title='Parent'>
+          <option value=''>No parent</option>
+          {parentOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <div className='flex items-center space-x-1' title='Anchor (% of box)'>
+          <span>Anchor</span>
+          {(['x', 'y'] as const).map((axis) => (
+            <input
+              key={`${axis}-${layer.anchor[axis]}`}
+              type='number'
+              step={5}
+              defaultValue={+(layer.anchor[axis] * 100).toFixed(2)}
+              onBlur={(e) => commitAnchor(axis, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              className='w-12 px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+              aria-label={`Anchor ${axis.toUpperCase()} (%)`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {layer.shape.type === 'path' && (
+        <input
+          key={layer.shape.d}
+          type='text'
+          defaultValue={layer.shape.d}
+          onClick={(e) => e.stopPropagation()}
+          onBlur={(e) => commitPathData(e.target)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className='mt-2 w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono focus:outline-none focus:ring-1 focus:ring-blue-500'
+          placeholder='SVG path data in a 100×100 box'
+          title='Path data (100×100 box)'
+        />
+      )}
+
+      <div
+        className='mt-2 flex items-center space-x-3 text-xs text-gray-600'
+        onClick={(e) => e.stopPropagation()}>
+        <label className='flex items-center space-x-1'>
+          <input
+            type='checkbox'
+            checked={layer.motionPath.enabled}
+            onChange={(e) =>
+              onChangeMotionPath(layer.id, { enabled: e.target.checked })
+            }
+          />
+          <span>Motion path</span>
+        </label>
+        <label
+          className={`flex items-center space-x-1 ${
+            layer.motionPath.enabled ? '' : 'opacity-50'
+          }`}>
+          <input
+            type='checkbox'
+            checked={layer.motionPath.orientToPath}
+            disabled={!layer.motionPath.enabled}
+            onChange={(e) =>
+              onChangeMotionPath(layer.id, { orientToPath: e.target.checked })
+            }
+          />
+          <span>Orient to path</span>
+        </label>
+      </div>
     </div>
   );
 };
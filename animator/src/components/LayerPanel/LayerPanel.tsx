@@ -1,51 +1,143 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { LayerItem } from './LayerItem';
-import type { Layer } from '../../types';
+import { LAYER_CONFIG } from '../../constants';
+import { canSetParent, getChildLayers } from '../../utils/hierarchy';
+import type {
+  Layer,
+  LayerAnchor,
+  MotionPathSettings,
+  ShapeType,
+} from '../../types';
 
 interface LayerPanelProps {
   layers: Layer[];
   selectedLayerId: string | null;
+  currentTime: number;
+  isAutoKey: boolean;
+  onionSkinLayerIds: string[];
   onSelectLayer: (layerId: string) => void;
   onAddLayer: () => void;
+  onAddGroup: () => void;
   onDeleteLayer: (layerId: string) => void;
   onMoveLayer: (layerId: string, direction: 'up' | 'down') => void;
+  onToggleOnionSkin: (layerId: string) => void;
+  onChangeShape: (layerId: string, shapeType: ShapeType) => void;
+  onChangePathData: (layerId: string, d: string) => void;
+  onChangeColor: (layerId: string, color: string) => void;
+  onBeginColorEdit: () => void;
+  onEndColorEdit: () => void;
+  onChangeMotionPath: (
+    layerId: string,
+    changes: Partial<MotionPathSettings>,
+  ) => void;
+  onChangeParent: (layerId: string, parentId: string | null) => void;
+  onChangeAnchor: (layerId: string, anchor: LayerAnchor) => void;
 }
 
 export const LayerPanel: React.FC<LayerPanelProps> = ({
   layers,
   selectedLayerId,
+  currentTime,
+  isAutoKey,
+  onionSkinLayerIds,
   onSelectLayer,
   onAddLayer,
+  onAddGroup,
   onDeleteLayer,
   onMoveLayer,
+  onToggleOnionSkin,
+  onChangeShape,
+  onChangePathData,
+  onChangeColor,
+  onBeginColorEdit,
+  onEndColorEdit,
+  onChangeMotionPath,
+  onChangeParent,
+  onChangeAnchor,
 }) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  const handleToggleCollapsed = (layerId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(layerId)) {
+        next.delete(layerId);
+      } else {
+        next.add(layerId);
+      }
+      return next;
+    });
+  };
+
+  /** Renders the children of a layer, front to back, with their subtrees. */
+  const renderTree = (parentId: string | null, depth: number) =>
+    getChildLayers(layers, parentId)
+      .sort((a, b) => b.zIndex - a.zIndex)
+      .map((layer) => {
+        const hasChildren = layers.some((l) => l.parentId === layer.id);
+        const isCollapsed = collapsedIds.has(layer.id);
+
+        return (
+          <div key={layer.id} className='space-y-2'>
+            <div style={{ marginLeft: depth * LAYER_CONFIG.treeIndent }}>
+              <LayerItem
+                layer={layer}
+                isSelected={selectedLayerId === layer.id}
+                currentTime={currentTime}
+                isAutoKey={isAutoKey}
+                isOnionSkinned={onionSkinLayerIds.includes(layer.id)}
+                hasChildren={hasChildren}
+                isCollapsed={isCollapsed}
+                parentOptions={layers.filter(
+                  (l) =>
+                    l.id !== layer.parentId &&
+                    canSetParent(layers, layer.id, l.id),
+                )}
+                onSelect={onSelectLayer}
+                onToggleCollapsed={handleToggleCollapsed}
+                onToggleOnionSkin={onToggleOnionSkin}
+                onDelete={onDeleteLayer}
+                onMoveUp={(layerId) => onMoveLayer(layerId, 'up')}
+                onMoveDown={(layerId) => onMoveLayer(layerId, 'down')}
+                onChangeShape={onChangeShape}
+                onChangePathData={onChangePathData}
+                onChangeColor={onChangeColor}
+                onBeginColorEdit={onBeginColorEdit}
+                onEndColorEdit={onEndColorEdit}
+                onChangeMotionPath={onChangeMotionPath}
+                onChangeParent={onChangeParent}
+                onChangeAnchor={onChangeAnchor}
+              />
+            </div>
+            {hasChildren && !isCollapsed && renderTree(layer.id, depth + 1)}
+          </div>
+        );
+      });
+
   return (
     <div className='w-64 bg-gray-50 border-r border-gray-300 p-4 overflow-y-auto'>
       <div className='flex items-center justify-between mb-4'>
         <h2 className='text-lg font-bold'>Layers</h2>
-        <button
-          onClick={onAddLayer}
-          className='px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'>
-          + Add
-        </button>
+        <div className='flex space-x-1'>
+          <button
+            onClick={onAddGroup}
+            className='px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            title={
+              selectedLayerId
+                ? 'Wrap the selected layer in a new group'
+                : 'Add an empty group'
+            }>
+            + Group
+          </button>
+          <button
+            onClick={onAddLayer}
+            className='px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'>
+            + Add
+          </button>
+        </div>
       </div>
 
-      <div className='space-y-2'>
-        {layers
-          .slice()
-          .sort((a, b) => b.zIndex - a.zIndex)
-          .map((layer) => (
-            <LayerItem
-              key={layer.id}
-              layer={layer}
-              isSelected={selectedLayerId === layer.id}
-              onSelect={onSelectLayer}
-              onDelete={onDeleteLayer}
-              onMoveUp={(layerId) => onMoveLayer(layerId, 'up')}
-              onMoveDown={(layerId) => onMoveLayer(layerId, 'down')}
-            />
-          ))}
-      </div>
+      <div className='space-y-2'>{renderTree(null, 0)}</div>
 
       {layers.length === 0 && (
         <div className='text-center text-gray-500 text-sm mt-8'>
@@ -0,0 +1,175 @@
+import React from 'react';
+import { getMarkerRange, isRegion, sortMarkers } from '../../utils/markers';
+import type { LoopRange, TimelineMarker } from '../../types';
+
+interface MarkerPanelProps {
+  markers: TimelineMarker[];
+  duration: number;
+  loopRange: LoopRange | null;
+  onAddMarker: () => void;
+  onAddRegion: () => void;
+  onUpdateMarker: (
+    markerId: string,
+    changes: Partial<Omit<TimelineMarker, 'id'>>,
+  ) => void;
+  onDeleteMarker: (markerId: string) => void;
+  onSeek: (time: number) => void;
+  onSetLoopRange: (range: LoopRange | null) => void;
+}
+
+export const MarkerPanel: React.FC<MarkerPanelProps> = ({
+  markers,
+  duration,
+  loopRange,
+  onAddMarker,
+  onAddRegion,
+  onUpdateMarker,
+  onDeleteMarker,
+  onSeek,
+  onSetLoopRange,
+}) => {
+  /** Commits a time typed in milliseconds; invalid input is ignored. */
+  const commitTime = (
+    marker: TimelineMarker,
+    field: 'time' | 'endTime',
+    text: string,
+  ) => {
+    const time = Number(text);
+    if (text.trim() !== '' && Number.isFinite(time)) {
+      onUpdateMarker(marker.id, { [field]: time });
+    }
+  };
+
+  const isLooping = (marker: TimelineMarker) => {
+    const range = getMarkerRange(marker, duration);
+    return (
+      loopRange !== null &&
+      loopRange.start === range.start &&
+      loopRange.end === range.end
+    );
+  };
+
+  return (
+    <div className='w-64 bg-gray-50 border-l border-t border-gray-300 p-4'>
+      <div className='flex items-center justify-between mb-2'>
+        <h2 className='text-lg font-bold'>Markers</h2>
+        <div className='flex space-x-1'>
+          <button
+            onClick={onAddMarker}
+            className='px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors'
+            title='Add a marker at the playhead (M)'>
+            + Marker
+          </button>
+          <button
+            onClick={onAddRegion}
+            className='px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors'
+            title='Add a region over the selected keyframes, or from the playhead'>
+            + Region
+          </button>
+        </div>
+      </div>
+
+      <div className='flex items-center justify-between mb-2 text-xs text-gray-600'>
+        <span>
+          Loop:{' '}
+          {loopRange
+            ? `${Math.round(loopRange.start)}–${Math.round(loopRange.end)}ms`
+            : 'whole animation'}
+        </span>
+        {loopRange && (
+          <button
+            onClick={() => onSetLoopRange(null)}
+            className='text-blue-600 hover:text-blue-800'
+            title='Loop the whole animation again'>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <ul className='space-y-2 max-h-48 overflow-y-auto'>
+        {sortMarkers(markers).map((marker) => (
+          <li
+            key={marker.id}
+            className='p-2 text-xs bg-white border border-gray-200 rounded space-y-1'>
+            <div className='flex items-center space-x-1'>
+              <span
+                className={`w-2 h-2 flex-shrink-0 ${
+                  isRegion(marker) ? 'bg-purple-400' : 'bg-amber-500'
+                }`}
+                title={isRegion(marker) ? 'Region' : 'Marker'}
+              />
+              <input
+                key={marker.name}
+                type='text'
+                defaultValue={marker.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== marker.name) {
+                    onUpdateMarker(marker.id, { name });
+                  }
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                className='flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+                aria-label='Marker name'
+              />
+              <button
+                onClick={() => onDeleteMarker(marker.id)}
+                className='px-1 text-red-500 hover:text-red-700'
+                title='Delete marker'>
+                ✕
+              </button>
+            </div>
+            <div className='flex items-center space-x-1'>
+              {(isRegion(marker)
+                ? (['time', 'endTime'] as const)
+                : (['time'] as const)
+              ).map((field) => (
+                <input
+                  key={`${field}-${marker[field]}`}
+                  type='number'
+                  min={0}
+                  max={duration}
+                  defaultValue={marker[field] ?? ''}
+                  onBlur={(e) => commitTime(marker, field, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className='w-16 px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+                  aria-label={field === 'time' ? 'Start (ms)' : 'End (ms)'}
+                />
+              ))}
+              <span className='text-gray-500'>ms</span>
+              <div className='flex-1' />
+              <button
+                onClick={() => onSeek(marker.time)}
+                className='px-1 text-gray-600 hover:text-gray-900'
+                title='Move the playhead here'>
+                Go
+              </button>
+              <button
+                onClick={() =>
+                  onSetLoopRange(
+                    isLooping(marker) ? null : getMarkerRange(marker, duration),
+                  )
+                }
+                className={`px-1 rounded ${
+                  isLooping(marker)
+                    ? 'bg-green-500 text-white'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+                title={
+                  isRegion(marker)
+                    ? 'Loop this region'
+                    : 'Loop from this marker to the end'
+                }>
+                Loop
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { MarkerPanel } from './MarkerPanel';
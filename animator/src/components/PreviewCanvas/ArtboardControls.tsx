@@ -0,0 +1,156 @@
+import React from 'react';
+import {
+  ARTBOARD_CONFIG,
+  ARTBOARD_PRESETS,
+  DEFAULT_ARTBOARD,
+} from '../../constants';
+import { toColorInputValue } from '../../utils/color';
+import type { Artboard } from '../../types';
+
+interface ArtboardControlsProps {
+  artboard: Artboard;
+  zoom: number | 'fit';
+  fitZoom: number; // The zoom 'fit' currently resolves to
+  onChangeZoom: (zoom: number | 'fit') => void;
+  onChange: (changes: Partial<Artboard>) => void;
+  onBeginEdit: () => void;
+  onEndEdit: () => void;
+}
+
+/** Preset options are keyed '<group index>:<preset index>'. */
+const getPresetKey = ({ width, height }: Artboard): string => {
+  for (const [groupIndex, group] of ARTBOARD_PRESETS.entries()) {
+    const index = group.presets.findIndex(
+      (p) => p.width === width && p.height === height,
+    );
+    if (index >= 0) return `${groupIndex}:${index}`;
+  }
+  return '';
+};
+
+const formatZoom = (zoom: number) => `${Math.round(zoom * 100)}%`;
+
+/** Size, background and zoom of the artboard, below the canvas. */
+export const ArtboardControls: React.FC<ArtboardControlsProps> = ({
+  artboard,
+  zoom,
+  fitZoom,
+  onChangeZoom,
+  onChange,
+  onBeginEdit,
+  onEndEdit,
+}) => {
+  /** Commits a side length typed into one of the size fields. */
+  const commitSize = (key: 'width' | 'height', text: string) => {
+    const size = parseFloat(text);
+    if (Number.isFinite(size) && size !== artboard[key]) {
+      onChange({ [key]: size });
+    }
+  };
+
+  const presetKey = getPresetKey(artboard);
+
+  return (
+    <div className='flex flex-wrap items-center justify-center gap-3 text-sm text-gray-600'>
+      <select
+        value={presetKey}
+        onChange={(e) => {
+          const [groupIndex, index] = e.target.value.split(':').map(Number);
+          const preset = ARTBOARD_PRESETS[groupIndex]?.presets[index];
+          if (preset) onChange({ width: preset.width, height: preset.height });
+        }}
+        className='px-1 py-0.5 border border-gray-300 rounded text-sm'
+        title='Device preset'>
+        {presetKey === '' && <option value=''>Custom size</option>}
+        {ARTBOARD_PRESETS.map((group, groupIndex) => (
+          <optgroup key={group.group} label={group.group}>
+            {group.presets.map((preset, index) => (
+              <option key={preset.name} value={`${groupIndex}:${index}`}>
+                {preset.name} ({preset.width} × {preset.height})
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      <div className='flex items-center gap-1'>
+        {(['width', 'height'] as const).map((key, i) => (
+          <React.Fragment key={key}>
+            {i > 0 && <span>×</span>}
+            <input
+              key={`${key}-${artboard[key]}`}
+              type='number'
+              defaultValue={artboard[key]}
+              min={ARTBOARD_CONFIG.minSize}
+              max={ARTBOARD_CONFIG.maxSize}
+              onBlur={(e) => commitSize(key, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              className='w-16 px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+              aria-label={
+                key === 'width' ? 'Artboard width' : 'Artboard height'
+              }
+            />
+          </React.Fragment>
+        ))}
+        <span>px</span>
+        <button
+          onClick={() =>
+            onChange({ width: artboard.height, height: artboard.width })
+          }
+          className='px-1 border border-gray-300 rounded hover:bg-gray-100'
+          title='Swap width and height'>
+          ⇄
+        </button>
+      </div>
+
+      <div className='flex items-center gap-1'>
+        <span>Background</span>
+        <input
+          type='color'
+          value={toColorInputValue(
+            artboard.background ?? DEFAULT_ARTBOARD.background ?? '#FFFFFF',
+          )}
+          disabled={artboard.background === null}
+          onFocus={onBeginEdit}
+          onBlur={onEndEdit}
+          onChange={(e) => onChange({ background: e.target.value })}
+          className='w-4 h-4 p-0 rounded border border-gray-300 cursor-pointer disabled:cursor-default disabled:opacity-50'
+          title='Background color'
+        />
+        <label className='flex items-center gap-1'>
+          <input
+            type='checkbox'
+            checked={artboard.background === null}
+            onChange={(e) =>
+              onChange({
+                background: e.target.checked
+                  ? null
+                  : DEFAULT_ARTBOARD.background,
+              })
+            }
+          />
+          Transparent
+        </label>
+      </div>
+
+      <select
+        value={zoom}
+        onChange={(e) =>
+          onChangeZoom(
+            e.target.value === 'fit' ? 'fit' : Number(e.target.value),
+          )
+        }
+        className='px-1 py-0.5 border border-gray-300 rounded text-sm'
+        title='Zoom'>
+        <option value='fit'>Fit ({formatZoom(fitZoom)})</option>
+        {ARTBOARD_CONFIG.zoomLevels.map((level) => (
+          <option key={level} value={level}>
+            {formatZoom(level)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ShapeElement } from './ShapeElement';
+import { getChildLayers } from '../../utils/hierarchy';
+import {
+  formatLayerTransform,
+  sampleLayerAtTime,
+  sortLayersForRendering,
+} from '../../utils/render';
+import type { Layer } from '../../types';
+
+interface LayerNodeProps {
+  layer: Layer;
+  layers: Layer[];
+  currentTime: number;
+  selectedLayerId: string | null;
+  onLayerMouseDown: (
+    layer: Layer,
+    event: React.MouseEvent<SVGGraphicsElement>,
+  ) => void;
+}
+
+/**
+ * Draws a layer and, nested inside its transform and opacity, all of its
+ * children. Groups only show their box, and only while selected.
+ */
+export const LayerNode: React.FC<LayerNodeProps> = ({
+  layer,
+  layers,
+  currentTime,
+  selectedLayerId,
+  onLayerMouseDown,
+}) => {
+  const frame = sampleLayerAtTime(layer, currentTime);
+
+  return (
+    <g
+      transform={formatLayerTransform(frame)}
+      opacity={frame.opacity}
+      onMouseDown={(e) => onLayerMouseDown(layer, e)}>
+      {layer.kind === 'group' ? (
+        selectedLayerId === layer.id && (
+          <rect
+            width={frame.width}
+            height={frame.height}
+            fill='none'
+            stroke='#3B82F6'
+            strokeDasharray='4 4'
+            vectorEffect='non-scaling-stroke'
+            pointerEvents='none'
+          />
+        )
+      ) : (
+        <ShapeElement frame={frame} />
+      )}
+      {sortLayersForRendering(getChildLayers(layers, layer.id)).map((child) => (
+        <LayerNode
+          key={child.id}
+          layer={child}
+          layers={layers}
+          currentTime={currentTime}
+          selectedLayerId={selectedLayerId}
+          onLayerMouseDown={onLayerMouseDown}
+        />
+      ))}
+    </g>
+  );
+};
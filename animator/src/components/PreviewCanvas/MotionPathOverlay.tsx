@@ -0,0 +1,156 @@
+import React from 'react';
+import {
+  formatMotionPathData,
+  getMotionPathPoints,
+} from '../../utils/motionPath';
+import type {
+  MotionPathPoint,
+  MotionPathPointUpdate,
+} from '../../utils/motionPath';
+import { sampleLayerAtTime } from '../../utils/render';
+import { MOTION_PATH_CONFIG } from '../../constants';
+import type { Layer } from '../../types';
+
+interface MotionPathOverlayProps {
+  layer: Layer;
+  currentTime: number;
+  onUpdatePoint: (
+    layerId: string,
+    time: number,
+    update: MotionPathPointUpdate,
+  ) => void;
+  onBeginEdit: () => void;
+  onEndEdit: () => void;
+}
+
+/**
+ * Draws a layer's motion path with its anchors and tangent handles, all of
+ * which can be dragged. The path runs through the center of the layer box.
+ */
+export const MotionPathOverlay: React.FC<MotionPathOverlayProps> = ({
+  layer,
+  currentTime,
+  onUpdatePoint,
+  onBeginEdit,
+  onEndEdit,
+}) => {
+  const points = getMotionPathPoints(layer);
+  const frame = sampleLayerAtTime(layer, currentTime);
+  const offsetX = frame.width / 2;
+  const offsetY = frame.height / 2;
+
+  /**
+   * Starts a drag that reports the pointer offset in the layer's parent
+   * space, undoing the canvas zoom and any rotated or scaled ancestors.
+   */
+  const startDrag = (
+    e: React.MouseEvent<SVGGraphicsElement>,
+    onMove: (dx: number, dy: number) => void,
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const toLocal = e.currentTarget.getScreenCTM()?.inverse();
+    onBeginEdit();
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const dx = moveEvent.clientX - startX;
+      const dy = moveEvent.clientY - startY;
+      onMove(
+        toLocal ? toLocal.a * dx + toLocal.c * dy : dx,
+        toLocal ? toLocal.b * dx + toLocal.d * dy : dy,
+      );
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      onEndEdit();
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleAnchorMouseDown = (
+    e: React.MouseEvent<SVGGraphicsElement>,
+    point: MotionPathPoint,
+  ) =>
+    startDrag(e, (dx, dy) =>
+      onUpdatePoint(layer.id, point.time, {
+        x: point.x + dx,
+        y: point.y + dy,
+      }),
+    );
+
+  const handleTangentMouseDown = (
+    e: React.MouseEvent<SVGGraphicsElement>,
+    point: MotionPathPoint,
+    which: 'inTangent' | 'outTangent',
+  ) =>
+    startDrag(e, (dx, dy) => {
+      const [tx, ty] = point[which];
+      onUpdatePoint(layer.id, point.time, {
+        [which]: [tx + dx, ty + dy],
+      });
+    });
+
+  const renderHandle = (
+    point: MotionPathPoint,
+    which: 'inTangent' | 'outTangent',
+  ) => {
+    const cx = point.x + offsetX;
+    const cy = point.y + offsetY;
+    const hx = cx + point[which][0];
+    const hy = cy + point[which][1];
+
+    return (
+      <g key={which}>
+        <line x1={cx} y1={cy} x2={hx} y2={hy} stroke='#8B5CF6' />
+        <circle
+          cx={hx}
+          cy={hy}
+          r={MOTION_PATH_CONFIG.handleRadius}
+          fill='#FFFFFF'
+          stroke='#8B5CF6'
+          strokeWidth={1.5}
+          className='cursor-move'
+          onMouseDown={(e) => handleTangentMouseDown(e, point, which)}>
+          <title>{which === 'inTangent' ? 'In tangent' : 'Out tangent'}</title>
+        </circle>
+      </g>
+    );
+  };
+
+  return (
+    <g>
+      <path
+        d={formatMotionPathData(points, offsetX, offsetY)}
+        fill='none'
+        stroke='#8B5CF6'
+        strokeWidth={1.5}
+        strokeDasharray='6 4'
+        pointerEvents='none'
+      />
+      {points.map((point, i) => (
+        <g key={point.time}>
+          {i > 0 && renderHandle(point, 'inTangent')}
+          {i < points.length - 1 && renderHandle(point, 'outTangent')}
+          <circle
+            cx={point.x + offsetX}
+            cy={point.y + offsetY}
+            r={MOTION_PATH_CONFIG.anchorRadius}
+            fill='#8B5CF6'
+            stroke='#FFFFFF'
+            strokeWidth={1.5}
+            className='cursor-move'
+            onMouseDown={(e) => handleAnchorMouseDown(e, point)}>
+            <title>{`Point at ${point.time}ms`}</title>
+          </circle>
+        </g>
+      ))}
+    </g>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { LayerNode } from './LayerNode';
+import { getParentTransform } from '../../utils/hierarchy';
+import type { OnionSkinGhost } from '../../utils/onionSkin';
+import type { Layer, OnionSkinSettings } from '../../types';
+
+const FILTER_IDS: Record<OnionSkinGhost['side'], string> = {
+  before: 'onion-skin-before',
+  after: 'onion-skin-after',
+};
+
+interface OnionSkinFiltersProps {
+  settings: OnionSkinSettings;
+}
+
+/** Filters that flood a ghost with the tint of its side, keeping its alpha. */
+export const OnionSkinFilters: React.FC<OnionSkinFiltersProps> = ({
+  settings,
+}) => (
+  <defs>
+    {(
+      [
+        ['before', settings.beforeColor],
+        ['after', settings.afterColor],
+      ] as const
+    ).map(([side, color]) => (
+      <filter key={side} id={FILTER_IDS[side]} colorInterpolationFilters='sRGB'>
+        <feFlood floodColor={color} />
+        <feComposite operator='in' in2='SourceGraphic' />
+      </filter>
+    ))}
+  </defs>
+);
+
+interface OnionSkinProps {
+  layer: Layer;
+  layers: Layer[];
+  ghosts: OnionSkinGhost[];
+}
+
+/**
+ * Draws tinted ghosts of a layer, and its children, at nearby times. Each
+ * ghost sits in its parent's space at its own time, so it follows animated
+ * ancestors. Ghosts only exist on the canvas and never reach an export.
+ */
+export const OnionSkin: React.FC<OnionSkinProps> = ({
+  layer,
+  layers,
+  ghosts,
+}) => (
+  <g pointerEvents='none'>
+    {ghosts.map((ghost) => (
+      <g
+        key={`${ghost.side}-${ghost.time}`}
+        transform={getParentTransform(layers, layer, ghost.time)}
+        opacity={ghost.opacity}
+        filter={`url(#${FILTER_IDS[ghost.side]})`}>
+        <LayerNode
+          layer={layer}
+          layers={layers}
+          currentTime={ghost.time}
+          selectedLayerId={null}
+          onLayerMouseDown={() => {}}
+        />
+      </g>
+    ))}
+  </g>
+);
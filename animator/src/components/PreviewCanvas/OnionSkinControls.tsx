@@ -0,0 +1,121 @@
+import React from 'react';
+import { ONION_SKIN_CONFIG, ONION_SKIN_MODE_LABELS } from '../../constants';
+import type { OnionSkinMode, OnionSkinSettings } from '../../types';
+
+interface OnionSkinControlsProps {
+  settings: OnionSkinSettings;
+  onChange: (changes: Partial<OnionSkinSettings>) => void;
+}
+
+const inputClassName =
+  'w-12 px-1 py-0.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Settings of the onion skin ghosts, shared by every onion skinned layer. */
+export const OnionSkinControls: React.FC<OnionSkinControlsProps> = ({
+  settings,
+  onChange,
+}) => (
+  <div className='flex flex-wrap items-center justify-center gap-3 text-sm text-gray-600'>
+    <span className='font-medium'>Onion skin:</span>
+    <select
+      value={settings.mode}
+      onChange={(e) => onChange({ mode: e.target.value as OnionSkinMode })}
+      className='px-1 py-0.5 border border-gray-300 rounded text-sm'
+      title='Draw ghosts every few frames, or at keyframes'>
+      {(
+        Object.entries(ONION_SKIN_MODE_LABELS) as [OnionSkinMode, string][]
+      ).map(([mode, label]) => (
+        <option key={mode} value={mode}>
+          {label}
+        </option>
+      ))}
+    </select>
+
+    <label
+      className='flex items-center gap-1'
+      title='Ghosts before the playhead'>
+      <input
+        type='color'
+        value={settings.beforeColor}
+        onChange={(e) => onChange({ beforeColor: e.target.value })}
+        className='w-4 h-4 p-0 rounded border border-gray-300 cursor-pointer'
+        title='Tint of the ghosts before the playhead'
+      />
+      Before
+      <input
+        type='number'
+        value={settings.before}
+        onChange={(e) => onChange({ before: Number(e.target.value) })}
+        className={inputClassName}
+        min={0}
+        max={ONION_SKIN_CONFIG.maxCount}
+      />
+    </label>
+
+    <label
+      className='flex items-center gap-1'
+      title='Ghosts after the playhead'>
+      <input
+        type='color'
+        value={settings.afterColor}
+        onChange={(e) => onChange({ afterColor: e.target.value })}
+        className='w-4 h-4 p-0 rounded border border-gray-300 cursor-pointer'
+        title='Tint of the ghosts after the playhead'
+      />
+      After
+      <input
+        type='number'
+        value={settings.after}
+        onChange={(e) => onChange({ after: Number(e.target.value) })}
+        className={inputClassName}
+        min={0}
+        max={ONION_SKIN_CONFIG.maxCount}
+      />
+    </label>
+
+    {settings.mode === 'frames' && (
+      <label className='flex items-center gap-1' title='Frames between ghosts'>
+        Every
+        <input
+          type='number'
+          value={settings.spacing}
+          onChange={(e) => onChange({ spacing: Number(e.target.value) })}
+          className={inputClassName}
+          min={1}
+          max={ONION_SKIN_CONFIG.maxSpacing}
+        />
+        frames
+      </label>
+    )}
+
+    <label
+      className='flex items-center gap-1'
+      title='Opacity of the nearest ghosts'>
+      Opacity
+      <input
+        type='range'
+        value={settings.opacity}
+        onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+        className='w-16'
+        min={0}
+        max={1}
+        step={0.05}
+      />
+    </label>
+
+    <label
+      className='flex items-center gap-1'
+      title='Opacity kept from one ghost to the next one out'>
+      Falloff
+      <input
+        type='range'
+        value={settings.falloff}
+        onChange={(e) => onChange({ falloff: Number(e.target.value) })}
+        className='w-16'
+        min={0}
+        max={1}
+        step={0.05}
+      />
+    </label>
+  </div>
+);
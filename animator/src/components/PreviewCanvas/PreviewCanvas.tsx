@@ -1,65 +1,294 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { LayerNode } from './LayerNode';
+import { MotionPathOverlay } from './MotionPathOverlay';
+import { TransformGizmo } from './TransformGizmo';
+import { OnionSkin, OnionSkinFilters } from './OnionSkin';
+import { OnionSkinControls } from './OnionSkinControls';
+import { ArtboardControls } from './ArtboardControls';
+import { getChildLayers, getParentTransform } from '../../utils/hierarchy';
+import { sampleLayerAtTime, sortLayersForRendering } from '../../utils/render';
 import { getAnimatedValueAtTime } from '../../utils/animation';
-import type { Layer, CanvasSize } from '../../types';
+import { getTransformChanges } from '../../utils/transform';
+import { getOnionSkinGhosts } from '../../utils/onionSkin';
+import { getFitZoom } from '../../utils/artboard';
+import type {
+  ResizeHandle,
+  TransformChanges,
+  TransformDrag,
+} from '../../utils/transform';
+import type { MotionPathPointUpdate } from '../../utils/motionPath';
+import { ARTBOARD_CONFIG, UI_CONFIG } from '../../constants';
+import type {
+  Artboard,
+  CanvasSize,
+  Layer,
+  OnionSkinSettings,
+  TransformMode,
+} from '../../types';
+
+// Checkerboard shown behind a transparent artboard
+const TRANSPARENT_BACKGROUND: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#E5E7EB 0% 25%, #FFFFFF 0% 50%)',
+  backgroundSize: '16px 16px',
+};
 
 interface PreviewCanvasProps {
   layers: Layer[];
   currentTime: number;
-  canvasSize: CanvasSize;
+  duration: number;
+  fps: number;
+  artboard: Artboard;
+  selectedLayerId: string | null;
+  isAutoKey: boolean; // Outlines the canvas in red while recording
+  onionSkin: OnionSkinSettings;
+  onionSkinLayerIds: string[];
+  onChangeOnionSkin: (changes: Partial<OnionSkinSettings>) => void;
+  onChangeArtboard: (changes: Partial<Artboard>) => void;
+  onBeginArtboardEdit: () => void;
+  onEndArtboardEdit: () => void;
+  onSelectLayer: (layerId: string | null) => void;
+  onTransformLayer: (layerId: string, changes: TransformChanges) => void;
+  onBeginTransform: (mode: TransformMode) => void;
+  onEndTransform: () => void;
+  onUpdateMotionPathPoint: (
+    layerId: string,
+    time: number,
+    update: MotionPathPointUpdate,
+  ) => void;
+  onBeginMotionPathEdit: () => void;
+  onEndMotionPathEdit: () => void;
 }
 
 export const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
   layers,
   currentTime,
-  canvasSize,
+  duration,
+  fps,
+  artboard,
+  selectedLayerId,
+  isAutoKey,
+  onionSkin,
+  onionSkinLayerIds,
+  onChangeOnionSkin,
+  onChangeArtboard,
+  onBeginArtboardEdit,
+  onEndArtboardEdit,
+  onSelectLayer,
+  onTransformLayer,
+  onBeginTransform,
+  onEndTransform,
+  onUpdateMotionPathPoint,
+  onBeginMotionPathEdit,
+  onEndMotionPathEdit,
 }) => {
+  const selectedLayer = layers.find((l) => l.id === selectedLayerId);
+  const onionSkinLayers = layers.filter((l) =>
+    onionSkinLayerIds.includes(l.id),
+  );
+
+  // The artboard is zoomed to fit the space it has unless a zoom is picked.
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<CanvasSize | null>(null);
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitZoom = viewport
+    ? getFitZoom(artboard, viewport, ARTBOARD_CONFIG.fitPadding)
+    : 1;
+  const scale = zoom === 'fit' ? fitZoom : zoom;
+
+  /**
+   * Drags a layer or one of its gizmo handles. Pointer positions are mapped
+   * into the layer's parent space, the space of the element's parent node,
+   * which undoes any rotated or scaled ancestors. A press that does not move
+   * changes nothing.
+   */
+  const startTransform = (
+    layer: Layer,
+    mode: TransformMode,
+    handle: ResizeHandle | null,
+    event: React.MouseEvent<SVGGraphicsElement>,
+  ) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const space = event.currentTarget.parentNode as SVGGraphicsElement | null;
+    const toParent = space?.getScreenCTM()?.inverse();
+    if (!toParent) return;
+    const toPoint = (e: MouseEvent | React.MouseEvent): [number, number] => {
+      const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(toParent);
+      return [p.x, p.y];
+    };
+
+    const drag: TransformDrag = {
+      mode,
+      handle,
+      start: toPoint(event),
+      frame: sampleLayerAtTime(layer, currentTime),
+      rotation: getAnimatedValueAtTime(layer.rotation, currentTime),
+      anchor: layer.anchor,
+    };
+    const startX = event.clientX;
+    const startY = event.clientY;
+    let isDragging = false;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!isDragging) {
+        if (
+          Math.hypot(moveEvent.clientX - startX, moveEvent.clientY - startY) <
+          UI_CONFIG.dragThreshold
+        ) {
+          return;
+        }
+        isDragging = true;
+        onBeginTransform(mode);
+      }
+      onTransformLayer(
+        layer.id,
+        getTransformChanges(drag, toPoint(moveEvent), moveEvent.shiftKey),
+      );
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      if (isDragging) onEndTransform();
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  /** Pressing a layer selects it and starts moving it. */
+  const handleLayerMouseDown = (
+    layer: Layer,
+    event: React.MouseEvent<SVGGraphicsElement>,
+  ) => {
+    if (event.button !== 0) return;
+    if (layer.id !== selectedLayerId) onSelectLayer(layer.id);
+    startTransform(layer, 'move', null, event);
+  };
+
   return (
-    <div className='flex-1 bg-gray-100 p-4 overflow-auto'>
-      <div className='bg-white border border-gray-300 shadow-lg mx-auto'>
-        <svg
-          width={canvasSize.width}
-          height={canvasSize.height}
-          viewBox={`0 0 ${canvasSize.width} ${canvasSize.height}`}
-          className='block'>
-          {layers
-            .slice()
-            .sort((a, b) => a.zIndex - b.zIndex)
-            .map((layer) => {
-              const x = getAnimatedValueAtTime(layer.x, currentTime);
-              const y = getAnimatedValueAtTime(layer.y, currentTime);
-              const width = getAnimatedValueAtTime(layer.width, currentTime);
-              const height = getAnimatedValueAtTime(layer.height, currentTime);
-              const opacity = getAnimatedValueAtTime(
-                layer.opacity,
-                currentTime,
-              );
-              const rotation = getAnimatedValueAtTime(
-                layer.rotation,
-                currentTime,
-              );
-              const scale = getAnimatedValueAtTime(layer.scale, currentTime);
-
-              return (
-                <rect
+    <div className='flex-1 flex flex-col min-w-0 bg-gray-100 p-4'>
+      <div ref={viewportRef} className='flex-1 min-h-0 flex overflow-auto'>
+        <div
+          className={`border shadow-lg m-auto shrink-0 ${
+            isAutoKey ? 'border-red-500 ring-2 ring-red-500' : 'border-gray-300'
+          }`}
+          style={
+            artboard.background === null
+              ? TRANSPARENT_BACKGROUND
+              : { backgroundColor: artboard.background }
+          }>
+          <svg
+            width={artboard.width * scale}
+            height={artboard.height * scale}
+            viewBox={`0 0 ${artboard.width} ${artboard.height}`}
+            className='block'
+            onMouseDown={(e) => {
+              if (e.target === e.currentTarget) onSelectLayer(null);
+            }}>
+            {onionSkinLayers.length > 0 && (
+              <OnionSkinFilters settings={onionSkin} />
+            )}
+            {/* Ghosts sit under every layer and are never exported */}
+            {onionSkinLayers.map((layer) => (
+              <OnionSkin
+                key={layer.id}
+                layer={layer}
+                layers={layers}
+                ghosts={getOnionSkinGhosts(
+                  layer,
+                  onionSkin,
+                  currentTime,
+                  fps,
+                  duration,
+                )}
+              />
+            ))}
+            {sortLayersForRendering(getChildLayers(layers, null)).map(
+              (layer) => (
+                <LayerNode
                   key={layer.id}
-                  x={x}
-                  y={y}
-                  width={Math.max(0, width)}
-                  height={Math.max(0, height)}
-                  fill={layer.color}
-                  opacity={Math.max(0, Math.min(1, opacity))}
-                  transform={`rotate(${rotation} ${x + width / 2} ${
-                    y + height / 2
-                  }) scale(${scale} ${scale})`}
+                  layer={layer}
+                  layers={layers}
+                  currentTime={currentTime}
+                  selectedLayerId={selectedLayerId}
+                  onLayerMouseDown={handleLayerMouseDown}
+                />
+              ),
+            )}
+            {selectedLayer && (
+              <g
+                transform={getParentTransform(
+                  layers,
+                  selectedLayer,
+                  currentTime,
+                )}>
+                <TransformGizmo
+                  layer={selectedLayer}
+                  currentTime={currentTime}
+                  onStartTransform={(mode, handle, e) =>
+                    startTransform(selectedLayer, mode, handle, e)
+                  }
                 />
-              );
-            })}
-        </svg>
+              </g>
+            )}
+            {selectedLayer?.motionPath.enabled && (
+              // The path lives in the parent's space, like the layer's x/y.
+              <g
+                transform={getParentTransform(
+                  layers,
+                  selectedLayer,
+                  currentTime,
+                )}>
+                <MotionPathOverlay
+                  layer={selectedLayer}
+                  currentTime={currentTime}
+                  onUpdatePoint={onUpdateMotionPathPoint}
+                  onBeginEdit={onBeginMotionPathEdit}
+                  onEndEdit={onEndMotionPathEdit}
+                />
+              </g>
+            )}
+          </svg>
+        </div>
       </div>
 
-      <div className='mt-4 text-center text-sm text-gray-600'>
-        Canvas: {canvasSize.width} × {canvasSize.height}px
+      <div className='mt-4'>
+        <ArtboardControls
+          artboard={artboard}
+          zoom={zoom}
+          fitZoom={fitZoom}
+          onChangeZoom={setZoom}
+          onChange={onChangeArtboard}
+          onBeginEdit={onBeginArtboardEdit}
+          onEndEdit={onEndArtboardEdit}
+        />
       </div>
+
+      {onionSkinLayers.length > 0 && (
+        <div className='mt-2'>
+          <OnionSkinControls
+            settings={onionSkin}
+            onChange={onChangeOnionSkin}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,48 @@
+import React from 'react';
+import { formatSvgPoints, getPathTransform } from '../../utils/shape';
+import type { LayerFrame } from '../../utils/render';
+
+interface ShapeElementProps {
+  frame: LayerFrame;
+}
+
+/**
+ * Draws the shape of one sampled layer in the layer's local space, where its
+ * box starts at (0, 0). Position, rotation, scale and opacity are applied by
+ * the enclosing LayerNode.
+ */
+export const ShapeElement: React.FC<ShapeElementProps> = ({ frame }) => {
+  const { width, height, color, geometry } = frame;
+
+  switch (geometry.kind) {
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={width / 2}
+          cy={height / 2}
+          rx={width / 2}
+          ry={height / 2}
+          fill={color}
+        />
+      );
+    case 'polygon':
+      return (
+        <polygon
+          points={formatSvgPoints(geometry.points, 0, 0, width, height)}
+          fill={color}
+        />
+      );
+    case 'path':
+      return (
+        <path
+          d={geometry.d}
+          fill={color}
+          transform={getPathTransform(0, 0, width, height)}
+        />
+      );
+    default:
+      return (
+        <rect width={width} height={height} rx={geometry.rx} fill={color} />
+      );
+  }
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { sampleLayerAtTime } from '../../utils/render';
+import { RESIZE_HANDLES, toParentSpace } from '../../utils/transform';
+import type { ResizeHandle } from '../../utils/transform';
+import { TRANSFORM_CONFIG } from '../../constants';
+import type { Layer, TransformMode } from '../../types';
+
+interface TransformGizmoProps {
+  layer: Layer;
+  currentTime: number;
+  onStartTransform: (
+    mode: TransformMode,
+    handle: ResizeHandle | null,
+    event: React.MouseEvent<SVGGraphicsElement>,
+  ) => void;
+}
+
+const getResizeCursor = ({ x, y }: ResizeHandle): string => {
+  if (x === 0.5) return 'cursor-ns-resize';
+  if (y === 0.5) return 'cursor-ew-resize';
+  return x === y ? 'cursor-nwse-resize' : 'cursor-nesw-resize';
+};
+
+/**
+ * Draws the selection box of a layer with handles to move, resize, rotate
+ * and scale it. It is drawn in the parent's space rather than inside the
+ * layer, so the handles keep their size however the layer is scaled.
+ */
+export const TransformGizmo: React.FC<TransformGizmoProps> = ({
+  layer,
+  currentTime,
+  onStartTransform,
+}) => {
+  const frame = sampleLayerAtTime(layer, currentTime);
+  const point = (x: number, y: number) => toParentSpace(frame, x, y);
+
+  const corners = [
+    point(0, 0),
+    point(frame.width, 0),
+    point(frame.width, frame.height),
+    point(0, frame.height),
+  ];
+
+  // The rotate handle sits above the top edge, along the layer's up axis.
+  const angle = (frame.rotation * Math.PI) / 180;
+  const [topX, topY] = point(frame.width / 2, 0);
+  const rotateX = topX + Math.sin(angle) * TRANSFORM_CONFIG.rotateHandleOffset;
+  const rotateY = topY - Math.cos(angle) * TRANSFORM_CONFIG.rotateHandleOffset;
+
+  // The scale handle sits beyond the bottom-right corner, away from the pivot.
+  const [cornerX, cornerY] = corners[2];
+  const [pivotX, pivotY] = point(frame.anchorX, frame.anchorY);
+  const reach = Math.hypot(cornerX - pivotX, cornerY - pivotY);
+  const scaleX =
+    cornerX +
+    (reach > 0 ? (cornerX - pivotX) / reach : Math.SQRT1_2) *
+      TRANSFORM_CONFIG.scaleHandleOffset;
+  const scaleY =
+    cornerY +
+    (reach > 0 ? (cornerY - pivotY) / reach : Math.SQRT1_2) *
+      TRANSFORM_CONFIG.scaleHandleOffset;
+
+  const size = TRANSFORM_CONFIG.handleSize;
+
+  return (
+    <g>
+      <polygon
+        points={corners.map(([x, y]) => `${x},${y}`).join(' ')}
+        fill='transparent'
+        stroke='#3B82F6'
+        strokeWidth={1}
+        className='cursor-move'
+        onMouseDown={(e) => onStartTransform('move', null, e)}>
+        <title>Drag to move (Shift keeps to one axis)</title>
+      </polygon>
+
+      <line
+        x1={topX}
+        y1={topY}
+        x2={rotateX}
+        y2={rotateY}
+        stroke='#3B82F6'
+        pointerEvents='none'
+      />
+      <circle
+        cx={rotateX}
+        cy={rotateY}
+        r={size / 2}
+        fill='#FFFFFF'
+        stroke='#3B82F6'
+        strokeWidth={1.5}
+        className='cursor-grab'
+        onMouseDown={(e) => onStartTransform('rotate', null, e)}>
+        <title>Rotate (Shift snaps to 15°)</title>
+      </circle>
+
+      <line
+        x1={cornerX}
+        y1={cornerY}
+        x2={scaleX}
+        y2={scaleY}
+        stroke='#3B82F6'
+        strokeDasharray='2 2'
+        pointerEvents='none'
+      />
+      <rect
+        x={scaleX - size / 2}
+        y={scaleY - size / 2}
+        width={size}
+        height={size}
+        transform={`rotate(45 ${scaleX} ${scaleY})`}
+        fill='#3B82F6'
+        stroke='#FFFFFF'
+        className='cursor-nwse-resize'
+        onMouseDown={(e) => onStartTransform('scale', null, e)}>
+        <title>Scale</title>
+      </rect>
+
+      {RESIZE_HANDLES.map((handle) => {
+        const [x, y] = point(handle.x * frame.width, handle.y * frame.height);
+        return (
+          <rect
+            key={`${handle.x}-${handle.y}`}
+            x={x - size / 2}
+            y={y - size / 2}
+            width={size}
+            height={size}
+            fill='#FFFFFF'
+            stroke='#3B82F6'
+            strokeWidth={1.5}
+            className={getResizeCursor(handle)}
+            onMouseDown={(e) => onStartTransform('resize', handle, e)}>
+            <title>Resize (Shift keeps the aspect ratio)</title>
+          </rect>
+        );
+      })}
+    </g>
+  );
+};
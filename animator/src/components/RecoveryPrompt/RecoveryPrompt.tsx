@@ -0,0 +1,71 @@
+import React from 'react';
+import type { AutosaveSnapshot, UnreadableSnapshot } from '../../types';
+
+interface RecoveryPromptProps {
+  snapshot: AutosaveSnapshot | null; // Null once no snapshot is left to try
+  unreadable: UnreadableSnapshot | null; // The last snapshot that failed
+  onRestore: (snapshot: AutosaveSnapshot) => void;
+  onDiscard: () => void;
+}
+
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({
+  snapshot,
+  unreadable,
+  onRestore,
+  onDiscard,
+}) => {
+  return (
+    <div className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50'>
+      <div className='bg-white p-6 rounded-lg shadow-lg max-w-md w-full mx-4'>
+        <h3 className='text-lg font-bold mb-2'>Recover unsaved work?</h3>
+
+        {unreadable && (
+          <div className='mb-3 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded'>
+            <strong>
+              The autosave from {new Date(unreadable.savedAt).toLocaleString()}{' '}
+              could not be read:
+            </strong>
+            <ul className='mt-1 space-y-1 max-h-32 overflow-y-auto'>
+              {unreadable.issues.map((issue, i) => (
+                <li key={i}>
+                  {issue.path && <code>{issue.path}</code>}
+                  {issue.path && ': '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {snapshot ? (
+          <p className='text-sm text-gray-600'>
+            An {unreadable ? 'older ' : ''}autosaved project from{' '}
+            <strong>{new Date(snapshot.savedAt).toLocaleString()}</strong> was
+            found. Restoring it replaces the current project; you can undo the
+            restore from the history panel.
+          </p>
+        ) : (
+          <p className='text-sm text-gray-600'>
+            No other autosave is left to restore. Starting fresh deletes the
+            autosaves.
+          </p>
+        )}
+
+        <div className='flex justify-end space-x-2 mt-6'>
+          <button
+            onClick={onDiscard}
+            className='px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500'>
+            Start Fresh
+          </button>
+          {snapshot && (
+            <button
+              onClick={() => onRestore(snapshot)}
+              className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'>
+              Restore
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { RecoveryPrompt } from './RecoveryPrompt';
@@ -0,0 +1,492 @@
+import React, { useState } from 'react';
+import {
+  fitGraph,
+  getBezierHandles,
+  getGraphCurves,
+  getGridValues,
+  moveBezierHandle,
+  sampleCurve,
+} from '../../utils/graph';
+import type {
+  BezierHandles,
+  GraphCurve,
+  GraphFit,
+  ValueRange,
+} from '../../utils/graph';
+import { isKeyframeSelected } from '../../utils/keyframeSelection';
+import type { SnapTarget } from '../../utils/snapping';
+import { DEFAULT_COLORS, GRAPH_CONFIG, UI_CONFIG } from '../../constants';
+import type {
+  EasingFunction,
+  Keyframe,
+  Layer,
+  LayerPropertyKey,
+  SelectedKeyframeInfo,
+} from '../../types';
+
+interface GraphEditorProps {
+  layers: Layer[]; // Layers whose curves are plotted
+  duration: number;
+  zoom: number;
+  currentTime: number;
+  selectedKeyframes: SelectedKeyframeInfo[];
+  snapIndicator: SnapTarget | null;
+  getSnapTargets: (exclude: SelectedKeyframeInfo[]) => SnapTarget[];
+  onSnap: (
+    time: number,
+    targets: SnapTarget[],
+    event: MouseEvent | React.MouseEvent,
+  ) => number;
+  onSnapEnd: () => void;
+  onSelectKeyframe: (info: SelectedKeyframeInfo | null) => void;
+  onToggleKeyframeSelection: (info: SelectedKeyframeInfo) => void;
+  onSetKeyframeSelection: (selection: SelectedKeyframeInfo[]) => void;
+  onUpdateKeyframe: (
+    layerId: string,
+    propertyKey: LayerPropertyKey,
+    keyframeId: string,
+    newTime: number,
+    newValue: number,
+    newEasing: EasingFunction,
+  ) => void;
+  onBeginCurveEdit: (target: 'keyframe' | 'easing') => void;
+  onEndCurveEdit: () => void;
+}
+
+export const GraphEditor: React.FC<GraphEditorProps> = ({
+  layers,
+  duration,
+  zoom,
+  currentTime,
+  selectedKeyframes,
+  snapIndicator,
+  getSnapTargets,
+  onSnap,
+  onSnapEnd,
+  onSelectKeyframe,
+  onToggleKeyframeSelection,
+  onSetKeyframeSelection,
+  onUpdateKeyframe,
+  onBeginCurveEdit,
+  onEndCurveEdit,
+}) => {
+  const [hiddenCurves, setHiddenCurves] = useState<string[]>([]);
+  const [isNormalized, setIsNormalized] = useState(false);
+  // A held fit keeps the value axis still; auto-fit follows every edit.
+  const [heldFit, setHeldFit] = useState<GraphFit | null>(null);
+  const [isAutoFit, setIsAutoFit] = useState(true);
+
+  const { height } = GRAPH_CONFIG;
+  const width = (duration / 100) * zoom;
+  const samples = width * GRAPH_CONFIG.samplesPerPx;
+  const msToPx = (ms: number) => (ms / 100) * zoom;
+  const pxToMs = (px: number) => (px / zoom) * 100;
+
+  const allCurves = getGraphCurves(layers);
+  const curves = allCurves.filter((curve) => !hiddenCurves.includes(curve.id));
+  const liveFit = fitGraph(curves, duration, samples, GRAPH_CONFIG.padding);
+  const fit = heldFit ?? liveFit;
+
+  /** Each curve fills the height in the normalized view. */
+  const getRange = (curve: GraphCurve): ValueRange =>
+    isNormalized
+      ? (fit.curves[curve.id] ?? liveFit.curves[curve.id])
+      : fit.shared;
+
+  const toY = (value: number, range: ValueRange) =>
+    (1 - (value - range.min) / (range.max - range.min)) * height;
+
+  const getColor = (curve: GraphCurve) =>
+    DEFAULT_COLORS[allCurves.indexOf(curve) % DEFAULT_COLORS.length];
+
+  const getRef = (
+    curve: GraphCurve,
+    keyframe: Keyframe,
+  ): SelectedKeyframeInfo => ({
+    layerId: curve.layerId,
+    propertyKey: curve.propertyKey,
+    keyframeId: keyframe.id,
+  });
+
+  /**
+   * Runs a drag on the graph. A press that does not move is a click. The
+   * value axis is held still while dragging so the curve does not rescale
+   * under the pointer.
+   */
+  const startDrag = (
+    event: React.MouseEvent,
+    handlers: {
+      onStart: () => void;
+      onMove: (deltaX: number, deltaY: number, event: MouseEvent) => void;
+      onClick: () => void;
+    },
+  ) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    const startY = event.clientY;
+    let isDragging = false;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const deltaX = moveEvent.clientX - startX;
+      const deltaY = moveEvent.clientY - startY;
+      if (!isDragging) {
+        if (Math.hypot(deltaX, deltaY) < UI_CONFIG.dragThreshold) return;
+        isDragging = true;
+        if (isAutoFit) setHeldFit(fit);
+        handlers.onStart();
+      }
+      handlers.onMove(deltaX, deltaY, moveEvent);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      if (!isDragging) {
+        handlers.onClick();
+        return;
+      }
+      if (isAutoFit) setHeldFit(null);
+      onSnapEnd();
+      onEndCurveEdit();
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  /**
+   * Drags a keyframe in time and value. The time snaps like on the
+   * dopesheet; Shift keeps the drag to whichever axis moved most.
+   */
+  const handleKeyframeMouseDown = (
+    curve: GraphCurve,
+    keyframe: Keyframe,
+    event: React.MouseEvent,
+  ) => {
+    const ref = getRef(curve, keyframe);
+    const range = getRange(curve);
+    const isAdditive = event.shiftKey || event.ctrlKey || event.metaKey;
+    let targets: SnapTarget[] = [];
+
+    startDrag(event, {
+      onStart: () => {
+        if (!isKeyframeSelected(selectedKeyframes, ref)) {
+          onSetKeyframeSelection([ref]);
+        }
+        targets = getSnapTargets([ref]);
+        onBeginCurveEdit('keyframe');
+      },
+      onMove: (deltaX, deltaY, moveEvent) => {
+        const isTimeOnly =
+          moveEvent.shiftKey && Math.abs(deltaX) >= Math.abs(deltaY);
+        const isValueOnly =
+          moveEvent.shiftKey && Math.abs(deltaX) < Math.abs(deltaY);
+
+        let time = keyframe.time;
+        if (isValueOnly) {
+          onSnapEnd();
+        } else {
+          time = onSnap(keyframe.time + pxToMs(deltaX), targets, moveEvent);
+        }
+        const value = isTimeOnly
+          ? keyframe.value
+          : keyframe.value - (deltaY / height) * (range.max - range.min);
+
+        onUpdateKeyframe(
+          curve.layerId,
+          curve.propertyKey,
+          keyframe.id,
+          Math.max(0, Math.min(duration, time)),
+          Math.round(value * 1000) / 1000,
+          keyframe.easing,
+        );
+      },
+      onClick: () => {
+        if (isAdditive) {
+          onToggleKeyframeSelection(ref);
+        } else {
+          onSetKeyframeSelection([ref]);
+        }
+      },
+    });
+  };
+
+  /** Drags a bezier handle, rewriting the easing of the segment. */
+  const handleBezierMouseDown = (
+    curve: GraphCurve,
+    from: Keyframe,
+    to: Keyframe,
+    handle: keyof BezierHandles,
+    event: React.MouseEvent,
+  ) => {
+    const range = getRange(curve);
+    const start = getBezierHandles(from, to)?.[handle];
+    if (!start) return;
+
+    startDrag(event, {
+      onStart: () => onBeginCurveEdit('easing'),
+      onMove: (deltaX, deltaY) => {
+        const point = {
+          time: start.time + pxToMs(deltaX),
+          value: start.value - (deltaY / height) * (range.max - range.min),
+        };
+        onUpdateKeyframe(
+          curve.layerId,
+          curve.propertyKey,
+          from.id,
+          from.time,
+          from.value,
+          moveBezierHandle(from, to, handle, point),
+        );
+      },
+      onClick: () => {},
+    });
+  };
+
+  const handleBackgroundMouseDown = (event: React.MouseEvent) => {
+    if (event.button !== 0) return;
+    if (!(event.shiftKey || event.ctrlKey || event.metaKey)) {
+      onSetKeyframeSelection([]);
+    }
+  };
+
+  const toggleCurve = (curveId: string) =>
+    setHiddenCurves((hidden) =>
+      hidden.includes(curveId)
+        ? hidden.filter((id) => id !== curveId)
+        : [...hidden, curveId],
+    );
+
+  const toggleAutoFit = () => {
+    setHeldFit(isAutoFit ? liveFit : null);
+    setIsAutoFit(!isAutoFit);
+  };
+
+  // The normalized view marks where each curve reaches its lowest and
+  // highest value; the absolute view labels round values.
+  const grid = isNormalized
+    ? [
+        { value: 0, label: 'min' },
+        { value: 0.5, label: 'mid' },
+        { value: 1, label: 'max' },
+      ].map(({ value, label }) => ({
+        y: toY(value, {
+          min: -GRAPH_CONFIG.padding,
+          max: 1 + GRAPH_CONFIG.padding,
+        }),
+        label,
+      }))
+    : getGridValues(fit.shared, GRAPH_CONFIG.gridLines).map((value) => ({
+        y: toY(value, fit.shared),
+        label: String(Number(value.toPrecision(6))),
+      }));
+
+  return (
+    <div className='select-none'>
+      {/* Graph options */}
+      <div className='flex items-center space-x-4 px-3 py-1 text-xs text-gray-700 bg-gray-50 border-b border-gray-200'>
+        <label
+          className='flex items-center space-x-1'
+          title='Scale every curve to the full height'>
+          <input
+            type='checkbox'
+            checked={isNormalized}
+            onChange={(e) => setIsNormalized(e.target.checked)}
+          />
+          <span>Normalized</span>
+        </label>
+        <label
+          className='flex items-center space-x-1'
+          title='Rescale the value axis to fit the curves after every edit'>
+          <input type='checkbox' checked={isAutoFit} onChange={toggleAutoFit} />
+          <span>Auto-fit</span>
+        </label>
+        {!isAutoFit && (
+          <button
+            onClick={() => setHeldFit(liveFit)}
+            className='px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-100'
+            title='Fit the value axis to the curves once'>
+            Fit
+          </button>
+        )}
+      </div>
+
+      <div className='flex'>
+        {/* Curve list */}
+        <div
+          className='w-32 py-1 text-xs bg-gray-50 border-r border-gray-200 flex-shrink-0 overflow-y-auto'
+          style={{ height: `${height}px` }}>
+          {allCurves.map((curve) => (
+            <label
+              key={curve.id}
+              className='flex items-center space-x-1 px-2 py-0.5'
+              title={`${curve.layerName} · ${curve.propertyKey}`}>
+              <input
+                type='checkbox'
+                checked={!hiddenCurves.includes(curve.id)}
+                onChange={() => toggleCurve(curve.id)}
+              />
+              <span
+                className='w-2 h-2 flex-shrink-0 rounded-full'
+                style={{ backgroundColor: getColor(curve) }}
+              />
+              <span className='truncate'>
+                {layers.length > 1 && `${curve.layerName} · `}
+                {curve.propertyKey}
+              </span>
+            </label>
+          ))}
+          {allCurves.length === 0 && (
+            <p className='px-2 py-1 text-gray-500'>
+              No keyframed properties to plot.
+            </p>
+          )}
+        </div>
+
+        <svg
+          width={width}
+          height={height}
+          className='flex-shrink-0 bg-white overflow-visible'
+          onMouseDown={handleBackgroundMouseDown}>
+          {/* Value grid */}
+          {grid.map(({ y, label }) => (
+            <g key={label} className='pointer-events-none'>
+              <line
+                x1={0}
+                x2={width}
+                y1={y}
+                y2={y}
+                stroke='#E5E7EB'
+                strokeWidth={1}
+              />
+              <text x={4} y={y - 2} fontSize={10} fill='#9CA3AF'>
+                {label}
+              </text>
+            </g>
+          ))}
+
+          {/* Playhead and snap target */}
+          <line
+            x1={msToPx(currentTime)}
+            x2={msToPx(currentTime)}
+            y1={0}
+            y2={height}
+            stroke='#EF4444'
+            strokeWidth={2}
+            className='pointer-events-none'
+          />
+          {snapIndicator && (
+            <line
+              x1={msToPx(snapIndicator.time)}
+              x2={msToPx(snapIndicator.time)}
+              y1={0}
+              y2={height}
+              stroke='#F59E0B'
+              strokeWidth={1}
+              className='pointer-events-none'
+            />
+          )}
+
+          {curves.map((curve) => {
+            const range = getRange(curve);
+            const color = getColor(curve);
+            const { keyframes } = curve.property;
+            const points = sampleCurve(curve.property, duration, samples)
+              .map(
+                (point) => `${msToPx(point.time)},${toY(point.value, range)}`,
+              )
+              .join(' ');
+
+            return (
+              <g key={curve.id}>
+                <polyline
+                  points={points}
+                  fill='none'
+                  stroke={color}
+                  strokeWidth={2}
+                  className='pointer-events-none'
+                />
+
+                {/* Bezier handles of segments next to a selected keyframe */}
+                {keyframes.slice(0, -1).map((from, i) => {
+                  const to = keyframes[i + 1];
+                  const isActive =
+                    isKeyframeSelected(
+                      selectedKeyframes,
+                      getRef(curve, from),
+                    ) ||
+                    isKeyframeSelected(selectedKeyframes, getRef(curve, to));
+                  const handles = isActive && getBezierHandles(from, to);
+                  if (!handles) return null;
+
+                  return (['out', 'in'] as const).map((handle) => {
+                    const anchor = handle === 'out' ? from : to;
+                    const x = msToPx(handles[handle].time);
+                    const y = toY(handles[handle].value, range);
+                    return (
+                      <g key={`${from.id}-${handle}`}>
+                        <line
+                          x1={msToPx(anchor.time)}
+                          y1={toY(anchor.value, range)}
+                          x2={x}
+                          y2={y}
+                          stroke='#9CA3AF'
+                          strokeWidth={1}
+                          className='pointer-events-none'
+                        />
+                        <circle
+                          cx={x}
+                          cy={y}
+                          r={GRAPH_CONFIG.handleRadius}
+                          fill='white'
+                          stroke={color}
+                          strokeWidth={1.5}
+                          className='cursor-move'
+                          onMouseDown={(e) =>
+                            handleBezierMouseDown(curve, from, to, handle, e)
+                          }>
+                          <title>Easing handle</title>
+                        </circle>
+                      </g>
+                    );
+                  });
+                })}
+
+                {keyframes.map((keyframe) => {
+                  const isSelected = isKeyframeSelected(
+                    selectedKeyframes,
+                    getRef(curve, keyframe),
+                  );
+                  return (
+                    <circle
+                      key={keyframe.id}
+                      cx={msToPx(keyframe.time)}
+                      cy={toY(keyframe.value, range)}
+                      r={GRAPH_CONFIG.pointRadius}
+                      fill={isSelected ? '#3B82F6' : 'white'}
+                      stroke={isSelected ? '#1D4ED8' : color}
+                      strokeWidth={2}
+                      className='cursor-pointer'
+                      onMouseDown={(e) =>
+                        handleKeyframeMouseDown(curve, keyframe, e)
+                      }
+                      onDoubleClick={() =>
+                        onSelectKeyframe(getRef(curve, keyframe))
+                      }>
+                      <title>
+                        {`${curve.propertyKey} = ${keyframe.value} at ${keyframe.time}ms`}
+                      </title>
+                    </circle>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
-import React from 'react';
+import React, { useRef } from 'react';
+import { UI_CONFIG } from '../../constants';
 import type { Keyframe } from '../../types';
 
 interface KeyframeMarkerProps {
-  keyframe: Keyframe;
+  keyframe: Keyframe<number | string>;
   position: number; // x-position on the track
   isSelected: boolean;
-  onClick: () => void;
-  onDrag: (newTime: number) => void;
+  onClick: (event: React.MouseEvent) => void;
+  onDrag: (deltaTime: number, event: MouseEvent) => void; // Offset in ms since the drag start
+  onDragStart?: (event: React.MouseEvent) => void; // Receives the mousedown
+  onDragEnd?: () => void;
   timelineInfo: { duration: number; zoom: number };
 }
 
@@ -16,8 +19,11 @@ export const KeyframeMarker: React.FC<KeyframeMarkerProps> = ({
   isSelected,
   onClick,
   onDrag,
+  onDragStart,
+  onDragEnd,
   timelineInfo,
 }) => {
+  const didDragRef = useRef(false);
   const pxToMs = (px: number) => (px / timelineInfo.zoom) * 100;
 
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -25,28 +31,32 @@ export const KeyframeMarker: React.FC<KeyframeMarkerProps> = ({
     e.stopPropagation();
 
     const startX = e.clientX;
-    const startTime = keyframe.time;
+    didDragRef.current = false;
 
     const handleMouseMove = (moveEvent: MouseEvent) => {
       const deltaX = moveEvent.clientX - startX;
-      const newTime = Math.max(
-        0,
-        Math.min(timelineInfo.duration, startTime + pxToMs(deltaX)),
-      );
-      onDrag(newTime);
+      if (!didDragRef.current) {
+        // A press that barely moves is a click, not a drag.
+        if (Math.abs(deltaX) < UI_CONFIG.dragThreshold) return;
+        didDragRef.current = true;
+        onDragStart?.(e);
+      }
+      onDrag(pxToMs(deltaX), moveEvent);
     };
 
     const handleMouseUp = () => {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
+      if (didDragRef.current) onDragEnd?.();
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
   };
 
-  const handleClick = () => {
-    onClick();
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!didDragRef.current) onClick(e);
   };
 
   return (
@@ -57,6 +67,7 @@ export const KeyframeMarker: React.FC<KeyframeMarkerProps> = ({
           : 'bg-white border-gray-400 hover:border-gray-600'
       }`}
       style={{ left: `${position}px`, top: '50%' }}
+      data-keyframe-id={keyframe.id}
       onMouseDown={handleMouseDown}
       onClick={handleClick}
       title={`Keyframe at ${keyframe.time}ms`}
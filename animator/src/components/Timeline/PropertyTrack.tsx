@@ -1,30 +1,34 @@
 import React from 'react';
 import { KeyframeMarker } from './KeyframeMarker';
+import { isKeyframeSelected } from '../../utils/keyframeSelection';
 
 import type {
   Layer,
   AnimatedProperty,
+  ColorProperty,
+  TrackKey,
   SelectedKeyframeInfo,
 } from '../../types';
 
 interface PropertyTrackProps {
   layer: Layer;
-  propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>;
-  property: AnimatedProperty;
+  propertyKey: TrackKey;
+  property: AnimatedProperty | ColorProperty;
   timelineInfo: { duration: number; zoom: number };
-  selectedKeyframeInfo: SelectedKeyframeInfo | null;
-  onAddKeyframe: (
-    layerId: string,
-    propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
-    time: number,
+  selectedKeyframes: SelectedKeyframeInfo[];
+  isTargetTrack: boolean; // Paste target for a single copied track
+  onSelectTrack: () => void;
+  onAddKeyframe: (layerId: string, propertyKey: TrackKey, time: number) => void;
+  onKeyframeClick: (
+    keyframe: SelectedKeyframeInfo,
+    event: React.MouseEvent,
   ) => void;
-  onDragKeyframe: (
-    layerId: string,
-    propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
-    keyframeId: string,
-    newTime: number,
+  onKeyframeDragStart: (
+    keyframe: SelectedKeyframeInfo,
+    event: React.MouseEvent,
   ) => void;
-  onSelectKeyframe: (info: SelectedKeyframeInfo | null) => void;
+  onKeyframeDrag: (deltaTime: number, event: MouseEvent) => void;
+  onKeyframeDragEnd: () => void;
 }
 
 export const PropertyTrack: React.FC<PropertyTrackProps> = ({
@@ -32,10 +36,14 @@ export const PropertyTrack: React.FC<PropertyTrackProps> = ({
   propertyKey,
   property,
   timelineInfo,
-  selectedKeyframeInfo,
+  selectedKeyframes,
+  isTargetTrack,
+  onSelectTrack,
   onAddKeyframe,
-  onDragKeyframe,
-  onSelectKeyframe,
+  onKeyframeClick,
+  onKeyframeDragStart,
+  onKeyframeDrag,
+  onKeyframeDragEnd,
 }) => {
   const msToPx = (ms: number) => (ms / 100) * timelineInfo.zoom;
 
@@ -48,35 +56,40 @@ export const PropertyTrack: React.FC<PropertyTrackProps> = ({
 
   return (
     <div className='flex items-center border-b border-gray-200 bg-white'>
-      <div className='w-32 px-3 py-2 text-sm font-medium bg-gray-50 border-r border-gray-200 flex-shrink-0'>
+      <div
+        className={`w-32 px-3 py-2 text-sm font-medium border-r border-gray-200 flex-shrink-0 cursor-pointer ${
+          isTargetTrack ? 'bg-blue-100 text-blue-700' : 'bg-gray-50'
+        }`}
+        onClick={onSelectTrack}
+        title='Paste target for a single copied track'>
         {propertyKey}
       </div>
       <div
         className='relative h-8 flex-1 bg-gray-100 hover:bg-gray-200 cursor-crosshair'
+        data-layer-id={layer.id}
+        data-property-key={propertyKey}
         onDoubleClick={handleTrackDoubleClick}>
-        {property.keyframes.map((keyframe) => (
-          <KeyframeMarker
-            key={keyframe.id}
-            keyframe={keyframe}
-            position={msToPx(keyframe.time)}
-            isSelected={
-              selectedKeyframeInfo?.layerId === layer.id &&
-              selectedKeyframeInfo?.propertyKey === propertyKey &&
-              selectedKeyframeInfo?.keyframeId === keyframe.id
-            }
-            onClick={() =>
-              onSelectKeyframe({
-                layerId: layer.id,
-                propertyKey,
-                keyframeId: keyframe.id,
-              })
-            }
-            onDrag={(newTime) =>
-              onDragKeyframe(layer.id, propertyKey, keyframe.id, newTime)
-            }
-            timelineInfo={timelineInfo}
-          />
-        ))}
+        {property.keyframes.map((keyframe) => {
+          const ref: SelectedKeyframeInfo = {
+            layerId: layer.id,
+            propertyKey,
+            keyframeId: keyframe.id,
+          };
+
+          return (
+            <KeyframeMarker
+              key={keyframe.id}
+              keyframe={keyframe}
+              position={msToPx(keyframe.time)}
+              isSelected={isKeyframeSelected(selectedKeyframes, ref)}
+              onClick={(event) => onKeyframeClick(ref, event)}
+              onDrag={onKeyframeDrag}
+              onDragStart={(event) => onKeyframeDragStart(ref, event)}
+              onDragEnd={onKeyframeDragEnd}
+              timelineInfo={timelineInfo}
+            />
+          );
+        })}
       </div>
     </div>
   );
@@ -1,24 +1,78 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { PropertyTrack } from './PropertyTrack';
-import type { AppState, SelectedKeyframeInfo, Layer } from '../../types';
+import { GraphEditor } from './GraphEditor';
+import { getLayerTrack, getLayerTrackKeys } from '../../utils/layer';
+import {
+  getKeyframeTimes,
+  getTimeRange,
+  isKeyframeSelected,
+  isSameKeyframe,
+  mergeKeyframeSelections,
+  offsetKeyframeTimes,
+  scaleKeyframeTimes,
+} from '../../utils/keyframeSelection';
+import type { KeyframeTimeChange } from '../../utils/keyframeSelection';
+import type { PasteOptions } from '../../utils/keyframeClipboard';
+import { getSnapTargets, snapTime } from '../../utils/snapping';
+import { getMarkerTimes, isRegion } from '../../utils/markers';
+import { timeToFrame } from '../../utils/playback';
+import { isSameBezier } from '../../utils/easingPresets';
+import type { SnapTarget } from '../../utils/snapping';
+import {
+  ANIMATION_CONFIG,
+  AUTO_KEY_EASING_LABELS,
+  PLAYBACK_CONFIG,
+  PLAYBACK_MODE_LABELS,
+  SNAP_TARGET_LABELS,
+  UI_CONFIG,
+} from '../../constants';
+import type {
+  AppState,
+  EasingFunction,
+  LayerPropertyKey,
+  PlaybackMode,
+  SelectedKeyframeInfo,
+  TrackKey,
+} from '../../types';
 
 interface TimelinePanelProps {
   appState: AppState;
   onSetCurrentTime: (time: number) => void;
   onTogglePlay: () => void;
-  onAddKeyframe: (
+  onStepFrame: (frames: number) => void;
+  onGoToEdge: (edge: 'start' | 'end') => void;
+  onChangePlaybackRate: (rate: number) => void;
+  onChangePlaybackMode: (mode: PlaybackMode) => void;
+  onToggleReverse: () => void;
+  onToggleAutoKey: () => void;
+  onChangeAutoKeyEasing: (easing: EasingFunction) => void;
+  onAddKeyframe: (layerId: string, propertyKey: TrackKey, time: number) => void;
+  onRetimeKeyframes: (changes: KeyframeTimeChange[]) => void;
+  onBeginKeyframeDrag: (mode: 'move' | 'scale') => void;
+  onEndKeyframeDrag: () => void;
+  onUpdateKeyframe: (
     layerId: string,
-    propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
-    time: number,
-  ) => void;
-  onDragKeyframe: (
-    layerId: string,
-    propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>,
+    propertyKey: LayerPropertyKey,
     keyframeId: string,
     newTime: number,
+    newValue: number,
+    newEasing: EasingFunction,
   ) => void;
+  onBeginCurveEdit: (target: 'keyframe' | 'easing') => void;
+  onEndCurveEdit: () => void;
   onSelectKeyframe: (info: SelectedKeyframeInfo | null) => void;
+  onToggleKeyframeSelection: (info: SelectedKeyframeInfo) => void;
+  onSetKeyframeSelection: (selection: SelectedKeyframeInfo[]) => void;
+  onSelectTrack: (layerId: string, propertyKey: TrackKey | null) => void;
+  canPaste: boolean;
+  pasteOptions: PasteOptions;
+  onChangePasteOptions: (options: PasteOptions) => void;
+  onCopyKeyframes: () => void;
+  onCutKeyframes: () => void;
+  onPasteKeyframes: () => void;
+  onDeleteKeyframes: () => void;
   onChangeDuration: (newDuration: number) => void;
+  onChangeFps: (newFps: number) => void;
   onChangeZoom: (newZoom: number) => void;
 }
 
@@ -26,49 +80,535 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
   appState,
   onSetCurrentTime,
   onTogglePlay,
+  onStepFrame,
+  onGoToEdge,
+  onChangePlaybackRate,
+  onChangePlaybackMode,
+  onToggleReverse,
+  onToggleAutoKey,
+  onChangeAutoKeyEasing,
   onAddKeyframe,
-  onDragKeyframe,
+  onRetimeKeyframes,
+  onBeginKeyframeDrag,
+  onEndKeyframeDrag,
+  onUpdateKeyframe,
+  onBeginCurveEdit,
+  onEndCurveEdit,
   onSelectKeyframe,
+  onToggleKeyframeSelection,
+  onSetKeyframeSelection,
+  onSelectTrack,
+  canPaste,
+  pasteOptions,
+  onChangePasteOptions,
+  onCopyKeyframes,
+  onCutKeyframes,
+  onPasteKeyframes,
+  onDeleteKeyframes,
   onChangeDuration,
+  onChangeFps,
   onChangeZoom,
 }) => {
   const {
     layers,
     selectedLayerId,
-    selectedKeyframeInfo,
+    selectedPropertyKey,
+    selectedKeyframes,
     currentTime,
     isPlaying,
+    playbackRate,
+    playbackMode,
+    isReversed,
+    isAutoKey,
+    autoKeyEasing,
     duration,
+    fps,
+    markers,
+    easingPresets,
+    loopRange,
     timelineZoom,
   } = appState;
 
   const msToPx = (ms: number) => (ms / 100) * timelineZoom;
 
-  const handleTimelineScrub = (event: React.MouseEvent<HTMLDivElement>) => {
-    const rect = event.currentTarget.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const newTime = Math.max(0, Math.min(duration, (x / timelineZoom) * 100));
-    onSetCurrentTime(newTime);
+  const [view, setView] = useState<'dopesheet' | 'graph'>('dopesheet');
+  const [snapIndicator, setSnapIndicator] = useState<SnapTarget | null>(null);
+
+  /** Holding Ctrl (Cmd on macOS) while dragging turns snapping off. */
+  const isSnapBypassed = (event: MouseEvent | React.MouseEvent) =>
+    event.ctrlKey || event.metaKey;
+
+  /**
+   * Snaps a dragged time and shows what it snapped to. Frame snapping
+   * happens on every drag, so it has no indicator.
+   */
+  const snap = (
+    time: number,
+    targets: SnapTarget[],
+    event: MouseEvent | React.MouseEvent,
+  ): number => {
+    if (isSnapBypassed(event)) {
+      setSnapIndicator(null);
+      return time;
+    }
+    const snapped = snapTime(time, targets, fps);
+    setSnapIndicator(snapped.kind === 'frame' ? null : snapped);
+    return snapped.time;
+  };
+
+  /** Snap targets for dragging keyframes, leaving out the dragged ones. */
+  const getDragSnapTargets = (exclude: SelectedKeyframeInfo[]) =>
+    getSnapTargets({
+      layers,
+      duration,
+      playhead: currentTime,
+      markers: getMarkerTimes(markers),
+      exclude,
+    });
+
+  /** Moves the playhead while the pointer is pressed on the ruler. */
+  const handleRulerMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+
+    const ruler = event.currentTarget;
+    const targets = getSnapTargets({
+      layers,
+      duration,
+      playhead: null,
+      markers: getMarkerTimes(markers),
+      exclude: [],
+    });
+
+    const scrub = (scrubEvent: MouseEvent | React.MouseEvent) => {
+      const rect = ruler.getBoundingClientRect();
+      const x = scrubEvent.clientX - rect.left;
+      const time = (x / timelineZoom) * 100;
+      onSetCurrentTime(
+        Math.max(0, Math.min(duration, snap(time, targets, scrubEvent))),
+      );
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', scrub);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setSnapIndicator(null);
+    };
+
+    scrub(event);
+    document.addEventListener('mousemove', scrub);
+    document.addEventListener('mouseup', handleMouseUp);
   };
 
   const timelineWidth = msToPx(duration);
+  const visibleLayers = layers.filter(
+    (layer) => selectedLayerId === null || layer.id === selectedLayerId,
+  );
+  const selectionRange = getTimeRange(
+    getKeyframeTimes(layers, selectedKeyframes),
+  );
+  const hasSelection = selectedKeyframes.length > 0;
+
+  /** The auto-key easing as a select option: its name or 'project:<id>'. */
+  const getAutoKeyEasingKey = (): string => {
+    if (typeof autoKeyEasing === 'string') return autoKeyEasing;
+    const preset = easingPresets.find(
+      (p) =>
+        Array.isArray(autoKeyEasing) && isSameBezier(p.easing, autoKeyEasing),
+    );
+    return preset ? `project:${preset.id}` : '';
+  };
+
+  const [marquee, setMarquee] = useState<{
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+  } | null>(null);
+  const dragRef = useRef<{
+    origin: KeyframeTimeChange[]; // Selected keyframe times at drag start
+    mode: 'move' | 'scale';
+    pivot: number; // Time that stays in place while scaling
+    grabbedTime: number; // Start time of the dragged keyframe
+    targets: SnapTarget[]; // Times the dragged keyframe snaps to
+  } | null>(null);
+
+  const isAdditive = (event: {
+    shiftKey: boolean;
+    ctrlKey: boolean;
+    metaKey: boolean;
+  }) => event.shiftKey || event.ctrlKey || event.metaKey;
+
+  const handleKeyframeClick = (
+    keyframe: SelectedKeyframeInfo,
+    event: React.MouseEvent,
+  ) => {
+    if (isAdditive(event)) {
+      onToggleKeyframeSelection(keyframe);
+    } else {
+      onSelectKeyframe(keyframe);
+    }
+  };
+
+  /**
+   * Starts dragging the selection. A keyframe outside the selection replaces
+   * it, or joins it with Shift/Ctrl. With Alt the timing is scaled around
+   * the selection edge opposite the dragged keyframe instead of moved.
+   */
+  const handleKeyframeDragStart = (
+    keyframe: SelectedKeyframeInfo,
+    event: React.MouseEvent,
+  ) => {
+    let selection = selectedKeyframes;
+    if (!isKeyframeSelected(selectedKeyframes, keyframe)) {
+      selection = isAdditive(event)
+        ? [...selectedKeyframes, keyframe]
+        : [keyframe];
+      onSetKeyframeSelection(selection);
+    }
+
+    const origin = getKeyframeTimes(layers, selection);
+    const range = getTimeRange(origin);
+    const grabbedTime =
+      origin.find((t) => isSameKeyframe(t.keyframe, keyframe))?.time ?? 0;
+    if (!range) return;
+
+    const mode = event.altKey && range.end > range.start ? 'scale' : 'move';
+    dragRef.current = {
+      origin,
+      mode,
+      pivot:
+        grabbedTime - range.start >= range.end - grabbedTime
+          ? range.start
+          : range.end,
+      grabbedTime,
+      targets: getDragSnapTargets(selection),
+    };
+    onBeginKeyframeDrag(mode);
+  };
+
+  /** The grabbed keyframe snaps; the rest of the selection follows it. */
+  const handleKeyframeDrag = (rawDelta: number, event: MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const deltaTime =
+      snap(drag.grabbedTime + rawDelta, drag.targets, event) - drag.grabbedTime;
+
+    if (drag.mode === 'move') {
+      onRetimeKeyframes(offsetKeyframeTimes(drag.origin, deltaTime, duration));
+      return;
+    }
+    const span = drag.grabbedTime - drag.pivot;
+    onRetimeKeyframes(
+      scaleKeyframeTimes(
+        drag.origin,
+        drag.pivot,
+        (span + deltaTime) / span,
+        duration,
+      ),
+    );
+  };
+
+  const handleKeyframeDragEnd = () => {
+    dragRef.current = null;
+    setSnapIndicator(null);
+    onEndKeyframeDrag();
+  };
+
+  /**
+   * Rubber-band selection over the tracks. A press that does not move
+   * clears the selection unless Shift/Ctrl is held.
+   */
+  const handleTracksMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+
+    const container = event.currentTarget;
+    const startX = event.clientX;
+    const startY = event.clientY;
+    const additive = isAdditive(event);
+    let isActive = false;
+
+    const getBounds = (moveEvent: MouseEvent) => ({
+      left: Math.min(startX, moveEvent.clientX),
+      top: Math.min(startY, moveEvent.clientY),
+      right: Math.max(startX, moveEvent.clientX),
+      bottom: Math.max(startY, moveEvent.clientY),
+    });
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (
+        !isActive &&
+        Math.hypot(moveEvent.clientX - startX, moveEvent.clientY - startY) <
+          UI_CONFIG.dragThreshold
+      ) {
+        return;
+      }
+      isActive = true;
+
+      const bounds = getBounds(moveEvent);
+      const origin = container.getBoundingClientRect();
+      setMarquee({
+        left: bounds.left - origin.left,
+        top: bounds.top - origin.top,
+        width: bounds.right - bounds.left,
+        height: bounds.bottom - bounds.top,
+      });
+    };
+
+    const handleMouseUp = (upEvent: MouseEvent) => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setMarquee(null);
+
+      if (!isActive) {
+        if (!additive) onSetKeyframeSelection([]);
+        return;
+      }
+
+      const bounds = getBounds(upEvent);
+      const hits = Array.from(
+        container.querySelectorAll<HTMLElement>('[data-keyframe-id]'),
+      ).flatMap((marker): SelectedKeyframeInfo[] => {
+        const rect = marker.getBoundingClientRect();
+        const x = rect.left + rect.width / 2;
+        const y = rect.top + rect.height / 2;
+        const track = marker.closest<HTMLElement>('[data-property-key]');
+        if (
+          !track ||
+          x < bounds.left ||
+          x > bounds.right ||
+          y < bounds.top ||
+          y > bounds.bottom
+        ) {
+          return [];
+        }
+        return [
+          {
+            layerId: track.dataset.layerId ?? '',
+            propertyKey: track.dataset.propertyKey as TrackKey,
+            keyframeId: marker.dataset.keyframeId ?? '',
+          },
+        ];
+      });
+
+      onSetKeyframeSelection(
+        additive ? mergeKeyframeSelections(selectedKeyframes, hits) : hits,
+      );
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
 
   return (
     <div className='flex-1 bg-white border-t border-gray-300 overflow-hidden'>
       {/* Timeline Controls */}
-      <div className='flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50'>
+      <div className='flex flex-wrap items-center justify-between gap-2 p-4 border-b border-gray-200 bg-gray-50'>
         <div className='flex items-center space-x-4'>
-          <button
-            onClick={onTogglePlay}
-            className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'>
-            {isPlaying ? '⏸ Pause' : '▶ Play'}
-          </button>
+          <div className='flex items-center space-x-1'>
+            <button
+              onClick={() => onGoToEdge('start')}
+              className='px-2 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500'
+              title='Go to start (Home)'>
+              ⏮
+            </button>
+            <button
+              onClick={() => onStepFrame(-1)}
+              className='px-2 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500'
+              title='Previous frame (,)'>
+              ◀|
+            </button>
+            <button
+              onClick={onTogglePlay}
+              className='px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              title='Play/pause (Space)'>
+              {isPlaying ? '⏸ Pause' : isReversed ? '◀ Play' : '▶ Play'}
+            </button>
+            <button
+              onClick={() => onStepFrame(1)}
+              className='px-2 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500'
+              title='Next frame (.)'>
+              |▶
+            </button>
+            <button
+              onClick={() => onGoToEdge('end')}
+              className='px-2 py-2 text-sm border border-gray-300 rounded hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500'
+              title='Go to end (End)'>
+              ⏭
+            </button>
+          </div>
+
+          {/* Auto-key */}
+          <div className='flex items-center space-x-1'>
+            <button
+              onClick={onToggleAutoKey}
+              className={`flex items-center px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-red-500 ${
+                isAutoKey
+                  ? 'bg-red-500 text-white border-red-600'
+                  : 'border-gray-300 hover:bg-gray-100'
+              }`}
+              title='Auto-key: edits add keyframes at the playhead (K)'>
+              <span
+                className={`w-2 h-2 mr-1 rounded-full ${
+                  isAutoKey ? 'bg-white animate-pulse' : 'bg-red-500'
+                }`}
+              />
+              Rec
+            </button>
+            <select
+              value={getAutoKeyEasingKey()}
+              onChange={(e) => {
+                const preset = easingPresets.find(
+                  (p) => `project:${p.id}` === e.target.value,
+                );
+                onChangeAutoKeyEasing(
+                  preset ? preset.easing : (e.target.value as EasingFunction),
+                );
+              }}
+              className='px-1 py-1 border border-gray-300 rounded text-sm'
+              title='Easing of the keyframes auto-key adds'>
+              {Object.entries(AUTO_KEY_EASING_LABELS).map(([easing, label]) => (
+                <option key={easing} value={easing}>
+                  {label}
+                </option>
+              ))}
+              {easingPresets.map((preset) => (
+                <option key={preset.id} value={`project:${preset.id}`}>
+                  {preset.name}
+                </option>
+              ))}
+              {getAutoKeyEasingKey() === '' && <option value=''>Custom</option>}
+            </select>
+          </div>
+
+          <div className='flex items-center space-x-2'>
+            <button
+              onClick={onToggleReverse}
+              className={`px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                isReversed
+                  ? 'bg-blue-500 text-white border-blue-600'
+                  : 'border-gray-300 hover:bg-gray-100'
+              }`}
+              title='Play backward'>
+              ⇄
+            </button>
+            <select
+              value={playbackMode}
+              onChange={(e) =>
+                onChangePlaybackMode(e.target.value as PlaybackMode)
+              }
+              className='px-1 py-1 border border-gray-300 rounded text-sm'
+              title='What happens at the end'>
+              {(
+                Object.entries(PLAYBACK_MODE_LABELS) as [PlaybackMode, string][]
+              ).map(([mode, label]) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type='range'
+              value={playbackRate}
+              onChange={(e) => onChangePlaybackRate(Number(e.target.value))}
+              className='w-20'
+              min={PLAYBACK_CONFIG.minRate}
+              max={PLAYBACK_CONFIG.maxRate}
+              step={PLAYBACK_CONFIG.rateStep}
+              title='Playback speed'
+            />
+            <span className='w-8 text-sm text-gray-600'>
+              {playbackRate.toFixed(1)}x
+            </span>
+          </div>
+
           <div className='text-sm text-gray-600'>
-            Time: {Math.round(currentTime)}ms
+            Time: {Math.round(currentTime)}ms · Frame{' '}
+            {timeToFrame(currentTime, fps)} / {timeToFrame(duration, fps)}
           </div>
         </div>
 
+        {/* Keyframe clipboard */}
+        <div className='flex items-center space-x-2'>
+          <button
+            onClick={onCopyKeyframes}
+            disabled={!hasSelection}
+            className='px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+            title='Copy keyframes (Ctrl+C)'>
+            Copy
+          </button>
+          <button
+            onClick={onCutKeyframes}
+            disabled={!hasSelection}
+            className='px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+            title='Cut keyframes (Ctrl+X)'>
+            Cut
+          </button>
+          <button
+            onClick={onPasteKeyframes}
+            disabled={!canPaste}
+            className='px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+            title='Paste at playhead (Ctrl+V, reversed with Ctrl+Shift+V)'>
+            Paste
+          </button>
+          <button
+            onClick={onDeleteKeyframes}
+            disabled={!hasSelection}
+            className='px-2 py-1 text-sm border border-gray-300 rounded text-red-600 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed'
+            title='Delete keyframes (Delete)'>
+            Delete
+          </button>
+          <label className='flex items-center space-x-1 text-sm text-gray-700'>
+            <input
+              type='checkbox'
+              checked={pasteOptions.reversed}
+              onChange={(e) =>
+                onChangePasteOptions({
+                  ...pasteOptions,
+                  reversed: e.target.checked,
+                })
+              }
+            />
+            <span>Reversed</span>
+          </label>
+          <label
+            className='flex items-center space-x-1 text-sm text-gray-700'
+            title='Offset pasted values from the current value at the playhead'>
+            <input
+              type='checkbox'
+              checked={pasteOptions.relative}
+              onChange={(e) =>
+                onChangePasteOptions({
+                  ...pasteOptions,
+                  relative: e.target.checked,
+                })
+              }
+            />
+            <span>Relative</span>
+          </label>
+        </div>
+
         <div className='flex items-center space-x-4'>
+          <div className='flex items-center'>
+            {(['dopesheet', 'graph'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setView(mode)}
+                className={`px-2 py-1 text-sm border first:rounded-l last:rounded-r ${
+                  view === mode
+                    ? 'bg-blue-500 text-white border-blue-600'
+                    : 'border-gray-300 hover:bg-gray-100'
+                }`}
+                title={
+                  mode === 'graph'
+                    ? 'Show the animated values as curves'
+                    : 'Show keyframes on tracks'
+                }>
+                {mode === 'graph' ? 'Graph' : 'Keys'}
+              </button>
+            ))}
+          </div>
+
           <div className='flex items-center space-x-2'>
             <label className='text-sm font-medium'>Duration:</label>
             <input
@@ -82,6 +622,19 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
             <span className='text-sm text-gray-600'>ms</span>
           </div>
 
+          <div className='flex items-center space-x-2'>
+            <label className='text-sm font-medium'>FPS:</label>
+            <input
+              type='number'
+              value={fps}
+              onChange={(e) => onChangeFps(Number(e.target.value))}
+              className='w-16 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500'
+              min={ANIMATION_CONFIG.minFps}
+              max={ANIMATION_CONFIG.maxFps}
+              title='Frame rate; drags snap to whole frames'
+            />
+          </div>
+
           <div className='flex items-center space-x-2'>
             <label className='text-sm font-medium'>Zoom:</label>
             <input
@@ -108,25 +661,76 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                 Time
               </div>
               <div
-                className='relative h-8 bg-gray-100 cursor-pointer'
+                className='relative h-8 bg-gray-100 cursor-pointer select-none'
                 style={{ width: `${timelineWidth}px` }}
-                onClick={handleTimelineScrub}>
+                onMouseDown={handleRulerMouseDown}>
                 {/* Time markers */}
-                {Array.from({ length: Math.floor(duration / 1000) + 1 }).map(
-                  (_, i) => {
-                    const time = i * 1000;
-                    const x = msToPx(time);
-                    return (
-                      <div
-                        key={i}
-                        className='absolute top-0 bottom-0 border-l border-gray-400'
-                        style={{ left: `${x}px` }}>
-                        <div className='absolute top-1 left-1 text-xs text-gray-600'>
-                          {time}ms
-                        </div>
+                {Array.from({
+                  length:
+                    Math.floor(duration / ANIMATION_CONFIG.rulerTickInterval) +
+                    1,
+                }).map((_, i) => {
+                  const time = i * ANIMATION_CONFIG.rulerTickInterval;
+                  const x = msToPx(time);
+                  return (
+                    <div
+                      key={i}
+                      className='absolute top-0 bottom-0 border-l border-gray-400'
+                      style={{ left: `${x}px` }}>
+                      <div className='absolute top-1 left-1 text-xs text-gray-600'>
+                        {time}ms
                       </div>
-                    );
-                  },
+                    </div>
+                  );
+                })}
+
+                {/* Loop in/out */}
+                {loopRange && (
+                  <div
+                    className='absolute top-0 h-1 bg-green-500 pointer-events-none'
+                    style={{
+                      left: `${msToPx(loopRange.start)}px`,
+                      width: `${msToPx(loopRange.end - loopRange.start)}px`,
+                    }}
+                  />
+                )}
+
+                {/* Regions and markers */}
+                {markers.map((marker) =>
+                  isRegion(marker) ? (
+                    <div
+                      key={marker.id}
+                      className='absolute bottom-0 h-2 bg-purple-300 opacity-80 pointer-events-none'
+                      style={{
+                        left: `${msToPx(marker.time)}px`,
+                        width: `${msToPx((marker.endTime ?? marker.time) - marker.time)}px`,
+                      }}
+                    />
+                  ) : (
+                    <div
+                      key={marker.id}
+                      className='absolute top-0 bottom-0 border-l-2 border-amber-500 pointer-events-none'
+                      style={{ left: `${msToPx(marker.time)}px` }}>
+                      <div className='absolute bottom-0 left-1 text-xs text-amber-700 whitespace-nowrap'>
+                        {marker.name}
+                      </div>
+                    </div>
+                  ),
+                )}
+
+                {/* Selected keyframes range */}
+                {selectionRange && (
+                  <div
+                    className='absolute top-0 bottom-0 bg-blue-200 opacity-60'
+                    style={{
+                      left: `${msToPx(selectionRange.start)}px`,
+                      width: `${Math.max(
+                        2,
+                        msToPx(selectionRange.end - selectionRange.start),
+                      )}px`,
+                    }}
+                    title={`Selection: ${selectionRange.start}–${selectionRange.end}ms`}
+                  />
                 )}
 
                 {/* Current time indicator */}
@@ -134,18 +738,62 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                   className='absolute top-0 bottom-0 w-0.5 bg-red-500 z-20'
                   style={{ left: `${msToPx(currentTime)}px` }}
                 />
+
+                {/* Snap indicator */}
+                {snapIndicator && (
+                  <div
+                    className='absolute top-0 bottom-0 w-0.5 bg-amber-500 z-30 pointer-events-none'
+                    style={{ left: `${msToPx(snapIndicator.time)}px` }}>
+                    <div className='absolute bottom-0 left-1 px-1 text-xs text-white bg-amber-500 rounded whitespace-nowrap'>
+                      {SNAP_TARGET_LABELS[snapIndicator.kind]}{' '}
+                      {snapIndicator.time}ms
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          {view === 'graph' && (
+            <GraphEditor
+              layers={visibleLayers}
+              duration={duration}
+              zoom={timelineZoom}
+              currentTime={currentTime}
+              selectedKeyframes={selectedKeyframes}
+              snapIndicator={snapIndicator}
+              getSnapTargets={getDragSnapTargets}
+              onSnap={snap}
+              onSnapEnd={() => setSnapIndicator(null)}
+              onSelectKeyframe={onSelectKeyframe}
+              onToggleKeyframeSelection={onToggleKeyframeSelection}
+              onSetKeyframeSelection={onSetKeyframeSelection}
+              onUpdateKeyframe={onUpdateKeyframe}
+              onBeginCurveEdit={onBeginCurveEdit}
+              onEndCurveEdit={onEndCurveEdit}
+            />
+          )}
+
           {/* Property Tracks */}
-          <div>
-            {layers
-              .filter(
-                (layer) =>
-                  selectedLayerId === null || layer.id === selectedLayerId,
-              )
-              .map((layer) => (
+          {view === 'dopesheet' && (
+            <div
+              className='relative select-none'
+              onMouseDown={handleTracksMouseDown}>
+              {snapIndicator && (
+                <div
+                  className='absolute top-0 bottom-0 w-px z-20 bg-amber-500 pointer-events-none'
+                  style={{
+                    left: `calc(8rem + ${msToPx(snapIndicator.time)}px)`,
+                  }}
+                />
+              )}
+              {marquee && (
+                <div
+                  className='absolute z-20 border border-blue-500 bg-blue-200 bg-opacity-30 pointer-events-none'
+                  style={marquee}
+                />
+              )}
+              {visibleLayers.map((layer) => (
                 <div key={layer.id} className='border-b border-gray-300'>
                   {/* Layer Header */}
                   <div className='flex items-center bg-gray-50 border-b border-gray-200'>
@@ -159,31 +807,40 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
                   </div>
 
                   {/* Property Tracks */}
-                  {(Object.keys(layer) as Array<keyof Layer>)
-                    .filter(
-                      (
-                        key,
-                      ): key is keyof Omit<
-                        Layer,
-                        'id' | 'name' | 'color' | 'zIndex'
-                      > => !['id', 'name', 'color', 'zIndex'].includes(key),
-                    )
-                    .map((propertyKey) => (
+                  {getLayerTrackKeys(layer).map((propertyKey) => {
+                    const property = getLayerTrack(layer, propertyKey);
+                    if (!property) return null;
+                    const isTargetTrack =
+                      layer.id === selectedLayerId &&
+                      propertyKey === selectedPropertyKey;
+
+                    return (
                       <PropertyTrack
                         key={propertyKey}
                         layer={layer}
                         propertyKey={propertyKey}
-                        property={layer[propertyKey]}
+                        property={property}
                         timelineInfo={{ duration, zoom: timelineZoom }}
-                        selectedKeyframeInfo={selectedKeyframeInfo}
+                        selectedKeyframes={selectedKeyframes}
+                        isTargetTrack={isTargetTrack}
+                        onSelectTrack={() =>
+                          onSelectTrack(
+                            layer.id,
+                            isTargetTrack ? null : propertyKey,
+                          )
+                        }
                         onAddKeyframe={onAddKeyframe}
-                        onDragKeyframe={onDragKeyframe}
-                        onSelectKeyframe={onSelectKeyframe}
+                        onKeyframeClick={handleKeyframeClick}
+                        onKeyframeDragStart={handleKeyframeDragStart}
+                        onKeyframeDrag={handleKeyframeDrag}
+                        onKeyframeDragEnd={handleKeyframeDragEnd}
                       />
-                    ))}
+                    );
+                  })}
                 </div>
               ))}
-          </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
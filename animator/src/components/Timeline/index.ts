@@ -1,3 +1,4 @@
 export { TimelinePanel } from './TimelinePanel';
 export { PropertyTrack } from './PropertyTrack';
 export { KeyframeMarker } from './KeyframeMarker';
+export { GraphEditor } from './GraphEditor';
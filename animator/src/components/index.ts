@@ -5,3 +5,6 @@ export * from './Timeline';
 export * from './PreviewCanvas';
 export * from './Export';
 export * from './ErrorBoundary';
+export * from './HistoryPanel';
+export * from './Markers';
+export * from './RecoveryPrompt';
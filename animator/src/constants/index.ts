@@ -1,4 +1,20 @@
-import type { CanvasSize } from '../types';
+import type {
+  AnimatablePropertyKey,
+  Artboard,
+  ArtboardPreset,
+  ColorInterpolation,
+  CubicBezier,
+  EasingFunction,
+  LayerKind,
+  OnionSkinMode,
+  OnionSkinSettings,
+  PlaybackMode,
+  RasterFormat,
+  StepPosition,
+  ShapeType,
+  SnapTargetKind,
+  TransformMode,
+} from '../types';
 
 // Application Configuration
 export const APP_CONFIG = {
@@ -8,11 +24,53 @@ export const APP_CONFIG = {
 } as const;
 
 // Canvas Configuration
-export const DEFAULT_CANVAS_SIZE: CanvasSize = {
+export const DEFAULT_ARTBOARD: Artboard = {
   width: 800,
   height: 600,
+  background: '#FFFFFF',
 } as const;
 
+export const ARTBOARD_CONFIG = {
+  minSize: 1, // px
+  maxSize: 8192, // px
+  fitPadding: 16, // px left around the artboard when zoomed to fit
+  zoomLevels: [0.25, 0.5, 1, 2], // fixed zooms offered besides fit
+} as const;
+
+// Common artboard sizes, grouped by what they are for
+export const ARTBOARD_PRESETS: readonly {
+  group: string;
+  presets: readonly ArtboardPreset[];
+}[] = [
+  {
+    group: 'Mobile',
+    presets: [
+      { name: 'iPhone 15', width: 393, height: 852 },
+      { name: 'iPhone SE', width: 375, height: 667 },
+      { name: 'Android', width: 360, height: 800 },
+      { name: 'iPad', width: 820, height: 1180 },
+    ],
+  },
+  {
+    group: 'Banner',
+    presets: [
+      { name: 'Leaderboard', width: 728, height: 90 },
+      { name: 'Medium rectangle', width: 300, height: 250 },
+      { name: 'Skyscraper', width: 160, height: 600 },
+      { name: 'Social square', width: 1080, height: 1080 },
+    ],
+  },
+  {
+    group: 'Video',
+    presets: [
+      { name: '720p', width: 1280, height: 720 },
+      { name: '1080p', width: 1920, height: 1080 },
+      { name: '1080p vertical', width: 1080, height: 1920 },
+      { name: '4K', width: 3840, height: 2160 },
+    ],
+  },
+];
+
 // Animation Configuration
 export const ANIMATION_CONFIG = {
   defaultDuration: 5000, // 5 seconds
@@ -22,15 +80,265 @@ export const ANIMATION_CONFIG = {
   minZoom: 0.1,
   maxZoom: 5,
   keyframeSnapDistance: 100, // ms
-  animationSteps: 30, // for SVG export
+  defaultFps: 30,
+  minFps: 1,
+  maxFps: 120,
+  rulerTickInterval: 1000, // ms between labelled ruler ticks
+  keyframeNudge: 10, // ms per arrow key press
+  keyframeNudgeLarge: 100, // ms per arrow key press with Shift
+  keyframeScaleStep: 0.1, // timing stretch per Alt+arrow key press
+  // Sampling of segments an export cannot express exactly
+  exportSampleRate: 60, // samples per second, before refining
+  exportMaxProgressError: 0.001, // drift of eased progress between samples
+  exportMaxValueError: 0.1, // drift of a numeric value, in its own units
+  exportMinSampleInterval: 1, // ms; refining stops here, such as at jumps
+} as const;
+
+// Spring Easing Configuration
+export const SPRING_CONFIG = {
+  defaultMass: 1,
+  defaultStiffness: 100,
+  defaultDamping: 10,
+  defaultVelocity: 0,
+  restThreshold: 0.001, // distance from the end value that counts as settled
+  maxSettleTime: 10, // seconds; undamped springs are cut off here
+  cssLinearStops: 40, // points in the exported CSS linear() function
+} as const;
+
+// Steps Easing Configuration
+export const STEPS_CONFIG = {
+  defaultCount: 4,
+  defaultPosition: 'jump-end',
+  maxCount: 1000, // exports emit a stop per step, so this bounds their size
+} as const;
+
+// Display names of the steps easing jump positions
+export const STEP_POSITION_LABELS: Record<StepPosition, string> = {
+  'jump-start': 'Jump Start',
+  'jump-end': 'Jump End',
+  'jump-none': 'Jump None',
+  'jump-both': 'Jump Both',
+};
+
+// Cubic-bezier easing presets, grouped by where they come from
+export const BEZIER_PRESET_LIBRARY: readonly {
+  group: string;
+  presets: readonly { name: string; easing: CubicBezier }[];
+}[] = [
+  {
+    group: 'CSS',
+    presets: [
+      { name: 'ease', easing: [0.25, 0.1, 0.25, 1] },
+      { name: 'ease-in', easing: [0.42, 0, 1, 1] },
+      { name: 'ease-out', easing: [0, 0, 0.58, 1] },
+      { name: 'ease-in-out', easing: [0.42, 0, 0.58, 1] },
+    ],
+  },
+  {
+    group: 'Material',
+    presets: [
+      { name: 'Standard', easing: [0.4, 0, 0.2, 1] },
+      { name: 'Decelerate', easing: [0, 0, 0.2, 1] },
+      { name: 'Accelerate', easing: [0.4, 0, 1, 1] },
+      { name: 'Sharp', easing: [0.4, 0, 0.6, 1] },
+      { name: 'Emphasized decelerate', easing: [0.05, 0.7, 0.1, 1] },
+      { name: 'Emphasized accelerate', easing: [0.3, 0, 0.8, 0.15] },
+    ],
+  },
+  {
+    group: 'iOS',
+    presets: [
+      { name: 'Default', easing: [0.25, 0.1, 0.25, 1] },
+      { name: 'Ease in-out', easing: [0.42, 0, 0.58, 1] },
+      { name: 'Sheet', easing: [0.32, 0.72, 0, 1] },
+    ],
+  },
+  {
+    group: 'Penner',
+    presets: [
+      { name: 'easeInSine', easing: [0.12, 0, 0.39, 0] },
+      { name: 'easeOutSine', easing: [0.61, 1, 0.88, 1] },
+      { name: 'easeInOutSine', easing: [0.37, 0, 0.63, 1] },
+      { name: 'easeInQuad', easing: [0.11, 0, 0.5, 0] },
+      { name: 'easeOutQuad', easing: [0.5, 1, 0.89, 1] },
+      { name: 'easeInOutQuad', easing: [0.45, 0, 0.55, 1] },
+      { name: 'easeInCubic', easing: [0.32, 0, 0.67, 0] },
+      { name: 'easeOutCubic', easing: [0.33, 1, 0.68, 1] },
+      { name: 'easeInOutCubic', easing: [0.65, 0, 0.35, 1] },
+      { name: 'easeInExpo', easing: [0.7, 0, 0.84, 0] },
+      { name: 'easeOutExpo', easing: [0.16, 1, 0.3, 1] },
+      { name: 'easeInOutExpo', easing: [0.87, 0, 0.13, 1] },
+      { name: 'easeInBack', easing: [0.36, 0, 0.66, -0.56] },
+      { name: 'easeOutBack', easing: [0.34, 1.56, 0.64, 1] },
+      { name: 'easeInOutBack', easing: [0.68, -0.6, 0.32, 1.6] },
+    ],
+  },
+];
+
+// Canvas Transform Gizmo Configuration
+export const TRANSFORM_CONFIG = {
+  handleSize: 8, // px, resize handles
+  rotateHandleOffset: 24, // px above the top edge
+  scaleHandleOffset: 16, // px beyond the bottom-right corner
+  minSize: 1, // px
+  minScale: 0.01,
+  rotationSnap: 15, // degrees, with Shift held
+} as const;
+
+// Display names of the canvas drags, used as undo labels
+export const TRANSFORM_MODE_LABELS: Record<TransformMode, string> = {
+  move: 'Move layer',
+  resize: 'Resize layer',
+  rotate: 'Rotate layer',
+  scale: 'Scale layer',
+};
+
+// Motion Path Configuration
+export const MOTION_PATH_CONFIG = {
+  arcLengthSamples: 32, // per segment, for constant-speed travel
+  bakeSteps: 60, // samples when exporting a path as separate x/y keyframes
+  anchorRadius: 5, // px
+  handleRadius: 4, // px
+} as const;
+
+// Layer Hierarchy Configuration
+export const LAYER_CONFIG = {
+  defaultAnchor: { x: 0.5, y: 0.5 }, // box center
+  treeIndent: 16, // px per nesting level in the layer panel
+} as const;
+
+// Display names of the layer kinds
+export const LAYER_KIND_LABELS: Record<LayerKind, string> = {
+  shape: 'Shape',
+  group: 'Group',
+};
+
+// Playback Configuration
+export const PLAYBACK_CONFIG = {
+  defaultRate: 1,
+  minRate: 0.1,
+  maxRate: 4,
+  rateStep: 0.1,
+} as const;
+
+// Display names of the playback modes
+export const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+  loop: 'Loop',
+  'ping-pong': 'Ping-pong',
+  once: 'Play once',
+};
+
+// Display names of the easings auto-key can give the keyframes it adds
+export const AUTO_KEY_EASING_LABELS: Record<
+  Extract<EasingFunction, string>,
+  string
+> = {
+  linear: 'Linear',
+  'ease-in': 'Ease In',
+  'ease-out': 'Ease Out',
+  'ease-in-out': 'Ease In-Out',
+  hold: 'Hold',
+};
+
+// Onion Skin Configuration
+export const ONION_SKIN_CONFIG = {
+  maxCount: 10, // ghosts on each side of the playhead
+  maxSpacing: 60, // frames
 } as const;
 
+// Onion skin settings of a new session
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  mode: 'frames',
+  before: 2,
+  after: 2,
+  spacing: 3,
+  beforeColor: '#EF4444',
+  afterColor: '#22C55E',
+  opacity: 0.4,
+  falloff: 0.6,
+};
+
+// Display names of the onion skin modes
+export const ONION_SKIN_MODE_LABELS: Record<OnionSkinMode, string> = {
+  frames: 'Frames',
+  keyframes: 'Keyframes',
+};
+
+// Timeline Marker Configuration
+export const MARKER_CONFIG = {
+  defaultRegionLength: 1000, // ms, when no keyframes are selected
+} as const;
+
+// Graph Editor Configuration
+export const GRAPH_CONFIG = {
+  height: 240, // px
+  padding: 0.1, // room above and below the curves, as a fraction of the range
+  samplesPerPx: 0.5, // curve samples per pixel of timeline
+  gridLines: 5, // preferred number of value grid lines
+  pointRadius: 4, // px
+  handleRadius: 3, // px
+} as const;
+
+// Display names of the times a drag can snap to
+export const SNAP_TARGET_LABELS: Record<SnapTargetKind, string> = {
+  playhead: 'Playhead',
+  keyframe: 'Keyframe',
+  marker: 'Marker',
+  tick: 'Ruler tick',
+  frame: 'Frame',
+};
+
+// History Configuration
+export const HISTORY_CONFIG = {
+  maxEntries: 100, // oldest steps are dropped beyond this
+} as const;
+
+// Animatable layer properties, in timeline order
+export const ANIMATABLE_PROPERTIES: readonly AnimatablePropertyKey[] = [
+  'x',
+  'y',
+  'width',
+  'height',
+  'opacity',
+  'rotation',
+  'scale',
+];
+
+// Shape Configuration
+export const SHAPE_CONFIG = {
+  defaultCornerRadius: 16, // px
+  defaultSides: 6,
+  defaultStarPoints: 5,
+  defaultInnerRadius: 0.5, // fraction of the outer radius
+  defaultPath: 'M5 35 H60 V10 L95 50 L60 90 V65 H5 Z', // arrow
+  pathBoxSize: 100, // path data is authored in a 100×100 box
+  minVertices: 3,
+} as const;
+
+// Display names of the available layer shapes
+export const SHAPE_LABELS: Record<ShapeType, string> = {
+  rectangle: 'Rectangle',
+  'rounded-rectangle': 'Rounded Rectangle',
+  ellipse: 'Ellipse',
+  polygon: 'Polygon',
+  star: 'Star',
+  path: 'Path',
+};
+
+// Display names of the color spaces colors can be blended in
+export const COLOR_INTERPOLATION_LABELS: Record<ColorInterpolation, string> = {
+  srgb: 'sRGB',
+  hsl: 'HSL',
+  oklab: 'OKLab',
+};
+
 // UI Configuration
 export const UI_CONFIG = {
   layerPanelWidth: 256, // w-64 in Tailwind
   exportPanelWidth: 256, // w-64 in Tailwind
   timelineHeight: 300,
   keyframeSize: 12, // w-3 h-3 in Tailwind
+  dragThreshold: 3, // px the pointer must travel before a press becomes a drag
 } as const;
 
 // Export Configuration
@@ -49,9 +357,65 @@ export const EXPORT_CONFIG = {
       extension: 'json',
       mimeType: 'application/json',
     },
+    html: {
+      extension: 'html',
+      mimeType: 'text/html',
+    },
+    js: {
+      extension: 'js',
+      mimeType: 'text/javascript',
+    },
+    lottie: {
+      extension: 'json',
+      mimeType: 'application/json',
+    },
+    gif: {
+      extension: 'gif',
+      mimeType: 'image/gif',
+    },
+    apng: {
+      extension: 'png',
+      mimeType: 'image/apng',
+    },
+    'png-zip': {
+      extension: 'zip',
+      mimeType: 'application/zip',
+    },
   },
 } as const;
 
+// Raster Export Configuration
+export const RASTER_EXPORT_CONFIG = {
+  fpsOptions: [10, 12, 15, 24, 25, 30, 50, 60],
+  scales: [0.25, 0.5, 1, 2], // output pixels per artboard pixel
+  gif: {
+    maxFps: 50, // players slow down delays under 2 hundredths of a second
+    maxColors: 256,
+    alphaThreshold: 128, // alpha at which a pixel counts as opaque
+  },
+} as const;
+
+// Display names of the raster export formats
+export const RASTER_FORMAT_LABELS: Record<RasterFormat, string> = {
+  gif: 'Animated GIF',
+  apng: 'Animated PNG',
+  'png-zip': 'PNG frames (zip)',
+};
+
+// Project File Configuration
+export const PROJECT_FILE_CONFIG = {
+  currentVersion: '1.8',
+  maxReportedIssues: 50,
+} as const;
+
+// Autosave Configuration
+export const AUTOSAVE_CONFIG = {
+  databaseName: 'animation-studio',
+  storeName: 'autosave',
+  debounceMs: 1000,
+  maxSnapshots: 5, // rolling; the oldest is dropped when exceeded
+} as const;
+
 // Default Colors for Layers
 export const DEFAULT_COLORS = [
   '#3B82F6', // blue-500
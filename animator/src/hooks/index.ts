@@ -1 +1,5 @@
-export { useAnimationLoop } from './useAnimationLoop'; 
\ No newline at end of file
+export { useAnimationLoop } from './useAnimationLoop';
+export { useHistory } from './useHistory';
+export { useKeyboardShortcuts } from './useKeyboardShortcuts';
+export type { KeyboardShortcut } from './useKeyboardShortcuts';
+export { useAutosave } from './useAutosave';
@@ -1,33 +1,79 @@
 import { useEffect, useRef } from 'react';
+import { advancePlayback, getPlaybackStartTime } from '../utils/playback';
+import { PLAYBACK_CONFIG } from '../constants';
+import type { LoopRange, PlaybackMode } from '../types';
 
 interface UseAnimationLoopProps {
   isPlaying: boolean;
   duration: number;
+  currentTime: number; // Playback resumes from here
+  loopRange?: LoopRange | null; // Loops between in and out instead of 0 and duration
+  playbackRate?: number;
+  playbackMode?: PlaybackMode;
+  isReversed?: boolean;
   onTimeUpdate: (time: number) => void;
+  onFinish?: () => void; // Called when play-once reaches the end
 }
 
+/**
+ * Advances the playhead every animation frame while playing. The loop
+ * restarts from the latest playhead whenever its settings change, so
+ * changing speed or mode mid-playback carries on from the same spot.
+ */
 export const useAnimationLoop = ({
   isPlaying,
   duration,
+  currentTime,
+  loopRange,
+  playbackRate = PLAYBACK_CONFIG.defaultRate,
+  playbackMode = 'loop',
+  isReversed = false,
   onTimeUpdate,
+  onFinish,
 }: UseAnimationLoopProps) => {
+  const loopStart = loopRange ? loopRange.start : 0;
+  const loopEnd = loopRange ? loopRange.end : duration;
+
   const animationFrameRef = useRef<number | undefined>(undefined);
-  const startTimeRef = useRef<number | undefined>(undefined);
+  const currentTimeRef = useRef(currentTime);
+
+  useEffect(() => {
+    currentTimeRef.current = currentTime;
+  });
 
   useEffect(() => {
-    if (!isPlaying) {
-      startTimeRef.current = undefined;
-      return;
-    }
+    if (!isPlaying) return;
+
+    const range = { start: loopStart, end: loopEnd };
+    let direction: 1 | -1 = isReversed ? -1 : 1;
+    let time = getPlaybackStartTime(
+      currentTimeRef.current,
+      direction,
+      playbackMode,
+      range,
+    );
+    let lastTimestamp: number | undefined;
 
     const animate = (timestamp: number) => {
-      if (!startTimeRef.current) {
-        startTimeRef.current = timestamp;
-      }
+      const elapsed =
+        lastTimestamp === undefined ? 0 : timestamp - lastTimestamp;
+      lastTimestamp = timestamp;
+
+      const step = advancePlayback(
+        time,
+        direction,
+        elapsed * playbackRate,
+        playbackMode,
+        range,
+      );
+      time = step.time;
+      direction = step.direction;
+      onTimeUpdate(time);
 
-      const elapsed = (timestamp - startTimeRef.current) % duration;
-      onTimeUpdate(elapsed);
-      
+      if (step.isFinished) {
+        onFinish?.();
+        return;
+      }
       animationFrameRef.current = requestAnimationFrame(animate);
     };
 
@@ -38,14 +84,22 @@ export const useAnimationLoop = ({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [isPlaying, duration, onTimeUpdate]);
+  }, [
+    isPlaying,
+    loopStart,
+    loopEnd,
+    playbackRate,
+    playbackMode,
+    isReversed,
+    onTimeUpdate,
+    onFinish,
+  ]);
 
   return {
     stop: () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
-      startTimeRef.current = undefined;
     },
   };
 }; 
\ No newline at end of file
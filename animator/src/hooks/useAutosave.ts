@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearAutosaveSnapshots,
+  loadAutosaveSnapshots,
+  saveAutosaveSnapshot,
+} from '../utils/autosave';
+import { serializeProject } from '../utils/projectFile';
+import { isSameSnapshot } from '../utils/history';
+import { AUTOSAVE_CONFIG } from '../constants';
+import type {
+  AutosaveSnapshot,
+  ImportIssue,
+  ProjectSnapshot,
+  UnreadableSnapshot,
+} from '../types';
+
+/**
+ * Saves the project to IndexedDB shortly after every change and offers the
+ * latest snapshot for recovery on start. Saving stays paused until the
+ * recovery offer is resolved so the snapshot is not overwritten first.
+ * Resolving it, by restoring or discarding, deletes the stored snapshots so
+ * the offer does not return; a restored project is then saved afresh. A
+ * snapshot that cannot be restored is rejected instead, which keeps the
+ * store and offers the next older snapshot along with the reasons.
+ */
+export const useAutosave = ({
+  layers,
+  duration,
+  fps,
+  markers,
+  easingPresets,
+  artboard,
+}: ProjectSnapshot) => {
+  // Snapshots still on offer, newest first
+  const [snapshots, setSnapshots] = useState<AutosaveSnapshot[]>([]);
+  const [unreadable, setUnreadable] = useState<UnreadableSnapshot | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const latestRef = useRef({
+    layers,
+    duration,
+    fps,
+    markers,
+    easingPresets,
+    artboard,
+  });
+  const lastSavedRef = useRef({
+    layers,
+    duration,
+    fps,
+    markers,
+    easingPresets,
+    artboard,
+  });
+  const isReadyRef = useRef(false);
+
+  useEffect(() => {
+    latestRef.current = {
+      layers,
+      duration,
+      fps,
+      markers,
+      easingPresets,
+      artboard,
+    };
+    isReadyRef.current = isReady;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadAutosaveSnapshots()
+      .then((snapshots) => {
+        if (cancelled) return;
+        if (snapshots.length > 0) {
+          setSnapshots(snapshots);
+        } else {
+          setIsReady(true);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to read autosave snapshots:', error);
+        if (!cancelled) setIsReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Saves immediately if the project changed since the last save. */
+  const flush = useCallback(() => {
+    if (!isReadyRef.current) return;
+
+    const latest = latestRef.current;
+    if (isSameSnapshot(latest, lastSavedRef.current)) return;
+
+    lastSavedRef.current = latest;
+    const project = JSON.stringify(serializeProject(latest));
+    saveAutosaveSnapshot(project).catch((error) => {
+      console.error('Autosave failed:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const timeoutId = window.setTimeout(flush, AUTOSAVE_CONFIG.debounceMs);
+    return () => window.clearTimeout(timeoutId);
+  }, [layers, duration, fps, markers, easingPresets, artboard, isReady, flush]);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [isReady, flush]);
+
+  const resolveRecovery = useCallback(() => {
+    setSnapshots([]);
+    setUnreadable(null);
+    clearAutosaveSnapshots()
+      .catch((error) => {
+        console.error('Failed to clear autosave snapshots:', error);
+      })
+      .finally(() => setIsReady(true));
+  }, []);
+
+  /** Moves past the offered snapshot, keeping why it could not be read. */
+  const rejectRecovery = useCallback(
+    (issues: ImportIssue[]) => {
+      if (snapshots.length === 0) return;
+      setUnreadable({ savedAt: snapshots[0].savedAt, issues });
+      setSnapshots(snapshots.slice(1));
+    },
+    [snapshots],
+  );
+
+  return {
+    recovery: snapshots[0] ?? null,
+    unreadable,
+    resolveRecovery,
+    rejectRecovery,
+    flush,
+  };
+};
@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { AppState } from '../types';
+import {
+  ANIMATION_CONFIG,
+  DEFAULT_ARTBOARD,
+  DEFAULT_ONION_SKIN,
+  PLAYBACK_CONFIG,
+} from '../constants';
+import { createNewLayer } from '../utils/layer';
+import { useHistory } from './useHistory';
+
+const initialState: AppState = {
+  layers: [],
+  selectedLayerId: null,
+  selectedPropertyKey: null,
+  selectedKeyframeInfo: null,
+  selectedKeyframes: [],
+  currentTime: 0,
+  isPlaying: false,
+  playbackRate: PLAYBACK_CONFIG.defaultRate,
+  playbackMode: 'loop',
+  isReversed: false,
+  isAutoKey: false,
+  autoKeyEasing: 'linear',
+  onionSkin: DEFAULT_ONION_SKIN,
+  onionSkinLayerIds: [],
+  duration: ANIMATION_CONFIG.defaultDuration,
+  fps: ANIMATION_CONFIG.defaultFps,
+  markers: [],
+  easingPresets: [],
+  artboard: DEFAULT_ARTBOARD,
+  loopRange: null,
+  timelineZoom: ANIMATION_CONFIG.defaultZoom,
+};
+
+const setDuration = (duration: number) => (prev: AppState) => ({
+  ...prev,
+  duration,
+});
+
+describe('useHistory', () => {
+  it('records each commit as a named step that undo and redo walk', () => {
+    const { result } = renderHook(() => useHistory(initialState));
+
+    act(() => result.current.commit('Change duration', setDuration(2000)));
+    act(() =>
+      result.current.commit('Add layer', (prev) => ({
+        ...prev,
+        layers: [createNewLayer('A', 0)],
+      })),
+    );
+    expect(result.current.history.entries.map((entry) => entry.label)).toEqual([
+      'Initial state',
+      'Change duration',
+      'Add layer',
+    ]);
+
+    act(() => result.current.undo());
+    expect(result.current.appState.layers).toEqual([]);
+    expect(result.current.appState.duration).toBe(2000);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.appState.layers).toHaveLength(1);
+  });
+
+  it('folds the commits of a transaction into one step', () => {
+    const { result } = renderHook(() => useHistory(initialState));
+
+    act(() => result.current.beginTransaction('Drag duration'));
+    act(() => result.current.commit('Change duration', setDuration(2000)));
+    act(() => result.current.commit('Change duration', setDuration(3000)));
+    act(() => result.current.endTransaction());
+    act(() => result.current.commit('Change duration', setDuration(4000)));
+
+    const { entries } = result.current.history;
+    expect(entries.map((entry) => entry.label)).toEqual([
+      'Initial state',
+      'Drag duration',
+      'Change duration',
+    ]);
+    expect(entries[1].snapshot.duration).toBe(3000);
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.appState.duration).toBe(initialState.duration);
+  });
+
+  it('records nothing for a transaction or commit that changes nothing', () => {
+    const { result } = renderHook(() => useHistory(initialState));
+
+    act(() => result.current.beginTransaction('Drag duration'));
+    act(() => result.current.commit('Change duration', (prev) => prev));
+    act(() => result.current.endTransaction());
+    act(() =>
+      result.current.commit('Select layer', (prev) => ({
+        ...prev,
+        currentTime: 500,
+      })),
+    );
+
+    expect(result.current.history.entries).toHaveLength(1);
+    expect(result.current.appState.currentTime).toBe(500);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('drops the redoable steps when a new step is committed', () => {
+    const { result } = renderHook(() => useHistory(initialState));
+
+    act(() => result.current.commit('Change duration', setDuration(2000)));
+    act(() => result.current.undo());
+    act(() => result.current.commit('Change duration', setDuration(3000)));
+
+    expect(
+      result.current.history.entries.map((entry) => entry.snapshot.duration),
+    ).toEqual([initialState.duration, 3000]);
+    expect(result.current.canRedo).toBe(false);
+  });
+});
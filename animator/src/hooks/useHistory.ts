@@ -0,0 +1,129 @@
+import { useCallback, useState } from 'react';
+import {
+  amendHistory,
+  createHistory,
+  isSameSnapshot,
+  moveHistoryTo,
+  pushHistory,
+  restoreSnapshot,
+  takeSnapshot,
+} from '../utils/history';
+import type { AppState, HistoryState } from '../types';
+
+interface Transaction {
+  label: string;
+  recorded: boolean; // Whether a step has been pushed for this transaction
+}
+
+interface HistoryStore {
+  present: AppState;
+  history: HistoryState;
+  transaction: Transaction | null;
+}
+
+type StateUpdater = (prev: AppState) => AppState;
+
+/** Moves the history cursor and restores the document recorded there. */
+const travelTo = (store: HistoryStore, index: number): HistoryStore => {
+  const history = moveHistoryTo(store.history, index);
+  if (history.index === store.history.index) return store;
+
+  return {
+    present: restoreSnapshot(
+      store.present,
+      history.entries[history.index].snapshot,
+    ),
+    history,
+    transaction: null,
+  };
+};
+
+/**
+ * Holds the application state together with its undo/redo history.
+ *
+ * `setAppState` changes state without recording anything and is meant for
+ * playback, selection and zoom. `commit` runs a document mutation and records
+ * it as a named step. Between `beginTransaction` and `endTransaction` every
+ * commit is folded into a single step, so a whole drag undoes at once.
+ */
+export const useHistory = (initialState: AppState) => {
+  const [store, setStore] = useState<HistoryStore>(() => ({
+    present: initialState,
+    history: createHistory(takeSnapshot(initialState)),
+    transaction: null,
+  }));
+
+  const setAppState = useCallback((updater: StateUpdater) => {
+    setStore((prev) => {
+      const present = updater(prev.present);
+      return present === prev.present ? prev : { ...prev, present };
+    });
+  }, []);
+
+  const commit = useCallback((label: string, updater: StateUpdater) => {
+    setStore((prev) => {
+      const present = updater(prev.present);
+      const snapshot = takeSnapshot(present);
+      const current = prev.history.entries[prev.history.index].snapshot;
+
+      if (isSameSnapshot(snapshot, current)) {
+        return present === prev.present ? prev : { ...prev, present };
+      }
+
+      const { transaction } = prev;
+      if (transaction?.recorded) {
+        return {
+          ...prev,
+          present,
+          history: amendHistory(prev.history, snapshot),
+        };
+      }
+
+      return {
+        present,
+        history: pushHistory(
+          prev.history,
+          transaction?.label ?? label,
+          snapshot,
+        ),
+        transaction: transaction && { ...transaction, recorded: true },
+      };
+    });
+  }, []);
+
+  const beginTransaction = useCallback((label: string) => {
+    setStore((prev) => ({ ...prev, transaction: { label, recorded: false } }));
+  }, []);
+
+  const endTransaction = useCallback(() => {
+    setStore((prev) =>
+      prev.transaction ? { ...prev, transaction: null } : prev,
+    );
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setStore((prev) => travelTo(prev, index));
+  }, []);
+
+  const undo = useCallback(() => {
+    setStore((prev) => travelTo(prev, prev.history.index - 1));
+  }, []);
+
+  const redo = useCallback(() => {
+    setStore((prev) => travelTo(prev, prev.history.index + 1));
+  }, []);
+
+  return {
+    appState: store.present,
+    history: store.history,
+    canUndo: store.history.index > 0,
+    canRedo: store.history.index < store.history.entries.length - 1,
+    setAppState,
+    commit,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    jumpTo,
+  };
+};
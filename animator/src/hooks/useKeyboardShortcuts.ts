@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+
+export interface KeyboardShortcut {
+  key: string; // Compared case-insensitively against KeyboardEvent.key
+  ctrl?: boolean; // Ctrl on Windows/Linux, Cmd on macOS
+  shift?: boolean;
+  alt?: boolean;
+  handler: (event: KeyboardEvent) => boolean | void;
+}
+
+/** Returns true when the event originates from a text field or select. */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+  );
+};
+
+const matches = (shortcut: KeyboardShortcut, event: KeyboardEvent) =>
+  shortcut.key.toLowerCase() === event.key.toLowerCase() &&
+  !!shortcut.ctrl === (event.ctrlKey || event.metaKey) &&
+  !!shortcut.shift === event.shiftKey &&
+  !!shortcut.alt === event.altKey;
+
+/**
+ * Registers global keyboard shortcuts on `window`. Shortcuts are ignored while
+ * the user is typing into a form field. The default action of a matched key
+ * is prevented unless its handler returns false.
+ * @param shortcuts The shortcuts to listen for. The latest array is always used.
+ */
+export const useKeyboardShortcuts = (shortcuts: KeyboardShortcut[]) => {
+  const shortcutsRef = useRef(shortcuts);
+
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      const shortcut = shortcutsRef.current.find((s) => matches(s, event));
+      if (!shortcut) return;
+
+      if (shortcut.handler(event) !== false) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
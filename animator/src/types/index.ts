@@ -1,46 +1,193 @@
-/** Represents an easing function. Can be a predefined string or an array of four numbers for cubic Bezier control points [x1, y1, x2, y2]. */
+/** A damped spring settling from the start value onto the end value. */
+export interface SpringEasing {
+  type: 'spring';
+  mass: number;
+  stiffness: number; // Spring constant k
+  damping: number; // Damping coefficient c
+  velocity: number; // Initial velocity, in segment distances per second
+}
+
+/** Where the jumps of a steps easing happen, as in CSS `steps()`. */
+export type StepPosition =
+  | 'jump-start'
+  | 'jump-end'
+  | 'jump-none'
+  | 'jump-both';
+
+/** Moves through the segment in `count` equal jumps, like CSS `steps()`. */
+export interface StepsEasing {
+  type: 'steps';
+  count: number;
+  position: StepPosition;
+}
+
+/** Cubic Bezier control points [x1, y1, x2, y2], as in CSS `cubic-bezier()`. */
+export type CubicBezier = [number, number, number, number];
+
+/** Represents an easing function. Can be a predefined string, an array of four numbers for cubic Bezier control points [x1, y1, x2, y2], a spring or steps. 'hold' keeps the value until the next keyframe. */
 export type EasingFunction =
   | 'linear'
   | 'ease-in'
   | 'ease-out'
   | 'ease-in-out'
-  | [number, number, number, number];
+  | 'hold'
+  | CubicBezier
+  | SpringEasing
+  | StepsEasing;
 
 /** Represents a single keyframe for an animatable property. */
-export interface Keyframe {
+export interface Keyframe<T = number> {
   id: string;
   time: number; // Time in milliseconds
-  value: number; // Value of the property at this keyframe
+  value: T; // Value of the property at this keyframe
   easing: EasingFunction; // Easing function to use from this keyframe to the next
+  inTangent?: number; // Motion path handle towards the previous point (x/y only)
+  outTangent?: number; // Motion path handle towards the next point (x/y only)
 }
 
 /** Represents a property that can be animated (e.g., 'x', 'y', 'opacity'). */
-export interface AnimatedProperty {
-  keyframes: Keyframe[];
-  defaultValue: number; // Default value if no keyframes or before the first keyframe
+export interface AnimatedProperty<T = number> {
+  keyframes: Keyframe<T>[];
+  defaultValue: T; // Default value if no keyframes or before the first keyframe
+}
+
+/** Color space colors are blended in between keyframes. */
+export type ColorInterpolation = 'srgb' | 'hsl' | 'oklab';
+
+/** An animated color. Keyframe values are hex color strings. */
+export interface ColorProperty extends AnimatedProperty<string> {
+  interpolation: ColorInterpolation;
+}
+
+/** Shape types a layer can be drawn as. */
+export type ShapeType = LayerShape['type'];
+
+/**
+ * The geometry a layer is drawn with inside its x/y/width/height box.
+ * Shape-specific properties are animatable like any other layer property.
+ */
+export type LayerShape =
+  | { type: 'rectangle' }
+  | { type: 'rounded-rectangle'; cornerRadius: AnimatedProperty } // In px
+  | { type: 'ellipse' }
+  | { type: 'polygon'; sides: AnimatedProperty } // Rounded to an integer >= 3
+  | {
+      type: 'star';
+      points: AnimatedProperty; // Rounded to an integer >= 3
+      innerRadius: AnimatedProperty; // Fraction of the outer radius, 0..1
+    }
+  | { type: 'path'; d: string }; // SVG path data in a 100×100 box
+
+/**
+ * Motion path mode of a layer. When enabled, the x/y keyframes are paired
+ * into 2D points joined by cubic bezier segments, whose tangent handles are
+ * stored per axis on the keyframes themselves.
+ */
+export interface MotionPathSettings {
+  enabled: boolean;
+  orientToPath: boolean; // Adds the path direction to `rotation`
+}
+
+/** Whether a layer draws its shape or only transforms its children. */
+export type LayerKind = 'shape' | 'group';
+
+/** Pivot of a layer's rotation and scale, as fractions of its box. */
+export interface LayerAnchor {
+  x: number; // 0 is the left edge, 1 the right edge
+  y: number; // 0 is the top edge, 1 the bottom edge
 }
 
 /** Represents an animation layer. */
 export interface Layer {
   id: string;
   name: string;
+  kind: LayerKind;
+  parentId: string | null; // Layer whose transform and opacity this one inherits
   // Animatable properties
-  x: AnimatedProperty;
+  x: AnimatedProperty; // Relative to the parent's top-left corner
   y: AnimatedProperty;
   width: AnimatedProperty;
   height: AnimatedProperty;
   opacity: AnimatedProperty;
   rotation: AnimatedProperty; // In degrees
   scale: AnimatedProperty; // Uniform scale factor
+  color: ColorProperty; // Hex color strings, e.g., '#FF0000'
   // Non-animated properties
-  color: string; // Hex color string, e.g., '#FF0000'
-  zIndex: number; // Stacking order
+  zIndex: number; // Stacking order among siblings
+  shape: LayerShape; // Not drawn for groups
+  motionPath: MotionPathSettings;
+  anchor: LayerAnchor;
+}
+
+/** Keys of the animatable properties every layer has. */
+export type AnimatablePropertyKey =
+  | 'x'
+  | 'y'
+  | 'width'
+  | 'height'
+  | 'opacity'
+  | 'rotation'
+  | 'scale';
+
+/** Keys of the animatable properties that only some shapes have. */
+export type ShapePropertyKey =
+  | 'cornerRadius'
+  | 'sides'
+  | 'points'
+  | 'innerRadius';
+
+/** Key of any numeric animatable layer property, including shape ones. */
+export type LayerPropertyKey = AnimatablePropertyKey | ShapePropertyKey;
+
+/** Key of any keyframed property of a layer: the numeric ones plus color. */
+export type TrackKey = LayerPropertyKey | 'color';
+
+/** A named point on the timeline, or a named region when it has an end. */
+export interface TimelineMarker {
+  id: string;
+  name: string;
+  time: number; // Start in milliseconds
+  endTime: number | null; // End of a region in milliseconds, null for a point
+}
+
+/** A named cubic-bezier curve saved with the project. */
+export interface EasingPreset {
+  id: string;
+  name: string;
+  easing: CubicBezier;
+}
+
+/** The part of the timeline that playback loops over. */
+export interface LoopRange {
+  start: number; // Loop in, in milliseconds
+  end: number; // Loop out, in milliseconds
+}
+
+/** What playback does at the end of the range. */
+export type PlaybackMode = 'loop' | 'ping-pong' | 'once';
+
+/** The file a raster export produces: an animated image or numbered PNGs. */
+export type RasterFormat = 'gif' | 'apng' | 'png-zip';
+
+/** Where onion skin ghosts are drawn: every few frames, or at keyframes. */
+export type OnionSkinMode = 'frames' | 'keyframes';
+
+/** How ghosts of a layer at nearby times are drawn around the playhead. */
+export interface OnionSkinSettings {
+  mode: OnionSkinMode;
+  before: number; // Ghosts before the playhead
+  after: number; // Ghosts after the playhead
+  spacing: number; // Frames between ghosts, in 'frames' mode
+  beforeColor: string; // Tint of the ghosts before the playhead
+  afterColor: string; // Tint of the ghosts after the playhead
+  opacity: number; // Opacity of the nearest ghosts, 0..1
+  falloff: number; // Opacity kept from one ghost to the next one out, 0..1
 }
 
 /** Information about the currently selected keyframe for editing. */
 export interface SelectedKeyframeInfo {
   layerId: string;
-  propertyKey: keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>;
+  propertyKey: TrackKey;
   keyframeId: string;
 }
 
@@ -48,22 +195,128 @@ export interface SelectedKeyframeInfo {
 export interface AppState {
   layers: Layer[];
   selectedLayerId: string | null;
-  selectedPropertyKey:
-    | keyof Omit<Layer, 'id' | 'name' | 'color' | 'zIndex'>
-    | null; // e.g., 'x', 'opacity'
-  selectedKeyframeInfo: SelectedKeyframeInfo | null;
+  selectedPropertyKey: TrackKey | null; // e.g., 'x', 'opacity'
+  selectedKeyframeInfo: SelectedKeyframeInfo | null; // Open in the keyframe editor
+  selectedKeyframes: SelectedKeyframeInfo[]; // Timeline selection, moved and scaled together
   currentTime: number; // Current time in milliseconds
   isPlaying: boolean;
+  playbackRate: number; // 1 is real time
+  playbackMode: PlaybackMode;
+  isReversed: boolean; // Play starts backward
+  isAutoKey: boolean; // Property edits key the playhead instead of the default value
+  autoKeyEasing: EasingFunction; // Easing of the keyframes auto-key adds
+  onionSkin: OnionSkinSettings;
+  onionSkinLayerIds: string[]; // Layers drawn with onion skin ghosts
   duration: number; // Total animation duration in milliseconds
+  fps: number; // Project frame rate, used for frame snapping and stepping
+  markers: TimelineMarker[];
+  easingPresets: EasingPreset[]; // Custom bezier presets of this project
+  artboard: Artboard;
+  loopRange: LoopRange | null; // Null plays the whole animation
   timelineZoom: number; // Pixels per 100ms
 }
 
+/** The document part of AppState that undo/redo tracks. */
+export interface ProjectSnapshot {
+  layers: Layer[];
+  duration: number;
+  fps: number;
+  markers: TimelineMarker[];
+  easingPresets: EasingPreset[];
+  artboard: Artboard;
+}
+
+/** A single recorded step in the undo/redo history. */
+export interface HistoryEntry {
+  id: string;
+  label: string; // Human readable command name, e.g. 'Add keyframe'
+  timestamp: number;
+  snapshot: ProjectSnapshot; // Document state after the command ran
+}
+
+/** Linear undo/redo history. Entries after `index` can be redone. */
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+/** A layer as stored in the JSON project file. */
+export interface ProjectFileLayer {
+  id: string;
+  name: string;
+  kind: LayerKind;
+  parentId: string | null;
+  color: ColorProperty;
+  zIndex: number;
+  properties: Record<AnimatablePropertyKey, AnimatedProperty>;
+  shape: LayerShape;
+  motionPath: MotionPathSettings;
+  anchor: LayerAnchor;
+}
+
+/** The JSON project file written by the exporter and read by the importer. */
+export interface ProjectFile {
+  version: string;
+  duration: number;
+  fps: number;
+  layers: ProjectFileLayer[];
+  markers: TimelineMarker[];
+  easingPresets: EasingPreset[];
+  artboard: Artboard;
+  exportedAt?: string;
+}
+
+/** A single problem found while importing a project file. */
+export interface ImportIssue {
+  path: string; // Location in the file, e.g. 'layers[0].properties.x.keyframes'
+  message: string;
+}
+
+/** Result of parsing a project file: either the project or every issue found. */
+export type ImportResult =
+  | { ok: true; project: ProjectSnapshot; migratedFrom: string | null }
+  | { ok: false; issues: ImportIssue[] };
+
+/** A project snapshot stored by autosave. */
+export interface AutosaveSnapshot {
+  id: number;
+  savedAt: number; // Unix timestamp in milliseconds
+  project: string; // Serialized ProjectFile JSON
+}
+
+/** An autosave snapshot that could not be restored, and why. */
+export interface UnreadableSnapshot {
+  savedAt: number; // Unix timestamp in milliseconds
+  issues: ImportIssue[];
+}
+
+/** What a dragged time snapped to. 'frame' is the fallback to whole frames. */
+export type SnapTargetKind =
+  | 'playhead'
+  | 'keyframe'
+  | 'marker'
+  | 'tick'
+  | 'frame';
+
+/** What a drag on the canvas transform gizmo changes. */
+export type TransformMode = 'move' | 'resize' | 'rotate' | 'scale';
+
 /** Canvas size configuration */
 export interface CanvasSize {
   width: number;
   height: number;
 }
 
+/** The size and background the animation is drawn and exported at. */
+export interface Artboard extends CanvasSize {
+  background: string | null; // Hex color, or null for a transparent background
+}
+
+/** A common artboard size, such as a phone screen or an ad banner. */
+export interface ArtboardPreset extends CanvasSize {
+  name: string;
+}
+
 /** Export modal props */
 export interface ExportModalProps {
   isOpen: boolean;
@@ -72,4 +325,5 @@ export interface ExportModalProps {
   content: string;
   fileExtension: string;
   mimeType: string;
+  notice?: string; // Shown above the content, such as a verification result
 }
@@ -1,4 +1,6 @@
-import type { EasingFunction, AnimatedProperty } from '../types';
+import type { EasingFunction, AnimatedProperty, Keyframe } from '../types';
+import { evaluateSpring } from './spring';
+import { evaluateSteps } from './steps';
 
 /** Generates a simple unique ID. */
 export const generateId = (): string =>
@@ -84,6 +86,8 @@ export const applyEasing = (
         return t_progress < 0.5
           ? 4 * t_progress * t_progress * t_progress
           : 1 - Math.pow(-2 * t_progress + 2, 3) / 2; // Cubic
+      case 'hold':
+        return 0; // Jumps to the next keyframe's value when it is reached
       default:
         return t_progress;
     }
@@ -93,56 +97,73 @@ export const applyEasing = (
     if (x1 === y1 && x2 === y2) return t_progress;
     const u = solveCubicBezierParameter(x1, x2, t_progress);
     return calculateCubicBezierY(y1, y2, u);
+  } else if (typeof easing === 'object' && easing.type === 'spring') {
+    return evaluateSpring(easing, t_progress);
+  } else if (typeof easing === 'object' && easing.type === 'steps') {
+    return evaluateSteps(easing, t_progress);
   }
   return t_progress; // Fallback
 };
 
+/** The keyframes surrounding a point in time. */
+export interface KeyframeSegment<T> {
+  from: Keyframe<T>;
+  to: Keyframe<T> | null; // null before the first or after the last keyframe
+  progress: number; // Eased progress from `from` to `to`
+}
+
 /**
- * Calculates the animated value of a property at a specific time.
- * @param property The AnimatedProperty object.
+ * Finds the keyframes surrounding a time and the eased progress between them.
+ * Outside the keyframed range the nearest keyframe is returned with no `to`.
+ * @param keyframes Keyframes sorted by time.
  * @param time The current time in milliseconds.
- * @returns The interpolated value.
+ * @returns The segment, or null when there are no keyframes.
  */
-export const getAnimatedValueAtTime = (
-  property: AnimatedProperty,
+export const findKeyframeSegment = <T>(
+  keyframes: Keyframe<T>[],
   time: number,
-): number => {
-  const { keyframes, defaultValue } = property;
-
+): KeyframeSegment<T> | null => {
   if (keyframes.length === 0) {
-    return defaultValue;
+    return null;
   }
 
   // Keyframes should be sorted by time. Assume they are for performance.
-  const sortedKeyframes = keyframes;
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
 
-  if (time <= sortedKeyframes[0].time) {
-    return sortedKeyframes[0].value;
+  if (time <= first.time) {
+    return { from: first, to: null, progress: 0 };
   }
 
-  if (time >= sortedKeyframes[sortedKeyframes.length - 1].time) {
-    return sortedKeyframes[sortedKeyframes.length - 1].value;
+  if (time >= last.time) {
+    return { from: last, to: null, progress: 0 };
   }
 
-  let prevKeyframe = null;
-  let nextKeyframe = null;
+  let index = 0;
+  while (keyframes[index + 1].time <= time) index++;
 
-  for (const kf of sortedKeyframes) {
-    if (kf.time <= time) {
-      prevKeyframe = kf;
-    } else {
-      nextKeyframe = kf;
-      break;
-    }
-  }
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const t_progress = (time - from.time) / (to.time - from.time);
+  return { from, to, progress: applyEasing(t_progress, from.easing) };
+};
+
+/**
+ * Calculates the animated value of a property at a specific time.
+ * @param property The AnimatedProperty object.
+ * @param time The current time in milliseconds.
+ * @returns The interpolated value.
+ */
+export const getAnimatedValueAtTime = (
+  property: AnimatedProperty,
+  time: number,
+): number => {
+  const segment = findKeyframeSegment(property.keyframes, time);
 
-  if (!prevKeyframe || !nextKeyframe) {
-    return defaultValue;
+  if (!segment) {
+    return property.defaultValue;
   }
 
-  const timeDelta = nextKeyframe.time - prevKeyframe.time;
-  const valueDelta = nextKeyframe.value - prevKeyframe.value;
-  const t_progress = (time - prevKeyframe.time) / timeDelta;
-  const easedProgress = applyEasing(t_progress, prevKeyframe.easing);
-  return prevKeyframe.value + easedProgress * valueDelta;
+  const { from, to, progress } = segment;
+  return to ? from.value + progress * (to.value - from.value) : from.value;
 };
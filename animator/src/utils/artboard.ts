@@ -0,0 +1,52 @@
+import type { Artboard, CanvasSize } from '../types';
+import { ARTBOARD_CONFIG } from '../constants';
+
+/**
+ * Rounds an artboard side to whole pixels within the supported range.
+ * @param size The side length in px.
+ * @returns The clamped length.
+ */
+export const clampArtboardSize = (size: number): number =>
+  Number.isFinite(size)
+    ? Math.max(
+        ARTBOARD_CONFIG.minSize,
+        Math.min(ARTBOARD_CONFIG.maxSize, Math.round(size)),
+      )
+    : ARTBOARD_CONFIG.minSize;
+
+/**
+ * Applies changes to an artboard, keeping its size in range.
+ * @param artboard The current artboard.
+ * @param changes The changed fields.
+ * @returns The updated artboard.
+ */
+export const updateArtboard = (
+  artboard: Artboard,
+  changes: Partial<Artboard>,
+): Artboard => {
+  const next = { ...artboard, ...changes };
+  return {
+    ...next,
+    width: clampArtboardSize(next.width),
+    height: clampArtboardSize(next.height),
+  };
+};
+
+/**
+ * Works out the zoom that shows the whole artboard inside a viewport.
+ * @param size The artboard size.
+ * @param viewport The size of the area it is shown in.
+ * @param padding Room kept free on every side, in px.
+ * @returns The zoom factor, where 1 is one artboard pixel per screen pixel.
+ */
+export const getFitZoom = (
+  size: CanvasSize,
+  viewport: CanvasSize,
+  padding: number,
+): number => {
+  const zoom = Math.min(
+    (viewport.width - 2 * padding) / size.width,
+    (viewport.height - 2 * padding) / size.height,
+  );
+  return zoom > 0 ? zoom : 1;
+};
@@ -0,0 +1,85 @@
+import type { AnimatedProperty, AppState, EasingFunction } from '../types';
+import { generateId } from './animation';
+
+/** How an edit to a property value is written into the property. */
+export interface KeyingOptions {
+  time: number; // Playhead time in milliseconds
+  isAutoKey: boolean;
+  easing: EasingFunction; // Easing of the keyframes auto-key adds
+}
+
+/**
+ * Reads the keying options of the app: edits go to the playhead, rounded to
+ * a whole millisecond like keyframes added on the timeline.
+ * @param state The app state.
+ * @returns The keying options.
+ */
+export const getKeyingOptions = (state: AppState): KeyingOptions => ({
+  time: Math.round(state.currentTime),
+  isAutoKey: state.isAutoKey,
+  easing: state.autoKeyEasing,
+});
+
+/**
+ * Sets a property's value at a time: the keyframe at that time is updated,
+ * or a new one is added when there is none.
+ * @param property The property.
+ * @param time The time in milliseconds.
+ * @param value The new value.
+ * @param easing Easing of a new keyframe. By default it takes the easing of
+ * the segment it splits.
+ * @returns The updated property.
+ */
+export const setValueAtTime = <T, P extends AnimatedProperty<T>>(
+  property: P,
+  time: number,
+  value: T,
+  easing?: EasingFunction,
+): P => {
+  const existing = property.keyframes.find((kf) => kf.time === time);
+  if (existing) {
+    return {
+      ...property,
+      keyframes: property.keyframes.map((kf) =>
+        kf === existing ? { ...kf, value } : kf,
+      ),
+    };
+  }
+
+  const previous = property.keyframes.filter((kf) => kf.time < time).pop();
+  return {
+    ...property,
+    keyframes: [
+      ...property.keyframes,
+      {
+        id: generateId(),
+        time,
+        value,
+        easing: easing ?? previous?.easing ?? 'linear',
+      },
+    ].sort((a, b) => a.time - b.time),
+  };
+};
+
+/**
+ * Writes an edited value into a property. With auto-key on, the value is
+ * keyed at the playhead with the auto-key easing. With it off, a property
+ * without keyframes takes it as its default value, while a keyframed one is
+ * still keyed so the edit shows.
+ * @param property The property.
+ * @param value The new value.
+ * @param options How the edit is written.
+ * @returns The updated property.
+ */
+export const setPropertyValue = <T, P extends AnimatedProperty<T>>(
+  property: P,
+  value: T,
+  options: KeyingOptions,
+): P => {
+  if (options.isAutoKey) {
+    return setValueAtTime(property, options.time, value, options.easing);
+  }
+  return property.keyframes.length > 0
+    ? setValueAtTime(property, options.time, value)
+    : { ...property, defaultValue: value };
+};
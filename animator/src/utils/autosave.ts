@@ -0,0 +1,87 @@
+import type { AutosaveSnapshot } from '../types';
+import { AUTOSAVE_CONFIG } from '../constants';
+
+/** Wraps an IndexedDB request in a promise. */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Opens the autosave database, creating the snapshot store on first use. */
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(AUTOSAVE_CONFIG.databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(AUTOSAVE_CONFIG.storeName, {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Stores a serialized project as the newest snapshot and drops the oldest
+ * ones beyond `AUTOSAVE_CONFIG.maxSnapshots`.
+ * @param project The serialized ProjectFile JSON.
+ */
+export const saveAutosaveSnapshot = async (project: string): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    const store = db
+      .transaction(AUTOSAVE_CONFIG.storeName, 'readwrite')
+      .objectStore(AUTOSAVE_CONFIG.storeName);
+
+    await requestToPromise(store.add({ savedAt: Date.now(), project }));
+
+    // Keys are auto-incremented, so ascending key order is oldest first.
+    const keys = await requestToPromise(store.getAllKeys());
+    const excess = keys.length - AUTOSAVE_CONFIG.maxSnapshots;
+    for (const key of keys.slice(0, Math.max(0, excess))) {
+      await requestToPromise(store.delete(key));
+    }
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Loads every stored snapshot, newest first.
+ * @returns The snapshots, or an empty list when none exist.
+ */
+export const loadAutosaveSnapshots = async (): Promise<AutosaveSnapshot[]> => {
+  const db = await openDatabase();
+  try {
+    const store = db
+      .transaction(AUTOSAVE_CONFIG.storeName, 'readonly')
+      .objectStore(AUTOSAVE_CONFIG.storeName);
+    const snapshots = await requestToPromise<AutosaveSnapshot[]>(
+      store.getAll(),
+    );
+    return snapshots.sort((a, b) => b.id - a.id);
+  } finally {
+    db.close();
+  }
+};
+
+/** Deletes every stored snapshot. */
+export const clearAutosaveSnapshots = async (): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    await requestToPromise(
+      db
+        .transaction(AUTOSAVE_CONFIG.storeName, 'readwrite')
+        .objectStore(AUTOSAVE_CONFIG.storeName)
+        .clear(),
+    );
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,215 @@
+import type { ColorInterpolation, ColorProperty } from '../types';
+import { findKeyframeSegment } from './animation';
+
+/** A color with red, green, blue and alpha channels in the 0..1 range. */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const HEX_COLOR_PATTERN =
+  /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/** Returns true for #rgb, #rgba, #rrggbb and #rrggbbaa color strings. */
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+
+/**
+ * Parses a hex color string.
+ * @param hex A #rgb, #rgba, #rrggbb or #rrggbbaa string.
+ * @returns The color, or null if the string is not a hex color.
+ */
+export const parseHexColor = (hex: string): RgbaColor | null => {
+  if (!isHexColor(hex)) return null;
+
+  let digits = hex.slice(1);
+  if (digits.length <= 4) {
+    digits = digits.replace(/./g, (d) => d + d);
+  }
+  const channel = (i: number) =>
+    i < digits.length ? parseInt(digits.slice(i, i + 2), 16) / 255 : 1;
+
+  return { r: channel(0), g: channel(2), b: channel(4), a: channel(6) };
+};
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+const toHexByte = (value: number): string =>
+  Math.round(clamp01(value) * 255)
+    .toString(16)
+    .padStart(2, '0');
+
+/**
+ * Formats a color as #rrggbb, or #rrggbbaa when it is not fully opaque.
+ * Channels outside 0..1 are clamped.
+ */
+export const formatHexColor = ({ r, g, b, a }: RgbaColor): string => {
+  const alpha = Math.round(clamp01(a) * 255) < 255 ? toHexByte(a) : '';
+  return `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}${alpha}`.toUpperCase();
+};
+
+/**
+ * Converts a hex color to the opaque #rrggbb form `<input type="color">`
+ * accepts. Unparseable colors become black.
+ */
+export const toColorInputValue = (hex: string): string => {
+  const color = parseHexColor(hex);
+  return color ? formatHexColor({ ...color, a: 1 }).toLowerCase() : '#000000';
+};
+
+const lerp = (from: number, to: number, t: number): number =>
+  from + (to - from) * t;
+
+const rgbToHsl = ({ r, g, b }: RgbaColor): [number, number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [NaN, 0, l]; // Achromatic: hue is undefined
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d + 6) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [h * 60, s, l];
+};
+
+const hslToRgb = (h: number, s: number, l: number, a: number): RgbaColor => {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    hp < 1
+      ? [c, x, 0]
+      : hp < 2
+        ? [x, c, 0]
+        : hp < 3
+          ? [0, c, x]
+          : hp < 4
+            ? [0, x, c]
+            : hp < 5
+              ? [x, 0, c]
+              : [c, 0, x];
+  return { r: r + m, g: g + m, b: b + m, a };
+};
+
+/** Blends hue along the shorter way around the color wheel. */
+const lerpHue = (from: number, to: number, t: number): number => {
+  if (Number.isNaN(from)) return Number.isNaN(to) ? 0 : to;
+  if (Number.isNaN(to)) return from;
+  const delta = ((((to - from) % 360) + 540) % 360) - 180;
+  return from + delta * t;
+};
+
+const toLinear = (c: number): number =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+const fromLinear = (c: number): number =>
+  c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+// Matrices from Björn Ottosson's OKLab reference implementation.
+const rgbToOklab = (color: RgbaColor): [number, number, number] => {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+const oklabToRgb = (L: number, A: number, B: number, a: number): RgbaColor => {
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    a,
+  };
+};
+
+/**
+ * Blends two hex colors.
+ * @param from The color at t = 0.
+ * @param to The color at t = 1.
+ * @param t Blend progress. Values outside 0..1 (e.g. from overshooting
+ *   easings) extrapolate and are clamped to the sRGB gamut.
+ * @param space The color space to blend in.
+ * @returns The blended color as a hex string.
+ */
+export const interpolateColor = (
+  from: string,
+  to: string,
+  t: number,
+  space: ColorInterpolation,
+): string => {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  if (!a || !b) return t < 1 ? from : to;
+
+  const alpha = lerp(a.a, b.a, t);
+
+  switch (space) {
+    case 'hsl': {
+      const [h1, s1, l1] = rgbToHsl(a);
+      const [h2, s2, l2] = rgbToHsl(b);
+      return formatHexColor(
+        hslToRgb(
+          lerpHue(h1, h2, t),
+          clamp01(lerp(s1, s2, t)),
+          clamp01(lerp(l1, l2, t)),
+          alpha,
+        ),
+      );
+    }
+    case 'oklab': {
+      const [L1, A1, B1] = rgbToOklab(a);
+      const [L2, A2, B2] = rgbToOklab(b);
+      return formatHexColor(
+        oklabToRgb(lerp(L1, L2, t), lerp(A1, A2, t), lerp(B1, B2, t), alpha),
+      );
+    }
+    default:
+      return formatHexColor({
+        r: lerp(a.r, b.r, t),
+        g: lerp(a.g, b.g, t),
+        b: lerp(a.b, b.b, t),
+        a: alpha,
+      });
+  }
+};
+
+/**
+ * Calculates the animated color at a specific time.
+ * @param property The ColorProperty object.
+ * @param time The current time in milliseconds.
+ * @returns The color as a hex string.
+ */
+export const getAnimatedColorAtTime = (
+  property: ColorProperty,
+  time: number,
+): string => {
+  const segment = findKeyframeSegment(property.keyframes, time);
+
+  if (!segment) {
+    return property.defaultValue;
+  }
+
+  const { from, to, progress } = segment;
+  return to
+    ? interpolateColor(from.value, to.value, progress, property.interpolation)
+    : from.value;
+};
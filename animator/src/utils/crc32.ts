@@ -0,0 +1,22 @@
+// CRC-32 (IEEE), as PNG chunks and zip entries use it
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+/**
+ * Computes the CRC-32 of some bytes.
+ * @param bytes The bytes.
+ * @param crc The CRC of the bytes before these, to continue a running CRC.
+ * @returns The CRC as an unsigned 32-bit number.
+ */
+export const crc32 = (bytes: Uint8Array, crc: number = 0): number => {
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+};
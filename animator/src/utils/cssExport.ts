@@ -0,0 +1,581 @@
+import type { Artboard, Keyframe, Layer, TimelineMarker } from '../types';
+import {
+  LAYER_KIND_LABELS,
+  MOTION_PATH_CONFIG,
+  SHAPE_CONFIG,
+  SHAPE_LABELS,
+} from '../constants';
+import { getAnimatedValueAtTime } from './animation';
+import { getAnimatedColorAtTime } from './color';
+import { getChildLayers } from './hierarchy';
+import { getLayerSlug } from './layer';
+import {
+  getMarkerRange,
+  getMarkerSlug,
+  isRegion,
+  sortMarkers,
+} from './markers';
+import { bakeMotionPath } from './motionPath';
+import { sampleLayerAtTime, sortLayersForRendering } from './render';
+import type { LayerFrame } from './render';
+import {
+  formatCssPolygon,
+  getShapeProperty,
+  getShapePropertyKeys,
+} from './shape';
+import { formatSpringAsCssLinear, isSpringEasing } from './spring';
+import { formatStepsAsCss, isDiscreteEasing } from './steps';
+import { getKeyframeStops } from './keyframeStops';
+import type { ExportEasing } from './keyframeStops';
+
+/** The parts of a project the CSS export reads. */
+export interface CssExportInput {
+  layers: Layer[];
+  duration: number;
+  markers: TimelineMarker[];
+  artboard: Artboard;
+}
+
+/** A generated stylesheet and the markup it animates. */
+export interface CssExport {
+  css: string;
+  markup: string; // The artboard element with one nested element per layer
+}
+
+const formatNumber = (value: number): number => +value.toFixed(3);
+
+/** Formats a comment, breaking up any end of comment in the text. */
+const formatCssComment = (text: string): string =>
+  `/* ${text.replace(/\*\//g, '* /')} */`;
+
+/**
+ * Formats an export easing as a CSS timing function. Springs have no CSS
+ * form, so they become a baked `linear()` curve.
+ * @param easing The easing.
+ * @returns A value for `animation-timing-function`, or null for linear.
+ */
+export const formatCssEasing = (easing: ExportEasing): string | null => {
+  if (easing === 'linear') return null;
+  if (isSpringEasing(easing)) return formatSpringAsCssLinear(easing);
+  if (isDiscreteEasing(easing)) return formatStepsAsCss(easing);
+  return `cubic-bezier(${easing.join(', ')})`;
+};
+
+/** One keyframe of a CSS animation. */
+export interface CssKeyframe {
+  offset: number; // 0 to 1
+  easing: string | null; // Timing function up to the next keyframe; null is linear
+  value: string;
+}
+
+/** A CSS animation of one property. */
+export interface CssAnimation {
+  name: string;
+  property: string;
+  keyframes: CssKeyframe[];
+}
+
+/** The style of one layer element, or of the ::before that paints its shape. */
+export interface CssRule {
+  layer: Layer;
+  pseudoElement: '::before' | null;
+  declarations: string[]; // Everything but the animations, values at time 0
+  animations: CssAnimation[];
+}
+
+/** The elements of a CSS export and how each is styled and animated. */
+export interface CssDocument {
+  markup: string; // The artboard element with one nested element per layer
+  artboardCss: string;
+  rules: CssRule[]; // In document order
+  markerCss: string[];
+}
+
+/** A layer's CSS animation of one property, driven by one or more tracks. */
+interface CssTrack {
+  name: string;
+  property: string;
+  tracks: Keyframe<unknown>[][];
+  canBlend: boolean;
+  valueOf: (frame: LayerFrame, time: number) => string;
+}
+
+/**
+ * Lists the keyframes of a track, or nothing when it holds one value
+ * throughout.
+ */
+const getCssKeyframes = (
+  layer: Layer,
+  track: CssTrack,
+  duration: number,
+): CssKeyframe[] | null => {
+  if (track.tracks.every((keyframes) => keyframes.length === 0)) return null;
+
+  const keyframes = getKeyframeStops(track.tracks, duration, {
+    canBlend: track.canBlend,
+    canExpress: () => true,
+  }).map(({ time, easing, sampleTime }) => ({
+    offset: time / duration,
+    easing: formatCssEasing(easing),
+    value: track.valueOf(sampleLayerAtTime(layer, sampleTime), sampleTime),
+  }));
+  return keyframes.every(({ value }) => value === keyframes[0].value)
+    ? null
+    : keyframes;
+};
+
+const formatTransform = ({ x, y, rotation, scale }: LayerFrame): string =>
+  `translate(${formatNumber(x)}px, ${formatNumber(y)}px) rotate(${formatNumber(rotation)}deg) scale(${formatNumber(scale)})`;
+
+/**
+ * Lists the animations of the layer element: its box, placed by one
+ * transform that pivots around the anchor like formatLayerTransform, and
+ * its opacity, which applies to its children too.
+ */
+const getBoxTracks = (layer: Layer): CssTrack[] => [
+  {
+    name: 'transform',
+    property: 'transform',
+    tracks: [layer.x, layer.y, layer.rotation, layer.scale].map(
+      (property) => property.keyframes,
+    ),
+    canBlend: true,
+    valueOf: formatTransform,
+  },
+  {
+    name: 'width',
+    property: 'width',
+    tracks: [layer.width.keyframes],
+    canBlend: true,
+    valueOf: (frame) => `${formatNumber(frame.width)}px`,
+  },
+  {
+    name: 'height',
+    property: 'height',
+    tracks: [layer.height.keyframes],
+    canBlend: true,
+    valueOf: (frame) => `${formatNumber(frame.height)}px`,
+  },
+  {
+    name: 'opacity',
+    property: 'opacity',
+    tracks: [layer.opacity.keyframes],
+    canBlend: true,
+    valueOf: (frame) => `${formatNumber(frame.opacity)}`,
+  },
+];
+
+/**
+ * Lists the animations of the layer's painted shape. Corner radii are left
+ * unclamped since CSS shrinks overlapping radii to the same result. Vertex
+ * counts round to whole numbers, so polygons are always sampled.
+ */
+const getShapeTracks = (layer: Layer): CssTrack[] => {
+  const { shape, color } = layer;
+  const colorTrack: CssTrack = {
+    name: 'color',
+    property: 'background-color',
+    tracks: [color.keyframes],
+    canBlend: color.interpolation === 'srgb',
+    valueOf: (_, time) => getAnimatedColorAtTime(color, time),
+  };
+
+  switch (shape.type) {
+    case 'rounded-rectangle':
+      return [
+        colorTrack,
+        {
+          name: 'radius',
+          property: 'border-radius',
+          tracks: [shape.cornerRadius.keyframes],
+          canBlend: true,
+          valueOf: (_, time) =>
+            `${formatNumber(
+              Math.max(0, getAnimatedValueAtTime(shape.cornerRadius, time)),
+            )}px`,
+        },
+      ];
+    case 'polygon':
+    case 'star':
+      return [
+        colorTrack,
+        {
+          name: 'shape',
+          property: 'clip-path',
+          tracks: getShapePropertyKeys(shape).map(
+            (key) => getShapeProperty(shape, key)?.keyframes ?? [],
+          ),
+          canBlend: false,
+          valueOf: ({ geometry }) =>
+            geometry.kind === 'polygon'
+              ? formatCssPolygon(geometry.points)
+              : 'none',
+        },
+      ];
+    default:
+      return [colorTrack];
+  }
+};
+
+/** Declarations of the shape that never animate. */
+const getStaticShapeDeclarations = (layer: Layer): string[] => {
+  const { shape } = layer;
+  switch (shape.type) {
+    case 'ellipse':
+      return ['border-radius: 50%;'];
+    case 'path': {
+      const size = SHAPE_CONFIG.pathBoxSize;
+      const mask = `url("data:image/svg+xml,${encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" preserveAspectRatio="none"><path d="${shape.d}"/></svg>`,
+      )}") center / 100% 100% no-repeat`;
+      return [`-webkit-mask: ${mask};`, `mask: ${mask};`];
+    }
+    default:
+      return [];
+  }
+};
+
+/** Builds a rule from its static declarations and its tracks. */
+const createRule = (
+  layer: Layer,
+  pseudoElement: CssRule['pseudoElement'],
+  declarations: string[],
+  tracks: CssTrack[],
+  duration: number,
+): CssRule => {
+  const frame = sampleLayerAtTime(layer, 0);
+  return {
+    layer,
+    pseudoElement,
+    declarations: [
+      ...declarations,
+      ...tracks.map(
+        (track) => `${track.property}: ${track.valueOf(frame, 0)};`,
+      ),
+    ],
+    animations: tracks.flatMap((track) => {
+      const keyframes = getCssKeyframes(layer, track, duration);
+      return keyframes
+        ? [
+            {
+              name: `${getLayerSlug(layer)}-${track.name}`,
+              property: track.property,
+              keyframes,
+            },
+          ]
+        : [];
+    }),
+  };
+};
+
+/**
+ * Lists the rules of a layer. The element is the layer's box, which its
+ * children nest inside; the shape is painted by a ::before underneath them,
+ * so clipping and masking the shape leaves the children alone. Groups only
+ * transform their children and paint nothing.
+ */
+const getLayerRules = (layer: Layer, duration: number): CssRule[] => {
+  const box = createRule(
+    layer,
+    null,
+    [
+      'position: absolute;',
+      'left: 0;',
+      'top: 0;',
+      `transform-origin: ${formatNumber(layer.anchor.x * 100)}% ${formatNumber(
+        layer.anchor.y * 100,
+      )}%;`,
+    ],
+    getBoxTracks(layer),
+    duration,
+  );
+  if (layer.kind === 'group') return [box];
+
+  return [
+    box,
+    createRule(
+      layer,
+      '::before',
+      [
+        "content: '';",
+        'position: absolute;',
+        'inset: 0;',
+        ...getStaticShapeDeclarations(layer),
+      ],
+      getShapeTracks(layer),
+      duration,
+    ),
+  ];
+};
+
+/**
+ * Formats a rule. When animated, it is preceded by its @keyframes and
+ * plays them, looping.
+ * @param rule The rule.
+ * @param duration The animation duration in milliseconds.
+ * @param isAnimated False to only style the elements at time 0.
+ * @returns The CSS.
+ */
+export const formatCssRule = (
+  { layer, pseudoElement, declarations, animations }: CssRule,
+  duration: number,
+  isAnimated: boolean = true,
+): string => {
+  const played = isAnimated ? animations : [];
+  const body = [
+    ...declarations,
+    ...(played.length > 0
+      ? [
+          `animation: ${played
+            .map(({ name }) => `${name} ${duration}ms linear infinite`)
+            .join(', ')};`,
+        ]
+      : []),
+  ];
+  const comment =
+    pseudoElement === null
+      ? `${formatCssComment(
+          `Layer: ${layer.name} (${
+            layer.kind === 'group'
+              ? LAYER_KIND_LABELS.group
+              : SHAPE_LABELS[layer.shape.type]
+          })`,
+        )}\n`
+      : '';
+
+  const keyframes = played.map(
+    ({ name, property, keyframes }) => `@keyframes ${name} {
+${keyframes
+  .map(
+    ({ offset, easing, value }) =>
+      `  ${formatNumber(offset * 100)}% { ${property}: ${value};${
+        easing ? ` animation-timing-function: ${easing};` : ''
+      } }`,
+  )
+  .join('\n')}
+}`,
+  );
+  const selector = `.${getLayerSlug(layer)}${pseudoElement ?? ''}`;
+
+  return `${comment}${[
+    ...keyframes,
+    `${selector} {\n${body.map((line) => `  ${line}`).join('\n')}\n}`,
+  ].join('\n\n')}`;
+};
+
+/**
+ * Lays out a project as elements: one per layer, nested like the layer
+ * tree inside an artboard element, each with a single transform animation
+ * at the merged keyframe times of its position, rotation and scale, and
+ * per-keyframe timing functions from the easings. Motion paths are baked
+ * into keyframes, since CSS cannot follow them here.
+ * @param input The project to export.
+ * @returns The markup and the rules that style and animate it.
+ */
+export const getCssDocument = ({
+  layers,
+  duration,
+  markers,
+  artboard,
+}: CssExportInput): CssDocument => {
+  const baked = layers.map((layer) =>
+    bakeMotionPath(layer, MOTION_PATH_CONFIG.bakeSteps),
+  );
+
+  const ordered: Layer[] = [];
+  const markup = (parentId: string | null, depth: number): string[] =>
+    sortLayersForRendering(getChildLayers(baked, parentId)).flatMap((layer) => {
+      ordered.push(layer);
+      const pad = '  '.repeat(depth);
+      const slug = getLayerSlug(layer);
+      const children = markup(layer.id, depth + 1);
+      return children.length > 0
+        ? [`${pad}<div class="${slug}">`, ...children, `${pad}</div>`]
+        : [`${pad}<div class="${slug}"></div>`];
+    });
+  const markupLines = ['<div class="artboard">', ...markup(null, 1), '</div>'];
+
+  const artboardCss = `/* Artboard: ${artboard.width} × ${artboard.height}px */
+.artboard {
+  position: relative;
+  width: ${artboard.width}px;
+  height: ${artboard.height}px;
+  overflow: hidden;${
+    artboard.background !== null
+      ? `
+  background-color: ${artboard.background};`
+      : ''
+  }
+}`;
+  const rules = ordered.flatMap((layer) => getLayerRules(layer, duration));
+
+  // Marker classes go on the artboard, which holds the layers. Each plays
+  // the marker's range once: the negative delay skips to its start and
+  // the fractional iteration count stops at its end.
+  const markerCss =
+    rules.length > 0
+      ? sortMarkers(markers).map((marker) => {
+          const { start, end } = getMarkerRange(marker, duration);
+          const slug = getMarkerSlug(marker);
+          return `${formatCssComment(
+            `${isRegion(marker) ? 'Region' : 'Marker'}: ${
+              marker.name
+            } (${start}–${end}ms)`,
+          )}
+${rules
+  .map(
+    ({ layer, pseudoElement }) =>
+      `.marker-${slug} .${getLayerSlug(layer)}${pseudoElement ?? ''}`,
+  )
+  .join(',\n')} {
+  animation-delay: -${start}ms;
+  animation-iteration-count: ${+(end / duration).toFixed(4)};
+  animation-fill-mode: both;
+}`;
+        })
+      : [];
+
+  return { markup: markupLines.join('\n'), artboardCss, rules, markerCss };
+};
+
+/**
+ * Generates a CSS animation that plays like the preview.
+ * @param input The project to export.
+ * @returns The stylesheet and its markup.
+ */
+export const generateCssExport = (input: CssExportInput): CssExport => {
+  const { markup, artboardCss, rules, markerCss } = getCssDocument(input);
+  const markupComment = `/*
+ * Markup: one element per layer, children nested inside their parent,
+ * all inside the artboard.
+ *
+${markup
+  .split('\n')
+  .map((line) => ` * ${line}`)
+  .join('\n')}
+ */`;
+
+  return {
+    css: [
+      markupComment,
+      artboardCss,
+      ...rules.map((rule) => formatCssRule(rule, input.duration)),
+      ...markerCss,
+    ].join('\n\n'),
+    markup,
+  };
+};
+
+/**
+ * Builds a standalone HTML page that plays the CSS export next to frames
+ * rendered like the preview, on one clock, with a scrubber to compare them
+ * at any time.
+ * @param cssExport The generated CSS and markup.
+ * @param previewFrames SVG content of the preview at each frame.
+ * @param artboard The artboard both are drawn on.
+ * @param duration The animation duration in milliseconds.
+ * @param fps The frame rate the preview frames were rendered at.
+ * @returns The HTML document.
+ */
+export const formatCssHarness = (
+  { css, markup }: CssExport,
+  previewFrames: string[],
+  artboard: Artboard,
+  duration: number,
+  fps: number,
+): string => {
+  const background =
+    artboard.background !== null
+      ? `<rect width="100%" height="100%" fill="${artboard.background}" />`
+      : '';
+  const frames = previewFrames
+    .map(
+      (frame, i) =>
+        `<g class="frame"${i > 0 ? ' display="none"' : ''}>${frame}</g>`,
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CSS export check</title>
+<style>
+body { margin: 16px; font: 13px sans-serif; color: #374151; background: #F3F4F6; }
+.controls { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+.controls input { width: 320px; }
+.panes { display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start; }
+figure { margin: 0; }
+figcaption { margin-bottom: 4px; font-weight: bold; }
+figure > :last-child { display: block; outline: 1px solid #D1D5DB; }
+</style>
+<style>
+${css}
+</style>
+</head>
+<body>
+<div class="controls">
+<button id="play">Pause</button>
+<input id="scrub" type="range" min="0" max="${duration}" step="1" value="0">
+<output id="time">0ms</output>
+</div>
+<div class="panes">
+<figure>
+<figcaption>CSS export</figcaption>
+${markup}
+</figure>
+<figure>
+<figcaption>Preview (${fps} fps)</figcaption>
+<svg width="${artboard.width}" height="${artboard.height}" viewBox="0 0 ${artboard.width} ${artboard.height}" xmlns="http://www.w3.org/2000/svg">
+${background}
+${frames}
+</svg>
+</figure>
+</div>
+<script>
+// Both sides follow one clock: the CSS animations stay paused and are
+// seeked to it, and the preview shows the frame it falls in.
+const duration = ${duration};
+const fps = ${fps};
+const frames = document.querySelectorAll('.frame');
+const play = document.getElementById('play');
+const scrub = document.getElementById('scrub');
+const output = document.getElementById('time');
+let origin = performance.now();
+let playing = true;
+let shown = 0;
+
+const seek = (time) => {
+  document.getAnimations().forEach((animation) => {
+    animation.pause();
+    animation.currentTime = time;
+  });
+  const frame = Math.min(frames.length - 1, Math.floor((time * fps) / 1000));
+  frames[shown].setAttribute('display', 'none');
+  frames[frame].removeAttribute('display');
+  shown = frame;
+  scrub.value = time;
+  output.textContent = Math.round(time) + 'ms';
+};
+
+const tick = (now) => {
+  if (playing) seek((now - origin) % duration);
+  requestAnimationFrame(tick);
+};
+
+play.addEventListener('click', () => {
+  playing = !playing;
+  origin = performance.now() - Number(scrub.value);
+  play.textContent = playing ? 'Pause' : 'Play';
+});
+scrub.addEventListener('input', () => {
+  playing = false;
+  play.textContent = 'Play';
+  seek(Number(scrub.value));
+});
+requestAnimationFrame(tick);
+</script>
+</body>
+</html>
+`;
+};
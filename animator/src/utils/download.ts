@@ -0,0 +1,29 @@
+/**
+ * Triggers a browser download of a file.
+ * @param blob The file contents.
+ * @param filename The suggested file name, including extension.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Triggers a browser download of text content.
+ * @param content The file contents.
+ * @param filename The suggested file name, including extension.
+ * @param mimeType The MIME type of the file.
+ */
+export const downloadTextFile = (
+  content: string,
+  filename: string,
+  mimeType: string,
+): void => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
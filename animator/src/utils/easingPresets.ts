@@ -0,0 +1,21 @@
+import type { CubicBezier, EasingPreset } from '../types';
+import { generateId } from './animation';
+
+/**
+ * Creates a custom easing preset.
+ * @param name The display name.
+ * @param easing The cubic-bezier curve.
+ * @returns A new EasingPreset.
+ */
+export const createEasingPreset = (
+  name: string,
+  easing: CubicBezier,
+): EasingPreset => ({
+  id: generateId(),
+  name,
+  easing: [...easing],
+});
+
+/** Returns true if two cubic-bezier curves have the same control points. */
+export const isSameBezier = (a: CubicBezier, b: CubicBezier): boolean =>
+  a.every((value, i) => value === b[i]);
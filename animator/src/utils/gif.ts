@@ -0,0 +1,286 @@
+import { RASTER_EXPORT_CONFIG } from '../constants';
+import type { FrameEncoder } from './rasterExport';
+
+/** A box of colors that median cut splits along its widest channel. */
+interface ColorBox {
+  colors: number[]; // 0xRRGGBB
+  channel: number; // Bit shift of the widest channel
+  range: number; // Spread of the widest channel
+}
+
+const MAX_CODE_SIZE = 12; // LZW codes in a GIF never exceed 12 bits
+
+const channelOf = (color: number, shift: number): number =>
+  (color >> shift) & 0xff;
+
+const createColorBox = (colors: number[]): ColorBox => {
+  const ranges = [16, 8, 0].map((shift) => {
+    let min = 255;
+    let max = 0;
+    colors.forEach((color) => {
+      const value = channelOf(color, shift);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    return { shift, range: max - min };
+  });
+  const widest = ranges.reduce((a, b) => (b.range > a.range ? b : a));
+  return { colors, channel: widest.shift, range: widest.range };
+};
+
+/**
+ * Reduces the colors of a frame with median cut: the box with the widest
+ * channel is split at the pixel-weighted median of that channel until
+ * there are enough boxes, and each box becomes its weighted average.
+ * @param histogram Pixel count of each 0xRRGGBB color.
+ * @param maxColors The palette size.
+ * @returns The palette as 0xRRGGBB colors.
+ */
+const quantize = (
+  histogram: Map<number, number>,
+  maxColors: number,
+): number[] => {
+  const colors = [...histogram.keys()];
+  if (colors.length <= maxColors) return colors;
+
+  const boxes = [createColorBox(colors)];
+  while (boxes.length < maxColors) {
+    const index = boxes.reduce(
+      (best, box, i) =>
+        box.colors.length > 1 && box.range > (boxes[best]?.range ?? 0)
+          ? i
+          : best,
+      -1,
+    );
+    if (index < 0) break;
+
+    const { colors: boxColors, channel } = boxes[index];
+    boxColors.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+    const total = boxColors.reduce((sum, c) => sum + histogram.get(c)!, 0);
+    let count = 0;
+    let split = boxColors.findIndex((color) => {
+      count += histogram.get(color)!;
+      return count >= total / 2;
+    });
+    split = Math.min(Math.max(split + 1, 1), boxColors.length - 1);
+    boxes.splice(
+      index,
+      1,
+      createColorBox(boxColors.slice(0, split)),
+      createColorBox(boxColors.slice(split)),
+    );
+  }
+
+  return boxes.map(({ colors: boxColors }) => {
+    const sums = [0, 0, 0];
+    let weight = 0;
+    boxColors.forEach((color) => {
+      const count = histogram.get(color)!;
+      [16, 8, 0].forEach((shift, i) => {
+        sums[i] += channelOf(color, shift) * count;
+      });
+      weight += count;
+    });
+    const [r, g, b] = sums.map((sum) => Math.round(sum / weight));
+    return (r << 16) | (g << 8) | b;
+  });
+};
+
+/** Finds the palette entry closest to a color. */
+const findNearest = (palette: number[], color: number): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((entry, i) => {
+    const distance = [16, 8, 0].reduce((sum, shift) => {
+      const d = channelOf(entry, shift) - channelOf(color, shift);
+      return sum + d * d;
+    }, 0);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW, packed into
+ * sub-blocks of up to 255 bytes.
+ * @param indices One palette index per pixel.
+ * @param minCodeSize Bits per index before compression.
+ * @returns The image data, ending with the block terminator.
+ */
+const encodeLzw = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode === 1 << MAX_CODE_SIZE) {
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+
+  const blocks: number[] = [minCodeSize];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+};
+
+const uint16 = (value: number): number[] => [value & 0xff, value >> 8];
+
+/**
+ * Creates an encoder for a looping animated GIF. Each frame gets its own
+ * palette, quantized from its pixels. GIF has 1-bit transparency, so with
+ * a transparent background, pixels below the alpha threshold become
+ * transparent and the rest opaque.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param fps Frames per second. GIF delays are whole hundredths of a
+ * second, so they alternate to keep the average rate.
+ * @param isTransparent Whether the background is transparent.
+ */
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  fps: number,
+  isTransparent: boolean,
+): FrameEncoder => {
+  const { maxColors, alphaThreshold } = RASTER_EXPORT_CONFIG.gif;
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('GIF89a'),
+    Uint8Array.from([
+      ...uint16(width),
+      ...uint16(height),
+      0, // No global color table
+      0, // Background color index
+      0, // Square pixels
+      // Loop forever
+      0x21,
+      0xff,
+      11,
+      ...new TextEncoder().encode('NETSCAPE2.0'),
+      3,
+      1,
+      ...uint16(0),
+      0,
+    ]),
+  ];
+  let frameCount = 0;
+
+  return {
+    addFrame: async (pixels) => {
+      const isOpaque = (i: number) =>
+        !isTransparent || pixels[i * 4 + 3] >= alphaThreshold;
+      const colorAt = (i: number) =>
+        (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+      const pixelCount = width * height;
+
+      const histogram = new Map<number, number>();
+      for (let i = 0; i < pixelCount; i++) {
+        if (!isOpaque(i)) continue;
+        const color = colorAt(i);
+        histogram.set(color, (histogram.get(color) ?? 0) + 1);
+      }
+      const palette = quantize(
+        histogram,
+        isTransparent ? maxColors - 1 : maxColors,
+      );
+      const transparentIndex = palette.length;
+      const tableBits = Math.max(
+        1,
+        Math.ceil(Math.log2(palette.length + (isTransparent ? 1 : 0))),
+      );
+
+      const nearest = new Map<number, number>();
+      const indices = new Uint8Array(pixelCount);
+      for (let i = 0; i < pixelCount; i++) {
+        if (!isOpaque(i)) {
+          indices[i] = transparentIndex;
+          continue;
+        }
+        const color = colorAt(i);
+        let index = nearest.get(color);
+        if (index === undefined) {
+          index = findNearest(palette, color);
+          nearest.set(color, index);
+        }
+        indices[i] = index;
+      }
+
+      const colorTable = Array.from({ length: 1 << tableBits }, (_, i) => {
+        const color = palette[i] ?? 0;
+        return [channelOf(color, 16), channelOf(color, 8), channelOf(color, 0)];
+      }).flat();
+      const delay =
+        Math.round(((frameCount + 1) * 100) / fps) -
+        Math.round((frameCount * 100) / fps);
+      frameCount++;
+
+      parts.push(
+        Uint8Array.from([
+          // Graphic control extension
+          0x21,
+          0xf9,
+          4,
+          // Clear to the background before the next frame, so transparent
+          // pixels do not show the previous one
+          (isTransparent ? 2 << 2 : 1 << 2) | (isTransparent ? 1 : 0),
+          ...uint16(delay),
+          isTransparent ? transparentIndex : 0,
+          0,
+          // Image descriptor with a local color table
+          0x2c,
+          ...uint16(0),
+          ...uint16(0),
+          ...uint16(width),
+          ...uint16(height),
+          0x80 | (tableBits - 1),
+          ...colorTable,
+        ]),
+        encodeLzw(indices, Math.max(2, tableBits)),
+      );
+    },
+    finish: () =>
+      new Blob([...parts, Uint8Array.of(0x3b)], { type: 'image/gif' }),
+  };
+};
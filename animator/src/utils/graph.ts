@@ -0,0 +1,244 @@
+import type {
+  AnimatedProperty,
+  CubicBezier,
+  EasingFunction,
+  Keyframe,
+  Layer,
+  LayerPropertyKey,
+} from '../types';
+import { getAnimatedValueAtTime } from './animation';
+import { getLayerProperty, getLayerPropertyKeys } from './layer';
+
+/** A numeric track plotted in the graph editor. */
+export interface GraphCurve {
+  id: string; // `${layerId}:${propertyKey}`
+  layerId: string;
+  layerName: string;
+  propertyKey: LayerPropertyKey;
+  property: AnimatedProperty;
+}
+
+/** The lowest and highest value shown on a curve's value axis. */
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+/** Value ranges that fit the curves, together and one by one. */
+export interface GraphFit {
+  shared: ValueRange; // Fits every curve, for the absolute view
+  curves: Record<string, ValueRange>; // Fits each curve, for the normalized view
+}
+
+/** A point on a curve, in milliseconds and property units. */
+export interface GraphPoint {
+  time: number;
+  value: number;
+}
+
+/** The two bezier handles of a segment, in curve coordinates. */
+export interface BezierHandles {
+  out: GraphPoint; // Leaves the segment's first keyframe
+  in: GraphPoint; // Arrives at the segment's second keyframe
+}
+
+/**
+ * Cubic-bezier curves that closely match the named easings, so their
+ * handles can be shown. Dragging one turns the easing into a bezier.
+ */
+const NAMED_BEZIERS: Partial<Record<string, CubicBezier>> = {
+  linear: [0, 0, 1, 1],
+  'ease-in': [0.32, 0, 0.67, 0],
+  'ease-out': [0.33, 1, 0.68, 1],
+  'ease-in-out': [0.65, 0, 0.35, 1],
+};
+
+/**
+ * Lists the keyframed numeric tracks of the layers as graph curves, in
+ * timeline order. Color tracks are left out since they have no single value.
+ * @param layers The layers to plot.
+ * @returns The curves.
+ */
+export const getGraphCurves = (layers: Layer[]): GraphCurve[] =>
+  layers.flatMap((layer) =>
+    getLayerPropertyKeys(layer).flatMap((propertyKey) => {
+      const property = getLayerProperty(layer, propertyKey);
+      if (!property || property.keyframes.length === 0) return [];
+      return [
+        {
+          id: `${layer.id}:${propertyKey}`,
+          layerId: layer.id,
+          layerName: layer.name,
+          propertyKey,
+          property,
+        },
+      ];
+    }),
+  );
+
+/**
+ * Samples a property's animated value at evenly spaced times, including
+ * every keyframe time so corners and holds are drawn exactly.
+ * @param property The property.
+ * @param duration The animation duration in milliseconds.
+ * @param count The number of evenly spaced samples.
+ * @returns The points, sorted by time.
+ */
+export const sampleCurve = (
+  property: AnimatedProperty,
+  duration: number,
+  count: number,
+): GraphPoint[] => {
+  const steps = Math.max(1, Math.round(count));
+  const times = new Set<number>();
+  for (let i = 0; i <= steps; i++) times.add((duration * i) / steps);
+  property.keyframes.forEach((kf) => {
+    times.add(kf.time);
+    // A hold jumps at the next keyframe; sample just before the jump too.
+    if (kf.time > 0) times.add(kf.time - 0.001);
+  });
+
+  return [...times]
+    .filter((time) => time >= 0 && time <= duration)
+    .sort((a, b) => a - b)
+    .map((time) => ({ time, value: getAnimatedValueAtTime(property, time) }));
+};
+
+/**
+ * Returns the cubic-bezier an easing draws, or null for easings that have
+ * no bezier handles (hold, steps and springs).
+ */
+export const getEasingBezier = (easing: EasingFunction): CubicBezier | null => {
+  if (Array.isArray(easing)) return easing;
+  if (typeof easing === 'string') return NAMED_BEZIERS[easing] ?? null;
+  return null;
+};
+
+/**
+ * Places the bezier handles of the segment between two keyframes.
+ * @param from The segment's first keyframe, which holds the easing.
+ * @param to The segment's second keyframe.
+ * @returns The handles, or null if the easing has none.
+ */
+export const getBezierHandles = (
+  from: Keyframe,
+  to: Keyframe,
+): BezierHandles | null => {
+  const bezier = getEasingBezier(from.easing);
+  if (!bezier) return null;
+
+  const [x1, y1, x2, y2] = bezier;
+  const span = to.time - from.time;
+  const rise = to.value - from.value;
+  return {
+    out: { time: from.time + x1 * span, value: from.value + y1 * rise },
+    in: { time: from.time + x2 * span, value: from.value + y2 * rise },
+  };
+};
+
+/**
+ * Moves one bezier handle of a segment to a point on the graph. Handle
+ * times stay within the segment, as CSS requires; values may overshoot.
+ * Without a change in value the handle's height cannot be expressed, so
+ * only its timing changes.
+ * @param from The segment's first keyframe, which holds the easing.
+ * @param to The segment's second keyframe.
+ * @param handle Which handle is moved.
+ * @param point Where the handle was dragged to.
+ * @returns The new easing for `from`.
+ */
+export const moveBezierHandle = (
+  from: Keyframe,
+  to: Keyframe,
+  handle: keyof BezierHandles,
+  point: GraphPoint,
+): CubicBezier => {
+  const [x1, y1, x2, y2] = getEasingBezier(from.easing) ?? [0, 0, 1, 1];
+  const span = to.time - from.time;
+  const rise = to.value - from.value;
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  const x =
+    span > 0
+      ? round(Math.max(0, Math.min(1, (point.time - from.time) / span)))
+      : handle === 'out'
+        ? x1
+        : x2;
+  const y = rise !== 0 ? round((point.value - from.value) / rise) : null;
+
+  return handle === 'out' ? [x, y ?? y1, x2, y2] : [x1, y1, x, y ?? y2];
+};
+
+/** Widens a range by a fraction of its size, or by one unit if it is flat. */
+const padRange = (range: ValueRange, fraction: number): ValueRange => {
+  const size = range.max - range.min;
+  const pad = size > 0 ? size * fraction : Math.max(1, Math.abs(range.max));
+  return { min: range.min - pad, max: range.max + pad };
+};
+
+/**
+ * Finds value ranges that show the whole of each curve, including its
+ * bezier handles, with some room above and below.
+ * @param curves The curves.
+ * @param duration The animation duration in milliseconds.
+ * @param samples Samples taken per curve.
+ * @param padding Room added above and below, as a fraction of the range.
+ * @returns The fitted ranges.
+ */
+export const fitGraph = (
+  curves: GraphCurve[],
+  duration: number,
+  samples: number,
+  padding: number,
+): GraphFit => {
+  const fits: Record<string, ValueRange> = {};
+  let shared: ValueRange | null = null;
+
+  curves.forEach((curve) => {
+    const { keyframes } = curve.property;
+    const values = sampleCurve(curve.property, duration, samples).map(
+      (point) => point.value,
+    );
+    keyframes.slice(0, -1).forEach((kf, i) => {
+      const handles = getBezierHandles(kf, keyframes[i + 1]);
+      if (handles) values.push(handles.out.value, handles.in.value);
+    });
+
+    const range = { min: Math.min(...values), max: Math.max(...values) };
+    fits[curve.id] = padRange(range, padding);
+    shared = shared
+      ? {
+          min: Math.min(shared.min, range.min),
+          max: Math.max(shared.max, range.max),
+        }
+      : range;
+  });
+
+  return {
+    shared: padRange(shared ?? { min: 0, max: 1 }, padding),
+    curves: fits,
+  };
+};
+
+/**
+ * Picks round values to draw grid lines at, about `count` of them.
+ * @param range The visible value range.
+ * @param count The preferred number of lines.
+ * @returns The values, from lowest to highest.
+ */
+export const getGridValues = (range: ValueRange, count: number): number[] => {
+  const size = range.max - range.min;
+  if (!(size > 0)) return [];
+
+  const rough = size / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step =
+    [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+
+  const values: number[] = [];
+  for (let v = Math.ceil(range.min / step) * step; v <= range.max; v += step) {
+    values.push(Math.round(v / step) * step);
+  }
+  return values;
+};
@@ -0,0 +1,194 @@
+import type { AnimatedProperty, Layer } from '../types';
+import { createGroupLayer } from './layer';
+import { formatLayerTransform, sampleLayerAtTime } from './render';
+
+/**
+ * Lists the direct children of a layer, in array order.
+ * @param layers All layers.
+ * @param parentId The parent layer id, or null for top-level layers.
+ * @returns The child layers.
+ */
+export const getChildLayers = (
+  layers: Layer[],
+  parentId: string | null,
+): Layer[] => layers.filter((layer) => layer.parentId === parentId);
+
+/**
+ * Lists the ancestors of a layer.
+ * @param layers All layers.
+ * @param layer The layer.
+ * @returns The ancestors, outermost first.
+ */
+export const getLayerAncestors = (layers: Layer[], layer: Layer): Layer[] => {
+  const ancestors: Layer[] = [];
+  let parent = layers.find((l) => l.id === layer.parentId);
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    const parentId = parent.parentId;
+    parent = layers.find((l) => l.id === parentId);
+  }
+  return ancestors;
+};
+
+/**
+ * Collects the ids of every layer nested under a layer, at any depth.
+ * @param layers All layers.
+ * @param layerId The layer id.
+ * @returns The descendant ids, not including `layerId` itself.
+ */
+export const getDescendantIds = (
+  layers: Layer[],
+  layerId: string,
+): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (parentId: string) =>
+    getChildLayers(layers, parentId).forEach((child) => {
+      if (ids.has(child.id)) return;
+      ids.add(child.id);
+      visit(child.id);
+    });
+  visit(layerId);
+  return ids;
+};
+
+/**
+ * Returns true if a layer may be parented to another without creating a
+ * cycle. Null, meaning top level, is always allowed.
+ */
+export const canSetParent = (
+  layers: Layer[],
+  layerId: string,
+  parentId: string | null,
+): boolean =>
+  parentId === null ||
+  (parentId !== layerId &&
+    layers.some((l) => l.id === parentId) &&
+    !getDescendantIds(layers, layerId).has(parentId));
+
+/**
+ * Builds the SVG transform that maps a layer's parent space to canvas
+ * space, i.e. the combined transforms of all its ancestors.
+ * @param layers All layers.
+ * @param layer The layer.
+ * @param time The time in milliseconds.
+ * @returns The transform list, empty for top-level layers.
+ */
+export const getParentTransform = (
+  layers: Layer[],
+  layer: Layer,
+  time: number,
+): string =>
+  getLayerAncestors(layers, layer)
+    .map((ancestor) => formatLayerTransform(sampleLayerAtTime(ancestor, time)))
+    .join(' ');
+
+/** Returns the canvas position of a parent's top-left corner. */
+const getParentOrigin = (
+  layers: Layer[],
+  parentId: string | null,
+  time: number,
+): [number, number] => {
+  const parent = layers.find((l) => l.id === parentId);
+  if (!parent) return [0, 0];
+
+  return [parent, ...getLayerAncestors(layers, parent)].reduce<
+    [number, number]
+  >(
+    ([x, y], layer) => {
+      const frame = sampleLayerAtTime(layer, time);
+      return [x + frame.x, y + frame.y];
+    },
+    [0, 0],
+  );
+};
+
+const offsetProperty = (
+  property: AnimatedProperty,
+  delta: number,
+): AnimatedProperty => ({
+  ...property,
+  defaultValue: property.defaultValue + delta,
+  keyframes: property.keyframes.map((kf) => ({
+    ...kf,
+    value: kf.value + delta,
+  })),
+});
+
+/**
+ * Moves a layer by shifting all of its x and y values.
+ * @param layer The layer.
+ * @param dx Horizontal offset in px.
+ * @param dy Vertical offset in px.
+ * @returns The moved layer.
+ */
+export const offsetLayerPosition = (
+  layer: Layer,
+  dx: number,
+  dy: number,
+): Layer => ({
+  ...layer,
+  x: offsetProperty(layer.x, dx),
+  y: offsetProperty(layer.y, dy),
+});
+
+/**
+ * Moves a layer under a new parent. Its position is shifted by the distance
+ * between the old and new parent, so it stays in place on the canvas as long
+ * as neither parent is rotated or scaled at `time`.
+ * @param layers All layers.
+ * @param layerId The layer to move.
+ * @param parentId The new parent, or null for top level.
+ * @param time The time the position is preserved at, in milliseconds.
+ * @returns The updated layers, unchanged if the move would create a cycle.
+ */
+export const setLayerParent = (
+  layers: Layer[],
+  layerId: string,
+  parentId: string | null,
+  time: number,
+): Layer[] => {
+  const layer = layers.find((l) => l.id === layerId);
+  if (!layer || !canSetParent(layers, layerId, parentId)) return layers;
+
+  const [oldX, oldY] = getParentOrigin(layers, layer.parentId, time);
+  const [newX, newY] = getParentOrigin(layers, parentId, time);
+
+  return layers.map((l) =>
+    l.id === layerId
+      ? { ...offsetLayerPosition(l, oldX - newX, oldY - newY), parentId }
+      : l,
+  );
+};
+
+/**
+ * Wraps a layer in a new group that takes its place in the hierarchy. The
+ * group box matches the layer box at time 0, so nothing moves on the canvas.
+ * @param layers All layers.
+ * @param layerId The layer to wrap.
+ * @param name Display name of the new group.
+ * @returns The updated layers and the new group, or null if the layer does
+ * not exist.
+ */
+export const wrapInGroup = (
+  layers: Layer[],
+  layerId: string,
+  name: string,
+): { layers: Layer[]; group: Layer } | null => {
+  const layer = layers.find((l) => l.id === layerId);
+  if (!layer) return null;
+
+  const { x, y, width, height } = sampleLayerAtTime(layer, 0);
+  const group: Layer = {
+    ...createGroupLayer(name, layer.zIndex, { x, y, width, height }),
+    parentId: layer.parentId,
+  };
+
+  return {
+    layers: layers.flatMap((l) =>
+      l.id === layerId
+        ? [group, { ...offsetLayerPosition(l, -x, -y), parentId: group.id }]
+        : [l],
+    ),
+    group,
+  };
+};
@@ -0,0 +1,144 @@
+import type {
+  AppState,
+  HistoryEntry,
+  HistoryState,
+  ProjectSnapshot,
+} from '../types';
+import { HISTORY_CONFIG } from '../constants';
+import { generateId } from './animation';
+import { getLayerTrack } from './layer';
+import { pruneKeyframeSelection } from './keyframeSelection';
+
+/**
+ * Extracts the undoable document state from the full application state.
+ * Playback, selection and zoom are deliberately left out.
+ */
+export const takeSnapshot = (state: AppState): ProjectSnapshot => ({
+  layers: state.layers,
+  duration: state.duration,
+  fps: state.fps,
+  markers: state.markers,
+  easingPresets: state.easingPresets,
+  artboard: state.artboard,
+});
+
+/** Returns true when two snapshots reference the same document data. */
+export const isSameSnapshot = (
+  a: ProjectSnapshot,
+  b: ProjectSnapshot,
+): boolean =>
+  a.layers === b.layers &&
+  a.duration === b.duration &&
+  a.fps === b.fps &&
+  a.markers === b.markers &&
+  a.easingPresets === b.easingPresets &&
+  a.artboard === b.artboard;
+
+/**
+ * Applies a snapshot to the application state, dropping selections that
+ * point at layers or keyframes which no longer exist.
+ * @param state The current application state.
+ * @param snapshot The document state to restore.
+ * @returns The restored application state.
+ */
+export const restoreSnapshot = (
+  state: AppState,
+  snapshot: ProjectSnapshot,
+): AppState => {
+  const { layers, duration, fps, markers, easingPresets, artboard } = snapshot;
+  const selectedLayerId = layers.some((l) => l.id === state.selectedLayerId)
+    ? state.selectedLayerId
+    : null;
+
+  const info = state.selectedKeyframeInfo;
+  const selectedLayer = info && layers.find((l) => l.id === info.layerId);
+  const selectedKeyframeInfo =
+    info &&
+    selectedLayer &&
+    getLayerTrack(selectedLayer, info.propertyKey)?.keyframes.some(
+      (kf) => kf.id === info.keyframeId,
+    )
+      ? info
+      : null;
+
+  return {
+    ...state,
+    layers,
+    duration,
+    fps,
+    markers,
+    easingPresets,
+    artboard,
+    selectedLayerId,
+    selectedKeyframeInfo,
+    selectedKeyframes: pruneKeyframeSelection(layers, state.selectedKeyframes),
+    currentTime: Math.min(state.currentTime, duration),
+  };
+};
+
+const createEntry = (
+  label: string,
+  snapshot: ProjectSnapshot,
+): HistoryEntry => ({
+  id: generateId(),
+  label,
+  timestamp: Date.now(),
+  snapshot,
+});
+
+/**
+ * Creates a history whose only entry is the given starting document.
+ * @param snapshot The initial document state.
+ * @param label Display name of the first entry.
+ */
+export const createHistory = (
+  snapshot: ProjectSnapshot,
+  label: string = 'Initial state',
+): HistoryState => ({
+  entries: [createEntry(label, snapshot)],
+  index: 0,
+});
+
+/**
+ * Records a new step after the current one. Any redoable steps are discarded
+ * and the list is trimmed to `HISTORY_CONFIG.maxEntries`.
+ * @param history The current history.
+ * @param label Display name of the command.
+ * @param snapshot Document state after the command ran.
+ * @returns The updated history.
+ */
+export const pushHistory = (
+  history: HistoryState,
+  label: string,
+  snapshot: ProjectSnapshot,
+): HistoryState => {
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    createEntry(label, snapshot),
+  ].slice(-HISTORY_CONFIG.maxEntries);
+
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Replaces the snapshot of the current step. Used to fold continuous
+ * gestures such as a keyframe drag into the step that started them.
+ */
+export const amendHistory = (
+  history: HistoryState,
+  snapshot: ProjectSnapshot,
+): HistoryState => ({
+  ...history,
+  entries: history.entries.map((entry, i) =>
+    i === history.index ? { ...entry, snapshot } : entry,
+  ),
+});
+
+/** Moves the history cursor to `index`, clamped to the available entries. */
+export const moveHistoryTo = (
+  history: HistoryState,
+  index: number,
+): HistoryState => ({
+  ...history,
+  index: Math.max(0, Math.min(history.entries.length - 1, index)),
+});
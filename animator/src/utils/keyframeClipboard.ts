@@ -0,0 +1,296 @@
+import type {
+  AnimatedProperty,
+  EasingFunction,
+  Keyframe,
+  Layer,
+  SelectedKeyframeInfo,
+  TrackKey,
+} from '../types';
+import { generateId, getAnimatedValueAtTime } from './animation';
+import { isStepsEasing } from './steps';
+import {
+  getLayerProperty,
+  getLayerTrack,
+  getLayerTrackKeys,
+  updateLayerProperty,
+  updateLayerTrack,
+} from './layer';
+
+/** A copied keyframe, positioned relative to the earliest copied one. */
+export interface ClipboardKeyframe {
+  layerId: string; // Layer it was copied from
+  propertyKey: TrackKey; // Track it was copied from
+  offset: number; // Milliseconds after the earliest copied keyframe
+  value: number | string;
+  easing: EasingFunction;
+  inTangent?: number;
+  outTangent?: number;
+}
+
+/** Keyframes on the clipboard, sorted by offset. */
+export interface KeyframeClipboard {
+  keyframes: ClipboardKeyframe[];
+  span: number; // Offset of the latest keyframe, in milliseconds
+}
+
+/** How pasted keyframes are transformed. */
+export interface PasteOptions {
+  reversed: boolean; // Mirror the timing so the animation plays backwards
+  relative: boolean; // Offset numeric values from the target's current value
+}
+
+/** Where to paste. Null fields fall back to the copied layer or track. */
+export interface PasteTarget {
+  layerId: string | null; // Only used when a single layer was copied
+  propertyKey: TrackKey | null; // Only used when a single track was copied
+}
+
+/** The result of a paste. */
+export interface PasteResult {
+  layers: Layer[];
+  pasted: SelectedKeyframeInfo[]; // References to the new keyframes
+}
+
+const findKeyframe = (
+  layers: Layer[],
+  ref: SelectedKeyframeInfo,
+): Keyframe<number | string> | undefined => {
+  const layer = layers.find((l) => l.id === ref.layerId);
+  return (
+    layer &&
+    getLayerTrack(layer, ref.propertyKey)?.keyframes.find(
+      (kf) => kf.id === ref.keyframeId,
+    )
+  );
+};
+
+/**
+ * Copies keyframes with their timing relative to each other.
+ * @param layers All layers.
+ * @param selection The keyframes to copy.
+ * @returns The clipboard contents, or null if none of the keyframes exist.
+ */
+export const copyKeyframes = (
+  layers: Layer[],
+  selection: SelectedKeyframeInfo[],
+): KeyframeClipboard | null => {
+  const found = selection.flatMap((ref) => {
+    const keyframe = findKeyframe(layers, ref);
+    return keyframe ? [{ ref, keyframe }] : [];
+  });
+  if (found.length === 0) return null;
+
+  const times = found.map(({ keyframe }) => keyframe.time);
+  const start = Math.min(...times);
+  return {
+    keyframes: found
+      .map(({ ref, keyframe }) => ({
+        layerId: ref.layerId,
+        propertyKey: ref.propertyKey,
+        offset: keyframe.time - start,
+        value: keyframe.value,
+        easing: keyframe.easing,
+        inTangent: keyframe.inTangent,
+        outTangent: keyframe.outTangent,
+      }))
+      .sort((a, b) => a.offset - b.offset),
+    span: Math.max(...times) - start,
+  };
+};
+
+/**
+ * Removes keyframes from their tracks.
+ * @param layers All layers.
+ * @param selection The keyframes to remove.
+ * @returns The updated layers, or `layers` itself if the selection is empty.
+ */
+export const deleteKeyframes = (
+  layers: Layer[],
+  selection: SelectedKeyframeInfo[],
+): Layer[] => {
+  if (selection.length === 0) return layers;
+
+  return layers.map((layer) => {
+    const own = selection.filter((ref) => ref.layerId === layer.id);
+    const keys = [...new Set(own.map((ref) => ref.propertyKey))];
+    return keys.reduce((result: Layer, key: TrackKey) => {
+      const ids = new Set(
+        own
+          .filter((ref) => ref.propertyKey === key)
+          .map((ref) => ref.keyframeId),
+      );
+      return updateLayerTrack(result, key, (property) => ({
+        ...property,
+        keyframes: property.keyframes.filter((kf) => !ids.has(kf.id)),
+      }));
+    }, layer);
+  });
+};
+
+/**
+ * Returns the easing that traces the same curve backwards in time, so a
+ * reversed segment passes through the same values. Springs have no exact
+ * mirror and are kept as they are.
+ */
+const reverseEasing = (easing: EasingFunction): EasingFunction => {
+  if (Array.isArray(easing)) {
+    const [x1, y1, x2, y2] = easing;
+    return [1 - x2, 1 - y2, 1 - x1, 1 - y1];
+  }
+  if (easing === 'ease-in') return 'ease-out';
+  if (easing === 'ease-out') return 'ease-in';
+  if (easing === 'hold') {
+    return { type: 'steps', count: 1, position: 'jump-start' };
+  }
+  if (isStepsEasing(easing)) {
+    const position =
+      easing.position === 'jump-start'
+        ? 'jump-end'
+        : easing.position === 'jump-end'
+          ? 'jump-start'
+          : easing.position;
+    return { ...easing, position };
+  }
+  return easing;
+};
+
+/**
+ * Mirrors the keyframes of one track within the clipboard span. Each
+ * keyframe takes the reversed easing of the segment that now follows it;
+ * the new last keyframe keeps the easing of the old last one.
+ */
+const reverseTrack = (
+  keyframes: ClipboardKeyframe[],
+  span: number,
+): ClipboardKeyframe[] =>
+  keyframes
+    .map((keyframe, index) => ({
+      ...keyframe,
+      offset: span - keyframe.offset,
+      easing:
+        index > 0
+          ? reverseEasing(keyframes[index - 1].easing)
+          : keyframes[keyframes.length - 1].easing,
+      inTangent: keyframe.outTangent,
+      outTangent: keyframe.inTangent,
+    }))
+    .reverse();
+
+const insertKeyframes = <T>(
+  property: AnimatedProperty<T>,
+  added: Keyframe<T>[],
+): AnimatedProperty<T> => {
+  // Pasted keyframes replace the ones already at the same time.
+  const times = new Set(added.map((kf) => kf.time));
+  return {
+    ...property,
+    keyframes: [
+      ...property.keyframes.filter((kf) => !times.has(kf.time)),
+      ...added,
+    ].sort((a, b) => a.time - b.time),
+  };
+};
+
+/**
+ * Pastes keyframes so the earliest lands at `time`. The paste moves earlier
+ * if needed so the last keyframe still fits in the animation.
+ *
+ * Keyframes copied from one layer go to the same properties of the target
+ * layer. A single copied track can instead go to the target property, as
+ * long as both hold numbers or both hold colors. Keyframes copied from
+ * several layers always return to their own layers. Tracks the target layer
+ * lacks are skipped.
+ * @param layers All layers.
+ * @param clipboard The copied keyframes.
+ * @param time The paste time in milliseconds.
+ * @param duration The animation duration in milliseconds.
+ * @param target The layer and property to paste onto.
+ * @param options Reverse the timing and/or paste values relative to the
+ * target's current value.
+ * @returns The updated layers and references to the new keyframes.
+ */
+export const pasteKeyframes = (
+  layers: Layer[],
+  clipboard: KeyframeClipboard,
+  time: number,
+  duration: number,
+  target: PasteTarget,
+  options: PasteOptions,
+): PasteResult => {
+  const start = Math.max(0, Math.min(time, duration - clipboard.span));
+
+  const tracks = new Map<string, ClipboardKeyframe[]>();
+  clipboard.keyframes.forEach((keyframe) => {
+    const id = `${keyframe.layerId}:${keyframe.propertyKey}`;
+    tracks.set(id, [...(tracks.get(id) ?? []), keyframe]);
+  });
+
+  const isSingleLayer =
+    new Set(clipboard.keyframes.map((keyframe) => keyframe.layerId)).size === 1;
+
+  let result = layers;
+  const pasted: SelectedKeyframeInfo[] = [];
+
+  tracks.forEach((source) => {
+    const layerId =
+      isSingleLayer && target.layerId ? target.layerId : source[0].layerId;
+    const propertyKey =
+      tracks.size === 1 && target.propertyKey
+        ? target.propertyKey
+        : source[0].propertyKey;
+    const layer = result.find((l) => l.id === layerId);
+    if (!layer || !getLayerTrackKeys(layer).includes(propertyKey)) return;
+
+    const isColor = propertyKey === 'color';
+    const entries = (
+      options.reversed ? reverseTrack(source, clipboard.span) : source
+    ).filter((entry) => typeof entry.value === (isColor ? 'string' : 'number'));
+    if (entries.length === 0) return;
+
+    const toKeyframe = <T>(
+      entry: ClipboardKeyframe,
+      value: T,
+    ): Keyframe<T> => ({
+      id: generateId(),
+      time: Math.round(start + entry.offset),
+      value,
+      easing: entry.easing,
+      ...(entry.inTangent !== undefined && { inTangent: entry.inTangent }),
+      ...(entry.outTangent !== undefined && { outTangent: entry.outTangent }),
+    });
+
+    let updated: Layer;
+    let added: Keyframe<number | string>[];
+    if (propertyKey === 'color') {
+      const keyframes = entries.map((e) => toKeyframe(e, e.value as string));
+      updated = {
+        ...layer,
+        color: { ...layer.color, ...insertKeyframes(layer.color, keyframes) },
+      };
+      added = keyframes;
+    } else {
+      const property = getLayerProperty(layer, propertyKey);
+      if (!property) return;
+
+      // Relative values keep the copied changes but start from the target's
+      // value at the paste time.
+      const offset = options.relative
+        ? getAnimatedValueAtTime(property, start) - (entries[0].value as number)
+        : 0;
+      const keyframes = entries.map((e) =>
+        toKeyframe(e, (e.value as number) + offset),
+      );
+      updated = updateLayerProperty(layer, propertyKey, (p) =>
+        insertKeyframes(p, keyframes),
+      );
+      added = keyframes;
+    }
+
+    result = result.map((l) => (l.id === layerId ? updated : l));
+    pasted.push(
+      ...added.map((kf) => ({ layerId, propertyKey, keyframeId: kf.id })),
+    );
+  });
+
+  return { layers: result, pasted };
+};
@@ -0,0 +1,184 @@
+import type { Layer, SelectedKeyframeInfo, TrackKey } from '../types';
+import { getLayerTrack, updateLayerTrack } from './layer';
+
+/** A selected keyframe and the time it is at or should be moved to. */
+export interface KeyframeTimeChange {
+  keyframe: SelectedKeyframeInfo;
+  time: number; // In milliseconds
+}
+
+/** Returns true if two references point at the same keyframe. */
+export const isSameKeyframe = (
+  a: SelectedKeyframeInfo,
+  b: SelectedKeyframeInfo,
+): boolean =>
+  a.layerId === b.layerId &&
+  a.propertyKey === b.propertyKey &&
+  a.keyframeId === b.keyframeId;
+
+/** Returns true if the keyframe is part of the selection. */
+export const isKeyframeSelected = (
+  selection: SelectedKeyframeInfo[],
+  keyframe: SelectedKeyframeInfo,
+): boolean => selection.some((selected) => isSameKeyframe(selected, keyframe));
+
+/** Adds the keyframe to the selection, or removes it if already selected. */
+export const toggleKeyframeSelection = (
+  selection: SelectedKeyframeInfo[],
+  keyframe: SelectedKeyframeInfo,
+): SelectedKeyframeInfo[] =>
+  isKeyframeSelected(selection, keyframe)
+    ? selection.filter((selected) => !isSameKeyframe(selected, keyframe))
+    : [...selection, keyframe];
+
+/** Combines two selections without duplicates. */
+export const mergeKeyframeSelections = (
+  selection: SelectedKeyframeInfo[],
+  added: SelectedKeyframeInfo[],
+): SelectedKeyframeInfo[] => [
+  ...selection,
+  ...added.filter((keyframe) => !isKeyframeSelected(selection, keyframe)),
+];
+
+/**
+ * Drops references to keyframes, tracks or layers that no longer exist.
+ * @param layers All layers.
+ * @param selection The selection.
+ * @returns The selection, or the same array if nothing was dropped.
+ */
+export const pruneKeyframeSelection = (
+  layers: Layer[],
+  selection: SelectedKeyframeInfo[],
+): SelectedKeyframeInfo[] => {
+  const pruned = selection.filter((ref) => {
+    const layer = layers.find((l) => l.id === ref.layerId);
+    return !!(
+      layer &&
+      getLayerTrack(layer, ref.propertyKey)?.keyframes.some(
+        (kf) => kf.id === ref.keyframeId,
+      )
+    );
+  });
+  return pruned.length === selection.length ? selection : pruned;
+};
+
+/**
+ * Looks up the current time of every selected keyframe.
+ * @param layers All layers.
+ * @param selection The selection.
+ * @returns The times of the keyframes that still exist.
+ */
+export const getKeyframeTimes = (
+  layers: Layer[],
+  selection: SelectedKeyframeInfo[],
+): KeyframeTimeChange[] =>
+  selection.flatMap((keyframe) => {
+    const layer = layers.find((l) => l.id === keyframe.layerId);
+    const found =
+      layer &&
+      getLayerTrack(layer, keyframe.propertyKey)?.keyframes.find(
+        (kf) => kf.id === keyframe.keyframeId,
+      );
+    return found ? [{ keyframe, time: found.time }] : [];
+  });
+
+/** Returns the earliest and latest time, or null for an empty list. */
+export const getTimeRange = (
+  times: KeyframeTimeChange[],
+): { start: number; end: number } | null =>
+  times.length > 0
+    ? {
+        start: Math.min(...times.map((t) => t.time)),
+        end: Math.max(...times.map((t) => t.time)),
+      }
+    : null;
+
+/**
+ * Shifts keyframe times by the same amount. The offset is limited so that no
+ * keyframe leaves the timeline, which keeps their spacing intact.
+ * @param times The starting times.
+ * @param delta The offset in milliseconds.
+ * @param duration The animation duration in milliseconds.
+ * @returns The shifted times.
+ */
+export const offsetKeyframeTimes = (
+  times: KeyframeTimeChange[],
+  delta: number,
+  duration: number,
+): KeyframeTimeChange[] => {
+  const range = getTimeRange(times);
+  if (!range) return times;
+
+  const clamped = Math.max(-range.start, Math.min(duration - range.end, delta));
+  return times.map((t) => ({ ...t, time: Math.round(t.time + clamped) }));
+};
+
+/**
+ * Stretches or compresses keyframe times around a pivot.
+ * @param times The starting times.
+ * @param pivot The time that stays in place, in milliseconds.
+ * @param factor 1 keeps the timing, 2 doubles every distance to the pivot.
+ * Negative factors are treated as 0 so the keyframe order never flips.
+ * @param duration The animation duration in milliseconds.
+ * @returns The scaled times, clamped to the timeline.
+ */
+export const scaleKeyframeTimes = (
+  times: KeyframeTimeChange[],
+  pivot: number,
+  factor: number,
+  duration: number,
+): KeyframeTimeChange[] =>
+  times.map((t) => ({
+    ...t,
+    time: Math.round(
+      Math.max(
+        0,
+        Math.min(duration, pivot + (t.time - pivot) * Math.max(0, factor)),
+      ),
+    ),
+  }));
+
+/**
+ * Moves keyframes to new times, keeping every track sorted.
+ * @param layers All layers.
+ * @param changes The keyframes and their new times.
+ * @returns The updated layers, or `layers` itself if no time changes.
+ */
+export const applyKeyframeTimes = (
+  layers: Layer[],
+  changes: KeyframeTimeChange[],
+): Layer[] => {
+  const current = getKeyframeTimes(
+    layers,
+    changes.map((c) => c.keyframe),
+  );
+  const isUnchanged = changes.every((c) =>
+    current.some(
+      (t) => isSameKeyframe(t.keyframe, c.keyframe) && t.time === c.time,
+    ),
+  );
+  if (isUnchanged) return layers;
+
+  return layers.map((layer) => {
+    const own = changes.filter((c) => c.keyframe.layerId === layer.id);
+    if (own.length === 0) return layer;
+
+    const keys = [...new Set(own.map((c) => c.keyframe.propertyKey))];
+    return keys.reduce((result: Layer, key: TrackKey) => {
+      const timeOf = new Map(
+        own
+          .filter((c) => c.keyframe.propertyKey === key)
+          .map((c) => [c.keyframe.keyframeId, c.time]),
+      );
+      return updateLayerTrack(result, key, (property) => ({
+        ...property,
+        keyframes: property.keyframes
+          .map((kf) => {
+            const time = timeOf.get(kf.id);
+            return time === undefined ? kf : { ...kf, time };
+          })
+          .sort((a, b) => a.time - b.time),
+      }));
+    }, layer);
+  });
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { EasingFunction, Keyframe } from '../types';
+import { ANIMATION_CONFIG } from '../constants';
+import { getAnimatedValueAtTime } from './animation';
+import { getKeyframeStops } from './keyframeStops';
+import type { KeyframeStopOptions } from './keyframeStops';
+import { createSpringEasing } from './spring';
+
+/** A track that moves from 0 to 300 over a second with an easing. */
+const createTrack = (easing: EasingFunction): Keyframe[] => [
+  { id: 'start', time: 0, value: 0, easing },
+  { id: 'end', time: 1000, value: 300, easing: 'linear' },
+];
+
+const EXPRESS_ALL: KeyframeStopOptions = {
+  canBlend: true,
+  canExpress: () => true,
+};
+
+const EXPRESS_HOLD: KeyframeStopOptions = {
+  canBlend: true,
+  canExpress: (easing) => easing === 'hold',
+};
+
+describe('getKeyframeStops', () => {
+  it('keeps an easing the format can express', () => {
+    expect(
+      getKeyframeStops([createTrack([0.42, 0, 0.58, 1])], 1000, EXPRESS_ALL),
+    ).toEqual([
+      { time: 0, easing: [0.42, 0, 0.58, 1], sampleTime: 0 },
+      { time: 1000, easing: 'linear', sampleTime: 1000 },
+    ]);
+  });
+
+  it('splits ease-in-out into two Béziers at the middle', () => {
+    const stops = getKeyframeStops(
+      [createTrack('ease-in-out')],
+      1000,
+      EXPRESS_ALL,
+    );
+    expect(stops.map((stop) => stop.time)).toEqual([0, 500, 1000]);
+  });
+
+  it('keeps the easing of each track where only that track moves', () => {
+    const first: Keyframe[] = [
+      { id: 'a', time: 0, value: 0, easing: 'linear' },
+      { id: 'b', time: 500, value: 300, easing: 'linear' },
+    ];
+    const second: Keyframe[] = [
+      { id: 'c', time: 500, value: 0, easing: [0.42, 0, 0.58, 1] },
+      { id: 'd', time: 1000, value: 1, easing: 'linear' },
+    ];
+    expect(getKeyframeStops([first, second], 1000, EXPRESS_ALL)).toEqual([
+      { time: 0, easing: 'linear', sampleTime: 0 },
+      { time: 500, easing: [0.42, 0, 0.58, 1], sampleTime: 500 },
+      { time: 1000, easing: 'linear', sampleTime: 1000 },
+    ]);
+  });
+
+  it('samples tracks whose keyframes do not line up', () => {
+    const other: Keyframe[] = [
+      { id: 'a', time: 250, value: 0, easing: 'linear' },
+      { id: 'b', time: 750, value: 1, easing: 'linear' },
+    ];
+    const stops = getKeyframeStops(
+      [createTrack('ease-in'), other],
+      1000,
+      EXPRESS_ALL,
+    );
+    expect(stops.length).toBeGreaterThan(4);
+    expect(stops.map((stop) => stop.time)).toEqual(
+      expect.arrayContaining([0, 250, 750, 1000]),
+    );
+    expect(stops.slice(0, -1).every((stop) => stop.easing === 'linear')).toBe(
+      true,
+    );
+  });
+
+  it('holds steps between their jumps, sampled in the middle', () => {
+    const stops = getKeyframeStops(
+      [createTrack({ type: 'steps', count: 4, position: 'jump-end' })],
+      1000,
+      EXPRESS_HOLD,
+    );
+    expect(stops).toEqual([
+      { time: 0, easing: 'hold', sampleTime: 125 },
+      { time: 250, easing: 'hold', sampleTime: 375 },
+      { time: 500, easing: 'hold', sampleTime: 625 },
+      { time: 750, easing: 'hold', sampleTime: 875 },
+      { time: 1000, easing: 'linear', sampleTime: 1000 },
+    ]);
+  });
+
+  it('keeps the keyframe value of steps that jump at the start for that moment only', () => {
+    const stops = getKeyframeStops(
+      [createTrack({ type: 'steps', count: 2, position: 'jump-start' })],
+      1000,
+      EXPRESS_HOLD,
+    );
+    expect(stops).toEqual([
+      { time: 0, easing: 'hold', sampleTime: 0 },
+      { time: 0, easing: 'hold', sampleTime: 250 },
+      { time: 500, easing: 'hold', sampleTime: 750 },
+      { time: 1000, easing: 'linear', sampleTime: 1000 },
+    ]);
+  });
+
+  // Refining stops at the minimum interval, such as where the spring snaps
+  // onto its end value.
+  it('samples a spring closely enough for straight lines between stops', () => {
+    const property = {
+      keyframes: createTrack(createSpringEasing()),
+      defaultValue: 0,
+    };
+    const stops = getKeyframeStops([property.keyframes], 1000, EXPRESS_HOLD);
+
+    expect(stops.every((stop) => stop.easing === 'linear')).toBe(true);
+    stops.slice(0, -1).forEach((stop, i) => {
+      const next = stops[i + 1];
+      if (next.time - stop.time <= ANIMATION_CONFIG.exportMinSampleInterval) {
+        return;
+      }
+      const middle = (stop.time + next.time) / 2;
+      const interpolated =
+        (getAnimatedValueAtTime(property, stop.time) +
+          getAnimatedValueAtTime(property, next.time)) /
+        2;
+      expect(
+        Math.abs(getAnimatedValueAtTime(property, middle) - interpolated),
+      ).toBeLessThanOrEqual(ANIMATION_CONFIG.exportMaxValueError);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { CubicBezier, EasingFunction, Keyframe } from '../types';
+import { ANIMATION_CONFIG } from '../constants';
+import { applyEasing } from './animation';
+import {
+  getDiscreteChangeTimes,
+  isDiscreteEasing,
+  isStepsEasing,
+} from './steps';
+
+/** An easing as exporters receive it: the named easings become Béziers. */
+export type ExportEasing = Exclude<
+  EasingFunction,
+  'ease-in' | 'ease-out' | 'ease-in-out'
+>;
+
+/** One keyframe of an exported animation. */
+export interface KeyframeStop {
+  time: number;
+  easing: ExportEasing; // Easing up to the next stop
+  sampleTime: number; // When to sample the value; held stops use the middle
+}
+
+/** A keyframe and the next one on the same track. */
+type KeyframePair = [from: Keyframe<unknown>, to: Keyframe<unknown>];
+
+/** What an export format can reproduce. */
+export interface KeyframeStopOptions {
+  // False when the format's interpolation between stops is not how the
+  // tracks blend, so every changing segment has to be sampled.
+  canBlend: boolean;
+  // Whether the format has an exact form of an easing. Hold must always
+  // be supported, since sampled discrete segments are held.
+  canExpress: (easing: ExportEasing) => boolean;
+}
+
+// The named easings are cubic polynomials. Ease-in and ease-out are exact
+// cubic Béziers; ease-in-out is ease-in then ease-out, split at the middle.
+const EASE_IN_BEZIER: CubicBezier = [0.3333, 0, 0.6667, 0];
+const EASE_OUT_BEZIER: CubicBezier = [0.3333, 1, 0.6667, 1];
+
+/**
+ * Splits an easing into export easings, each starting at a fraction of the
+ * segment.
+ * @param easing The easing of the segment.
+ * @returns The pieces, the first at 0.
+ */
+const getEasingPieces = (
+  easing: EasingFunction,
+): Array<{ at: number; easing: ExportEasing }> => {
+  switch (easing) {
+    case 'ease-in':
+      return [{ at: 0, easing: EASE_IN_BEZIER }];
+    case 'ease-out':
+      return [{ at: 0, easing: EASE_OUT_BEZIER }];
+    case 'ease-in-out':
+      return [
+        { at: 0, easing: EASE_IN_BEZIER },
+        { at: 0.5, easing: EASE_OUT_BEZIER },
+      ];
+    default:
+      return [{ at: 0, easing }];
+  }
+};
+
+/** Returns the eased progress through a keyframe pair at a time. */
+const getPairProgress = ([from, to]: KeyframePair, time: number): number =>
+  applyEasing((time - from.time) / (to.time - from.time), from.easing);
+
+/**
+ * Returns how far, in eased progress, straight lines between samples may
+ * stray from a pair: the progress limit, or less when that would move a
+ * numeric value by more than the value limit.
+ */
+const getProgressTolerance = ([from, to]: KeyframePair): number => {
+  const { exportMaxProgressError, exportMaxValueError } = ANIMATION_CONFIG;
+  return typeof from.value === 'number' && typeof to.value === 'number'
+    ? Math.min(
+        exportMaxProgressError,
+        exportMaxValueError / Math.abs(to.value - from.value),
+      )
+    : exportMaxProgressError;
+};
+
+/**
+ * Lists the times to sample a segment at so that linear interpolation
+ * between them follows every changing pair. The segment starts on an even
+ * grid, and each interval whose midpoint strays too far is halved.
+ */
+const getSampleTimes = (
+  moving: KeyframePair[],
+  start: number,
+  end: number,
+): number[] => {
+  const { exportSampleRate, exportMinSampleInterval } = ANIMATION_CONFIG;
+  const times: number[] = [];
+  const refine = (from: number, to: number) => {
+    const middle = (from + to) / 2;
+    const isAccurate =
+      to - from <= exportMinSampleInterval ||
+      moving.every(
+        (pair) =>
+          Math.abs(
+            getPairProgress(pair, middle) -
+              (getPairProgress(pair, from) + getPairProgress(pair, to)) / 2,
+          ) <= getProgressTolerance(pair),
+      );
+    if (isAccurate) {
+      times.push(from);
+    } else {
+      refine(from, middle);
+      refine(middle, to);
+    }
+  };
+
+  const count = Math.max(
+    1,
+    Math.ceil(((end - start) * exportSampleRate) / 1000),
+  );
+  for (let step = 0; step < count; step++) {
+    refine(
+      start + ((end - start) * step) / count,
+      start + ((end - start) * (step + 1)) / count,
+    );
+  }
+  return times;
+};
+
+/**
+ * Lists the stops between two adjacent keyframe times of an animation.
+ * When every track that changes here shares the segment and an easing the
+ * format can express, the easing is kept. Otherwise the segment is sampled:
+ * at the discrete change times if every changing track jumps, or until
+ * straight lines between samples follow it closely.
+ */
+const getSegmentStops = (
+  tracks: Keyframe<unknown>[][],
+  start: number,
+  end: number,
+  { canBlend, canExpress }: KeyframeStopOptions,
+): KeyframeStop[] => {
+  const moving = tracks.flatMap((keyframes): KeyframePair[] => {
+    const index = keyframes.findIndex(
+      (kf, i) => kf.time <= start && (keyframes[i + 1]?.time ?? -1) >= end,
+    );
+    if (index < 0) return [];
+    const [from, to] = [keyframes[index], keyframes[index + 1]];
+    return from.value === to.value ? [] : [[from, to]];
+  });
+  if (moving.length === 0) {
+    return [{ time: start, easing: 'linear', sampleTime: start }];
+  }
+
+  const easing = JSON.stringify(moving[0][0].easing);
+  const isShared = moving.every(
+    ([from, to]) =>
+      from.time === start &&
+      to.time === end &&
+      JSON.stringify(from.easing) === easing,
+  );
+  const pieces = getEasingPieces(moving[0][0].easing);
+  if (canBlend && isShared && pieces.every((p) => canExpress(p.easing))) {
+    return pieces.map(({ at, easing }) => {
+      const time = start + (end - start) * at;
+      return { time, easing, sampleTime: time };
+    });
+  }
+
+  if (moving.every(([from]) => isDiscreteEasing(from.easing))) {
+    const times = [
+      ...new Set([
+        start,
+        ...moving.flatMap((pair) => getDiscreteChangeTimes(pair) ?? []),
+      ]),
+    ]
+      .filter((time) => time >= start && time < end)
+      .sort((a, b) => a - b);
+    const holds = times.map((time, i): KeyframeStop => ({
+      time,
+      easing: 'hold',
+      sampleTime: (time + (times[i + 1] ?? end)) / 2,
+    }));
+    // Steps that jump at the start leave the keyframe's own value for the
+    // keyframe time only, so it gets a hold of no length.
+    const jumpsAtStart = moving.some(
+      ([from]) =>
+        from.time === start &&
+        isStepsEasing(from.easing) &&
+        (from.easing.position === 'jump-start' ||
+          from.easing.position === 'jump-both'),
+    );
+    return jumpsAtStart
+      ? [{ time: start, easing: 'hold', sampleTime: start }, ...holds]
+      : holds;
+  }
+
+  return getSampleTimes(moving, start, end).map((time) => ({
+    time,
+    easing: 'linear',
+    sampleTime: time,
+  }));
+};
+
+/**
+ * Lists the stops of one exported animation that several tracks drive
+ * together, at the merged keyframe times of all of them.
+ * @param tracks The keyframes of each track.
+ * @param duration The animation duration in milliseconds.
+ * @param options What the export format can reproduce.
+ * @returns The stops from 0 to the duration.
+ */
+export const getKeyframeStops = (
+  tracks: Keyframe<unknown>[][],
+  duration: number,
+  options: KeyframeStopOptions,
+): KeyframeStop[] => {
+  const sorted = tracks.map((keyframes) =>
+    keyframes.slice().sort((a, b) => a.time - b.time),
+  );
+  const times = [
+    ...new Set([
+      0,
+      duration,
+      ...sorted
+        .flat()
+        .map((kf) => kf.time)
+        .filter((time) => time > 0 && time < duration),
+    ]),
+  ].sort((a, b) => a - b);
+
+  return [
+    ...times
+      .slice(0, -1)
+      .flatMap((start, i) =>
+        getSegmentStops(sorted, start, times[i + 1], options),
+      ),
+    { time: duration, easing: 'linear', sampleTime: duration },
+  ];
+};
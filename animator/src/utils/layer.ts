@@ -1,5 +1,16 @@
-import type { AnimatedProperty, Layer } from '../types';
+import type {
+  AnimatedProperty,
+  ColorProperty,
+  Layer,
+  LayerAnchor,
+  LayerPropertyKey,
+  ShapePropertyKey,
+  TrackKey,
+} from '../types';
+import { ANIMATABLE_PROPERTIES, LAYER_CONFIG } from '../constants';
 import { generateId } from './animation';
+import { createMotionPathSettings } from './motionPath';
+import { createShape, getShapeProperty, getShapePropertyKeys } from './shape';
 
 /**
  * Creates a default AnimatedProperty with optional initial keyframe.
@@ -25,6 +36,22 @@ export const createDefaultAnimatedProperty = (
   defaultValue,
 });
 
+/**
+ * Creates an un-keyframed ColorProperty blended in sRGB.
+ * @param color The default color (hex string).
+ * @returns A new ColorProperty.
+ */
+export const createColorProperty = (color: string): ColorProperty => ({
+  keyframes: [],
+  defaultValue: color,
+  interpolation: 'srgb',
+});
+
+/** Creates an anchor at the default pivot, the center of the box. */
+export const createDefaultAnchor = (): LayerAnchor => ({
+  ...LAYER_CONFIG.defaultAnchor,
+});
+
 /**
  * Creates a new Layer with default properties.
  * @param name The display name of the layer.
@@ -39,8 +66,13 @@ export const createNewLayer = (
 ): Layer => ({
   id: generateId(),
   name,
-  color,
+  kind: 'shape',
+  parentId: null,
+  color: createColorProperty(color),
   zIndex,
+  shape: createShape('rectangle'),
+  motionPath: createMotionPathSettings(),
+  anchor: createDefaultAnchor(),
   x: createDefaultAnimatedProperty(100, 100),
   y: createDefaultAnimatedProperty(100, 100),
   width: createDefaultAnimatedProperty(100, 100),
@@ -50,6 +82,27 @@ export const createNewLayer = (
   scale: createDefaultAnimatedProperty(1, 1),
 });
 
+/**
+ * Creates a new group layer. Groups draw nothing themselves; their box only
+ * sets the anchor their children are rotated and scaled around.
+ * @param name The display name of the group.
+ * @param zIndex The stacking order.
+ * @param box The group box at time 0.
+ * @returns A new Layer object of kind 'group'.
+ */
+export const createGroupLayer = (
+  name: string,
+  zIndex: number,
+  box: { x: number; y: number; width: number; height: number },
+): Layer => ({
+  ...createNewLayer(name, zIndex),
+  kind: 'group',
+  x: createDefaultAnimatedProperty(box.x, box.x),
+  y: createDefaultAnimatedProperty(box.y, box.y),
+  width: createDefaultAnimatedProperty(box.width, box.width),
+  height: createDefaultAnimatedProperty(box.height, box.height),
+});
+
 /**
  * Finds the maximum z-index among all layers.
  * @param layers Array of layers.
@@ -58,3 +111,114 @@ export const createNewLayer = (
 export const getMaxZIndex = (layers: Layer[]): number => {
   return layers.length > 0 ? Math.max(...layers.map((l) => l.zIndex)) : 0;
 };
+
+/**
+ * Turns a layer id into a string that is safe in CSS class names, SVG ids
+ * and animation names. Generated ids stay as they are; any other character,
+ * and a leading digit, becomes its hex code between `-u` and `-`, so
+ * distinct ids stay distinct, e.g. 'my layer' becomes 'my-u20-layer'.
+ * @param layer The layer.
+ * @returns The slug.
+ */
+export const getLayerSlug = (layer: Layer): string =>
+  layer.id.replace(
+    /^[0-9]|[^A-Za-z0-9_]/g,
+    (char) => `-u${char.charCodeAt(0).toString(16)}-`,
+  );
+
+/**
+ * Lists the animatable property keys of a layer in timeline order,
+ * including the properties of its shape.
+ * @param layer The layer.
+ * @returns The property keys.
+ */
+export const getLayerPropertyKeys = (layer: Layer): LayerPropertyKey[] => [
+  ...ANIMATABLE_PROPERTIES,
+  ...getShapePropertyKeys(layer.shape),
+];
+
+const isShapePropertyKey = (key: LayerPropertyKey): key is ShapePropertyKey =>
+  !(ANIMATABLE_PROPERTIES as readonly string[]).includes(key);
+
+/**
+ * Looks up an animatable property of a layer.
+ * @param layer The layer.
+ * @param key The property key.
+ * @returns The property, or undefined if the layer's shape does not have it.
+ */
+export const getLayerProperty = (
+  layer: Layer,
+  key: LayerPropertyKey,
+): AnimatedProperty | undefined => {
+  return isShapePropertyKey(key)
+    ? getShapeProperty(layer.shape, key)
+    : layer[key];
+};
+
+/**
+ * Returns a copy of the layer with one animatable property replaced.
+ * Unknown shape properties leave the layer unchanged.
+ * @param layer The layer.
+ * @param key The property key.
+ * @param update Produces the new property from the current one.
+ * @returns The updated layer.
+ */
+export const updateLayerProperty = (
+  layer: Layer,
+  key: LayerPropertyKey,
+  update: (property: AnimatedProperty) => AnimatedProperty,
+): Layer => {
+  const property = getLayerProperty(layer, key);
+  if (!property) return layer;
+
+  if (!isShapePropertyKey(key)) {
+    return { ...layer, [key]: update(property) };
+  }
+  return {
+    ...layer,
+    shape: { ...layer.shape, [key]: update(property) } as Layer['shape'],
+  };
+};
+
+/**
+ * Lists the keyframed tracks of a layer in timeline order: its numeric
+ * properties followed by color. Groups have no color track.
+ * @param layer The layer.
+ * @returns The track keys.
+ */
+export const getLayerTrackKeys = (layer: Layer): TrackKey[] =>
+  layer.kind === 'group'
+    ? getLayerPropertyKeys(layer)
+    : [...getLayerPropertyKeys(layer), 'color'];
+
+/**
+ * Looks up a keyframed track of a layer, numeric or color.
+ * @param layer The layer.
+ * @param key The track key.
+ * @returns The track, or undefined if the layer's shape does not have it.
+ */
+export const getLayerTrack = (
+  layer: Layer,
+  key: TrackKey,
+): AnimatedProperty | ColorProperty | undefined => {
+  return key === 'color' ? layer.color : getLayerProperty(layer, key);
+};
+
+/**
+ * Returns a copy of the layer with one track replaced. The update must work
+ * for any value type, which suits operations on keyframe times and easings.
+ * @param layer The layer.
+ * @param key The track key.
+ * @param update Produces the new track from the current one.
+ * @returns The updated layer.
+ */
+export const updateLayerTrack = (
+  layer: Layer,
+  key: TrackKey,
+  update: <T>(property: AnimatedProperty<T>) => AnimatedProperty<T>,
+): Layer => {
+  if (key === 'color') {
+    return { ...layer, color: { ...layer.color, ...update(layer.color) } };
+  }
+  return updateLayerProperty(layer, key, update);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { EasingFunction, Layer } from '../types';
+import { DEFAULT_ARTBOARD } from '../constants';
+import { generateLottie, verifyLottie } from './lottieExport';
+import { createNewLayer } from './layer';
+import { createSpringEasing } from './spring';
+
+/** A layer that moves from 0 to 300px over a second with an easing. */
+const createMovingLayer = (easing: EasingFunction): Layer => {
+  const layer = createNewLayer('A', 0);
+  return {
+    ...layer,
+    x: {
+      ...layer.x,
+      keyframes: [
+        { id: 'start', time: 0, value: 0, easing },
+        { id: 'end', time: 1000, value: 300, easing: 'linear' },
+      ],
+    },
+  };
+};
+
+const exportAndVerify = (easing: EasingFunction) => {
+  const input = {
+    layers: [createMovingLayer(easing)],
+    duration: 1000,
+    fps: 30,
+    markers: [],
+    artboard: DEFAULT_ARTBOARD,
+  };
+  return verifyLottie(JSON.stringify(generateLottie(input).animation), input);
+};
+
+describe('verifyLottie', () => {
+  it('matches a default spring', () => {
+    expect(exportAndVerify(createSpringEasing()).issues).toEqual([]);
+  });
+
+  it('matches steps that jump at the start', () => {
+    const easing: EasingFunction = {
+      type: 'steps',
+      count: 4,
+      position: 'jump-start',
+    };
+    expect(exportAndVerify(easing).issues).toEqual([]);
+  });
+
+  it('matches a Bézier easing with keyframes at its tangents', () => {
+    expect(exportAndVerify([0.42, 0, 0.58, 1]).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,571 @@
+import type { CubicBezier, Keyframe, Layer, TimelineMarker } from '../types';
+import { MOTION_PATH_CONFIG, SHAPE_LABELS } from '../constants';
+import { applyEasing, getAnimatedValueAtTime } from './animation';
+import { parseHexColor } from './color';
+import { getChildLayers, getLayerAncestors } from './hierarchy';
+import { getMarkerRange, sortMarkers } from './markers';
+import { bakeMotionPath } from './motionPath';
+import { sampleLayerAtTime, sortLayersForRendering } from './render';
+import type { LayerFrame } from './render';
+import { getShapeProperty, getShapePropertyKeys } from './shape';
+import { getKeyframeStops } from './keyframeStops';
+import type { ExportEasing } from './keyframeStops';
+
+/** The parts of a project the Lottie export reads. */
+export interface LottieExportInput {
+  layers: Layer[];
+  duration: number;
+  fps: number;
+  markers: TimelineMarker[];
+  artboard: { width: number; height: number };
+}
+
+/** A Lottie keyframe. Its tangents ease the segment up to the next one. */
+export interface LottieKeyframe {
+  t: number; // Frame
+  s: number[];
+  h?: 1; // Holds the value until the next keyframe
+  o?: { x: number[]; y: number[] }; // First Bézier control point
+  i?: { x: number[]; y: number[] }; // Second Bézier control point
+}
+
+/** A Lottie property, static or keyframed. */
+export type LottieProperty =
+  { a: 0; k: number | number[] } | { a: 1; k: LottieKeyframe[] };
+
+/** A Lottie layer transform; position is split into x and y. */
+export interface LottieTransform {
+  o: LottieProperty;
+  r: LottieProperty;
+  p: { s: true; x: LottieProperty; y: LottieProperty };
+  a: LottieProperty;
+  s: LottieProperty;
+}
+
+/** A Lottie shape item. Only the fields this export writes are typed. */
+export interface LottieShape {
+  ty: 'gr' | 'rc' | 'el' | 'sr' | 'fl' | 'tr';
+  nm?: string;
+  [key: string]: unknown;
+}
+
+/** A Lottie shape layer (ty 4) or null layer (ty 3). */
+export interface LottieLayer {
+  ddd: 0;
+  ind: number;
+  ty: 3 | 4;
+  nm: string;
+  ln: string; // The animator's layer id
+  sr: 1;
+  ks: LottieTransform;
+  ao: 0;
+  shapes?: LottieShape[];
+  parent?: number;
+  ip: number;
+  op: number;
+  st: 0;
+  bm: 0;
+}
+
+/** A Lottie (Bodymovin) animation. */
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: 0;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: 0;
+  assets: [];
+  layers: LottieLayer[]; // Top to bottom
+  markers: Array<{ tm: number; cm: string; dr: number }>;
+}
+
+/** The result of re-importing a Lottie export and comparing it. */
+export interface LottieVerification {
+  frames: number; // Frames compared per layer
+  issues: string[]; // Values that drifted past the tolerance
+}
+
+const LOTTIE_VERSION = '5.7.4';
+const LINEAR_BEZIER: CubicBezier = [0, 0, 1, 1];
+const STAR_BOX = 100; // Stars are drawn in this box and scaled to the layer
+const FRAME_PRECISION = 0.001; // Frames are written with 3 decimals
+
+// Largest drift the verification accepts, per compared value.
+const TOLERANCE = {
+  x: 0.5,
+  y: 0.5,
+  width: 0.5,
+  height: 0.5,
+  rotation: 0.5,
+  scale: 0.005,
+  opacity: 0.005,
+} as const;
+
+const round = (value: number): number => +value.toFixed(3);
+
+/** Lottie eases with Béziers and holds; everything else is sampled. */
+const isLottieEasing = (easing: ExportEasing): boolean =>
+  easing === 'linear' || easing === 'hold' || Array.isArray(easing);
+
+/**
+ * Builds a Lottie property at the merged keyframe times of its tracks, or a
+ * static one when the value never changes.
+ * @param layer The layer the value is sampled from.
+ * @param tracks The keyframes the value depends on.
+ * @param canBlend False when linear interpolation is not how it blends.
+ * @param valueOf Reads the value from a sampled frame.
+ * @param input The project being exported.
+ */
+const createProperty = (
+  layer: Layer,
+  tracks: Keyframe<unknown>[][],
+  canBlend: boolean,
+  valueOf: (frame: LayerFrame, time: number) => number[],
+  { duration, fps }: LottieExportInput,
+): LottieProperty => {
+  const valueAt = (time: number) =>
+    valueOf(sampleLayerAtTime(layer, time), time).map(round);
+  const initial = valueAt(0);
+  const staticValue: LottieProperty = {
+    a: 0,
+    k: initial.length === 1 ? initial[0] : initial,
+  };
+  if (tracks.every((keyframes) => keyframes.length === 0)) return staticValue;
+
+  const stops = getKeyframeStops(tracks, duration, {
+    canBlend,
+    canExpress: isLottieEasing,
+  });
+  const values = stops.map(({ sampleTime }) => valueAt(sampleTime));
+  if (values.every((value) => value.join() === initial.join())) {
+    return staticValue;
+  }
+
+  // A hold of no length, where steps jump right at their keyframe, keeps
+  // its value at that exact frame, so the next keyframe starts just after.
+  let previousFrame = -Infinity;
+  return {
+    a: 1,
+    k: stops.map(({ time, easing }, i) => {
+      const t = Math.max(
+        round((time * fps) / 1000),
+        round(previousFrame + FRAME_PRECISION),
+      );
+      previousFrame = t;
+      const keyframe: LottieKeyframe = { t, s: values[i] };
+      if (i === stops.length - 1) return keyframe;
+      if (easing === 'hold') return { ...keyframe, h: 1 };
+
+      const [x1, y1, x2, y2] = Array.isArray(easing) ? easing : LINEAR_BEZIER;
+      const each = (value: number) => values[i].map(() => value);
+      return {
+        ...keyframe,
+        o: { x: each(x1), y: each(y1) },
+        i: { x: each(x2), y: each(y2) },
+      };
+    }),
+  };
+};
+
+const toRgba = (hex: string): [number, number, number, number] => {
+  const { r, g, b, a } = parseHexColor(hex) ?? { r: 0, g: 0, b: 0, a: 1 };
+  return [r, g, b, a];
+};
+
+/**
+ * Builds the transform of a layer. Lottie places the anchor point at the
+ * position and pivots around it, like formatLayerTransform. Lottie parents
+ * only pass on their transform, so opacity is multiplied down the tree.
+ */
+const createTransform = (
+  layer: Layer,
+  ancestors: Layer[],
+  input: LottieExportInput,
+): LottieTransform => {
+  const { x, y, width, height, rotation, scale, opacity } = layer;
+  const property = (
+    tracks: Keyframe<unknown>[][],
+    valueOf: (frame: LayerFrame, time: number) => number[],
+    canBlend: boolean = true,
+  ) => createProperty(layer, tracks, canBlend, valueOf, input);
+  const isOpacityInherited = ancestors.some(
+    (ancestor) =>
+      new Set(ancestor.opacity.keyframes.map((kf) => kf.value)).size > 1,
+  );
+
+  return {
+    o: property(
+      [opacity, ...ancestors.map((ancestor) => ancestor.opacity)].map(
+        (p) => p.keyframes,
+      ),
+      (frame, time) => [
+        ancestors.reduce(
+          (product, ancestor) =>
+            product * sampleLayerAtTime(ancestor, time).opacity,
+          frame.opacity,
+        ) * 100,
+      ],
+      !isOpacityInherited,
+    ),
+    r: property([rotation.keyframes], (f) => [f.rotation]),
+    p: {
+      s: true,
+      x: property([x.keyframes, width.keyframes], (f) => [f.x + f.anchorX]),
+      y: property([y.keyframes, height.keyframes], (f) => [f.y + f.anchorY]),
+    },
+    a: property([width.keyframes, height.keyframes], (f) => [
+      f.anchorX,
+      f.anchorY,
+    ]),
+    s: property([scale.keyframes], (f) => [f.scale * 100, f.scale * 100]),
+  };
+};
+
+/** A shape group transform that leaves its contents as they are. */
+const IDENTITY_TRANSFORM: LottieShape = {
+  ty: 'tr',
+  p: { a: 0, k: [0, 0] },
+  a: { a: 0, k: [0, 0] },
+  s: { a: 0, k: [100, 100] },
+  r: { a: 0, k: 0 },
+  o: { a: 0, k: 100 },
+};
+
+/**
+ * Builds the shape group of a layer: its geometry in the layer box and its
+ * fill. Polygons and stars are drawn in a fixed box that the group scales
+ * to the layer, which also stretches them the way the preview does.
+ * @returns The group, or null for shapes Lottie cannot draw here.
+ */
+const createShapeGroup = (
+  layer: Layer,
+  input: LottieExportInput,
+): LottieShape | null => {
+  const { shape, width, height, color } = layer;
+  const property = (
+    tracks: Keyframe<unknown>[][],
+    valueOf: (frame: LayerFrame, time: number) => number[],
+    canBlend: boolean = true,
+  ) => createProperty(layer, tracks, canBlend, valueOf, input);
+  const size = [width.keyframes, height.keyframes];
+  const center = property(size, (f) => [f.width / 2, f.height / 2]);
+  const shapeTracks = getShapePropertyKeys(shape).map(
+    (key) => getShapeProperty(shape, key)?.keyframes ?? [],
+  );
+
+  let geometry: LottieShape;
+  let transform = IDENTITY_TRANSFORM;
+  switch (shape.type) {
+    case 'rectangle':
+    case 'rounded-rectangle':
+      geometry = {
+        ty: 'rc',
+        nm: SHAPE_LABELS[shape.type],
+        d: 1,
+        p: center,
+        s: property(size, (f) => [f.width, f.height]),
+        r: property([...size, ...shapeTracks], (f) => [
+          f.geometry.kind === 'rect' ? f.geometry.rx : 0,
+        ]),
+      };
+      break;
+    case 'ellipse':
+      geometry = {
+        ty: 'el',
+        nm: SHAPE_LABELS.ellipse,
+        d: 1,
+        p: center,
+        s: property(size, (f) => [f.width, f.height]),
+      };
+      break;
+    case 'polygon':
+    case 'star': {
+      // Vertex counts round to whole numbers, so they are sampled.
+      const vertices = property(
+        shapeTracks,
+        (f) => [
+          f.geometry.kind === 'polygon'
+            ? f.geometry.points.length / (shape.type === 'star' ? 2 : 1)
+            : 0,
+        ],
+        false,
+      );
+      geometry = {
+        ty: 'sr',
+        nm: SHAPE_LABELS[shape.type],
+        d: 1,
+        sy: shape.type === 'star' ? 1 : 2,
+        pt: vertices,
+        p: { a: 0, k: [STAR_BOX / 2, STAR_BOX / 2] },
+        r: { a: 0, k: 0 },
+        or: { a: 0, k: STAR_BOX / 2 },
+        os: { a: 0, k: 0 },
+        ...(shape.type === 'star'
+          ? {
+              ir: property([shape.innerRadius.keyframes], (_, time) => [
+                (Math.max(
+                  0,
+                  Math.min(1, getAnimatedValueAtTime(shape.innerRadius, time)),
+                ) *
+                  STAR_BOX) /
+                  2,
+              ]),
+              is: { a: 0, k: 0 },
+            }
+          : {}),
+      };
+      transform = {
+        ...IDENTITY_TRANSFORM,
+        s: property(size, (f) => [
+          (f.width / STAR_BOX) * 100,
+          (f.height / STAR_BOX) * 100,
+        ]),
+      };
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return {
+    ty: 'gr',
+    nm: layer.name,
+    it: [
+      geometry,
+      {
+        ty: 'fl',
+        nm: 'Fill',
+        c: property(
+          [color.keyframes],
+          (_, time) => toRgba(sampleLayerAtTime(layer, time).color).slice(0, 3),
+          color.interpolation === 'srgb',
+        ),
+        o: property(
+          [color.keyframes],
+          (f) => [toRgba(f.color)[3] * 100],
+          color.interpolation === 'srgb',
+        ),
+        r: 1,
+      },
+      transform,
+    ],
+  };
+};
+
+/**
+ * Converts a project to a Lottie animation. Shape layers keep their
+ * geometry, fill, z-order and parenting; groups become null layers.
+ * Keyframes land on the merged keyframe times of the tracks each Lottie
+ * property depends on, with Bézier easings as tangents; other easings are
+ * sampled. Motion paths are baked into keyframes.
+ * @param input The project to export.
+ * @returns The animation and the layers it could not draw.
+ */
+export const generateLottie = (
+  input: LottieExportInput,
+): { animation: LottieAnimation; skipped: string[] } => {
+  const { duration, fps, markers, artboard } = input;
+  const layers = input.layers.map((layer) =>
+    bakeMotionPath(layer, MOTION_PATH_CONFIG.bakeSteps),
+  );
+  const op = round((duration * fps) / 1000);
+
+  // Lottie lists layers top to bottom; render order is parents first,
+  // back to front.
+  const ordered: Layer[] = [];
+  const visit = (parentId: string | null) =>
+    sortLayersForRendering(getChildLayers(layers, parentId)).forEach(
+      (layer) => {
+        ordered.push(layer);
+        visit(layer.id);
+      },
+    );
+  visit(null);
+  const indexOf = (id: string) =>
+    ordered.length - ordered.findIndex((l) => l.id === id);
+
+  const skipped: string[] = [];
+  const lottieLayers = ordered
+    .map((layer): LottieLayer => {
+      const ancestors = getLayerAncestors(layers, layer);
+      const group =
+        layer.kind === 'group' ? null : createShapeGroup(layer, input);
+      if (layer.kind !== 'group' && !group) skipped.push(layer.name);
+
+      return {
+        ddd: 0,
+        ind: indexOf(layer.id),
+        ty: group ? 4 : 3,
+        nm: layer.name,
+        ln: layer.id,
+        sr: 1,
+        ks: createTransform(layer, ancestors, input),
+        ao: 0,
+        ...(group ? { shapes: [group] } : {}),
+        ...(layer.parentId ? { parent: indexOf(layer.parentId) } : {}),
+        ip: 0,
+        op,
+        st: 0,
+        bm: 0,
+      };
+    })
+    .reverse();
+
+  return {
+    animation: {
+      v: LOTTIE_VERSION,
+      fr: fps,
+      ip: 0,
+      op,
+      w: artboard.width,
+      h: artboard.height,
+      nm: 'animation',
+      ddd: 0,
+      assets: [],
+      layers: lottieLayers,
+      markers: sortMarkers(markers).map((marker) => {
+        const { start, end } = getMarkerRange(marker, duration);
+        return {
+          tm: round((start * fps) / 1000),
+          cm: marker.name,
+          dr: round(((end - start) * fps) / 1000),
+        };
+      }),
+    },
+    skipped,
+  };
+};
+
+/**
+ * Evaluates a Lottie property at a frame, the way Lottie players do.
+ * @param property The property.
+ * @param frame The frame, which may fall between whole frames.
+ * @returns The value, one number per dimension.
+ */
+export const sampleLottieProperty = (
+  property: LottieProperty,
+  frame: number,
+): number[] => {
+  if (property.a === 0) {
+    return Array.isArray(property.k) ? property.k : [property.k];
+  }
+
+  const keyframes = property.k;
+  const index = keyframes.findIndex(
+    (_, i) => frame < (keyframes[i + 1]?.t ?? Infinity),
+  );
+  const from = keyframes[Math.max(0, index)];
+  const to = keyframes[index + 1];
+  if (!to || frame <= from.t || from.h) return from.s;
+
+  const progress = (frame - from.t) / (to.t - from.t);
+  return from.s.map((value, d) => {
+    const eased =
+      from.o && from.i
+        ? applyEasing(progress, [
+            from.o.x[d],
+            from.o.y[d],
+            from.i.x[d],
+            from.i.y[d],
+          ])
+        : progress;
+    return value + eased * (to.s[d] - value);
+  });
+};
+
+/**
+ * Re-imports a Lottie export and compares it, at every frame, with the
+ * values the animator computes for each layer.
+ * @param json The exported Lottie file.
+ * @param input The project it was exported from.
+ * @returns The frames compared and any values that drifted.
+ */
+export const verifyLottie = (
+  json: string,
+  input: LottieExportInput,
+): LottieVerification => {
+  const animation = JSON.parse(json) as LottieAnimation;
+  const layers = input.layers.map((layer) =>
+    bakeMotionPath(layer, MOTION_PATH_CONFIG.bakeSteps),
+  );
+  const frames = Math.floor(animation.op) + 1;
+  const issues: string[] = [];
+
+  animation.layers.forEach((lottieLayer) => {
+    const layer = layers.find((l) => l.id === lottieLayer.ln);
+    if (!layer) {
+      issues.push(`${lottieLayer.nm}: no matching layer`);
+      return;
+    }
+    const ancestors = getLayerAncestors(layers, layer);
+    const { ks } = lottieLayer;
+    const group = lottieLayer.shapes?.[0]?.it as LottieShape[] | undefined;
+    const box = group?.find((item) => item.ty === 'rc' || item.ty === 'el');
+
+    const drift: Partial<Record<keyof typeof TOLERANCE, number>> = {};
+    const compare = (
+      key: keyof typeof TOLERANCE,
+      actual: number,
+      expected: number,
+    ) => {
+      drift[key] = Math.max(drift[key] ?? 0, Math.abs(actual - expected));
+    };
+
+    for (let frame = 0; frame < frames; frame++) {
+      const time = Math.min(input.duration, (frame * 1000) / animation.fr);
+      const [anchorX, anchorY] = sampleLottieProperty(ks.a, frame);
+      const value = (property: Layer['x']) =>
+        getAnimatedValueAtTime(property, time);
+
+      compare(
+        'x',
+        sampleLottieProperty(ks.p.x, frame)[0] - anchorX,
+        value(layer.x),
+      );
+      compare(
+        'y',
+        sampleLottieProperty(ks.p.y, frame)[0] - anchorY,
+        value(layer.y),
+      );
+      compare(
+        'rotation',
+        sampleLottieProperty(ks.r, frame)[0],
+        value(layer.rotation),
+      );
+      compare(
+        'scale',
+        sampleLottieProperty(ks.s, frame)[0] / 100,
+        value(layer.scale),
+      );
+      compare(
+        'opacity',
+        sampleLottieProperty(ks.o, frame)[0] / 100,
+        ancestors.reduce(
+          (product, ancestor) =>
+            product * sampleLayerAtTime(ancestor, time).opacity,
+          sampleLayerAtTime(layer, time).opacity,
+        ),
+      );
+      if (box) {
+        const [width, height] = sampleLottieProperty(
+          box.s as LottieProperty,
+          frame,
+        );
+        compare('width', width, Math.max(0, value(layer.width)));
+        compare('height', height, Math.max(0, value(layer.height)));
+      }
+    }
+
+    (Object.keys(drift) as Array<keyof typeof TOLERANCE>).forEach((key) => {
+      const amount = drift[key] ?? 0;
+      if (amount > TOLERANCE[key]) {
+        issues.push(`${layer.name}: ${key} drifts by up to ${round(amount)}`);
+      }
+    });
+  });
+
+  return { frames, issues };
+};
@@ -0,0 +1,102 @@
+import type { LoopRange, TimelineMarker } from '../types';
+import { generateId } from './animation';
+
+/**
+ * Creates a point marker.
+ * @param name The display name.
+ * @param time The marker time in milliseconds.
+ * @returns A new TimelineMarker.
+ */
+export const createMarker = (name: string, time: number): TimelineMarker => ({
+  id: generateId(),
+  name,
+  time: Math.round(time),
+  endTime: null,
+});
+
+/**
+ * Creates a region marker.
+ * @param name The display name.
+ * @param start The region start in milliseconds.
+ * @param end The region end in milliseconds.
+ * @returns A new TimelineMarker.
+ */
+export const createRegion = (
+  name: string,
+  start: number,
+  end: number,
+): TimelineMarker => ({
+  id: generateId(),
+  name,
+  time: Math.round(Math.min(start, end)),
+  endTime: Math.round(Math.max(start, end)),
+});
+
+/** Returns true if the marker spans a region rather than a single point. */
+export const isRegion = (marker: TimelineMarker): boolean =>
+  marker.endTime !== null;
+
+/** Returns the markers sorted by time, without changing the array. */
+export const sortMarkers = (markers: TimelineMarker[]): TimelineMarker[] =>
+  markers.slice().sort((a, b) => a.time - b.time);
+
+/**
+ * Returns the part of the animation a marker plays: a region's own range,
+ * or from a point marker to the end of the animation.
+ * @param marker The marker.
+ * @param duration The animation duration in milliseconds.
+ * @returns The range, clamped to the animation.
+ */
+export const getMarkerRange = (
+  marker: TimelineMarker,
+  duration: number,
+): LoopRange => {
+  const start = Math.min(marker.time, duration);
+  return {
+    start,
+    end: Math.max(start, Math.min(marker.endTime ?? duration, duration)),
+  };
+};
+
+/**
+ * Fits markers into a shortened animation: markers after the end are
+ * dropped and regions that cross it end there.
+ * @param markers The markers.
+ * @param duration The animation duration in milliseconds.
+ * @returns The markers that remain.
+ */
+export const clampMarkers = (
+  markers: TimelineMarker[],
+  duration: number,
+): TimelineMarker[] =>
+  markers
+    .filter((marker) =>
+      isRegion(marker) ? marker.time < duration : marker.time <= duration,
+    )
+    .map((marker) =>
+      marker.endTime !== null && marker.endTime > duration
+        ? { ...marker, endTime: duration }
+        : marker,
+    );
+
+/**
+ * Lists every time a marker starts or ends at, for snapping.
+ * @param markers The markers.
+ * @returns The times in milliseconds.
+ */
+export const getMarkerTimes = (markers: TimelineMarker[]): number[] =>
+  markers.flatMap((marker) =>
+    marker.endTime === null ? [marker.time] : [marker.time, marker.endTime],
+  );
+
+/**
+ * Turns a marker name into a string that is safe in CSS class names and
+ * SVG ids, e.g. 'Intro Loop' becomes 'intro-loop'.
+ * @param marker The marker.
+ * @returns The slug, or the marker id when the name has no usable characters.
+ */
+export const getMarkerSlug = (marker: TimelineMarker): string =>
+  marker.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || marker.id;
@@ -0,0 +1,350 @@
+import type {
+  AnimatedProperty,
+  EasingFunction,
+  Keyframe,
+  Layer,
+  MotionPathSettings,
+} from '../types';
+import { MOTION_PATH_CONFIG } from '../constants';
+import { applyEasing, generateId, getAnimatedValueAtTime } from './animation';
+
+/** A 2D point of a motion path with its tangent handles. */
+export interface MotionPathPoint {
+  time: number;
+  x: number;
+  y: number;
+  inTangent: [number, number]; // Relative to the point
+  outTangent: [number, number]; // Relative to the point
+  easing: EasingFunction; // Easing of the segment starting here
+}
+
+/** A position on a motion path and the direction of travel there. */
+export interface MotionPathPosition {
+  x: number;
+  y: number;
+  angle: number; // In degrees, 0 pointing right
+}
+
+type Vec2 = [number, number];
+
+/** Creates motion path settings with the path disabled. */
+export const createMotionPathSettings = (): MotionPathSettings => ({
+  enabled: false,
+  orientToPath: false,
+});
+
+const findKeyframeAt = (property: AnimatedProperty, time: number) =>
+  property.keyframes.find((kf) => kf.time === time);
+
+/**
+ * Pairs the x and y keyframes of a layer into motion path points. A time
+ * keyframed on only one axis takes the other axis from its animated value.
+ * @param layer The layer.
+ * @returns The points sorted by time.
+ */
+export const getMotionPathPoints = (layer: Layer): MotionPathPoint[] => {
+  const times = [
+    ...new Set([...layer.x.keyframes, ...layer.y.keyframes].map((k) => k.time)),
+  ].sort((a, b) => a - b);
+
+  return times.map((time) => {
+    const kx = findKeyframeAt(layer.x, time);
+    const ky = findKeyframeAt(layer.y, time);
+    return {
+      time,
+      x: kx?.value ?? getAnimatedValueAtTime(layer.x, time),
+      y: ky?.value ?? getAnimatedValueAtTime(layer.y, time),
+      inTangent: [kx?.inTangent ?? 0, ky?.inTangent ?? 0],
+      outTangent: [kx?.outTangent ?? 0, ky?.outTangent ?? 0],
+      easing: kx?.easing ?? ky?.easing ?? 'linear',
+    };
+  });
+};
+
+/** Returns the bezier control points of the segment between two points. */
+const getSegmentControls = (
+  from: MotionPathPoint,
+  to: MotionPathPoint,
+): [Vec2, Vec2, Vec2, Vec2] => [
+  [from.x, from.y],
+  [from.x + from.outTangent[0], from.y + from.outTangent[1]],
+  [to.x + to.inTangent[0], to.y + to.inTangent[1]],
+  [to.x, to.y],
+];
+
+const bezierPoint = ([p0, p1, p2, p3]: Vec2[], u: number): Vec2 => {
+  const v = 1 - u;
+  const a = v * v * v;
+  const b = 3 * v * v * u;
+  const c = 3 * v * u * u;
+  const d = u * u * u;
+  return [
+    a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0],
+    a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1],
+  ];
+};
+
+const bezierDerivative = ([p0, p1, p2, p3]: Vec2[], u: number): Vec2 => {
+  const v = 1 - u;
+  const a = 3 * v * v;
+  const b = 6 * v * u;
+  const c = 3 * u * u;
+  return [
+    a * (p1[0] - p0[0]) + b * (p2[0] - p1[0]) + c * (p3[0] - p2[0]),
+    a * (p1[1] - p0[1]) + b * (p2[1] - p1[1]) + c * (p3[1] - p2[1]),
+  ];
+};
+
+/**
+ * Finds the bezier parameter at a fraction of the segment's arc length,
+ * so equal time steps cover equal distances.
+ */
+const getParameterAtDistance = (controls: Vec2[], fraction: number): number => {
+  const samples = MOTION_PATH_CONFIG.arcLengthSamples;
+  const lengths = [0];
+  let previous = controls[0];
+  for (let i = 1; i <= samples; i++) {
+    const point = bezierPoint(controls, i / samples);
+    lengths.push(
+      lengths[i - 1] +
+        Math.hypot(point[0] - previous[0], point[1] - previous[1]),
+    );
+    previous = point;
+  }
+
+  const total = lengths[samples];
+  if (total === 0) return fraction;
+
+  const target = fraction * total;
+  let i = 1;
+  while (i < samples && lengths[i] < target) i++;
+  const span = lengths[i] - lengths[i - 1];
+  const local = span > 0 ? (target - lengths[i - 1]) / span : 0;
+  return (i - 1 + local) / samples;
+};
+
+const getAngle = (controls: Vec2[], u: number): number => {
+  let [dx, dy] = bezierDerivative(controls, u);
+  if (Math.hypot(dx, dy) < 1e-9) {
+    // Zero-length handles: fall back to the chord direction.
+    dx = controls[3][0] - controls[0][0];
+    dy = controls[3][1] - controls[0][1];
+  }
+  return (Math.atan2(dy, dx) * 180) / Math.PI;
+};
+
+/**
+ * Resolves the position on a motion path at a time. Within each segment the
+ * eased time progress is applied to arc length, so a linear segment is
+ * travelled at constant speed.
+ * @param points The motion path points sorted by time.
+ * @param time The time in milliseconds.
+ * @returns The position, or null if the path has fewer than two points.
+ */
+export const getMotionPathPosition = (
+  points: MotionPathPoint[],
+  time: number,
+): MotionPathPosition | null => {
+  if (points.length < 2) return null;
+
+  let index = 0;
+  while (index < points.length - 2 && points[index + 1].time <= time) index++;
+
+  const from = points[index];
+  const to = points[index + 1];
+  const controls = getSegmentControls(from, to);
+  const t_progress = Math.max(
+    0,
+    Math.min(1, (time - from.time) / (to.time - from.time)),
+  );
+  const u = getParameterAtDistance(
+    controls,
+    applyEasing(t_progress, from.easing),
+  );
+  const [x, y] = bezierPoint(controls, Math.max(0, Math.min(1, u)));
+
+  return { x, y, angle: getAngle(controls, Math.max(0, Math.min(1, u))) };
+};
+
+/**
+ * Builds SVG path data for a motion path.
+ * @param points The motion path points sorted by time.
+ * @param offsetX Added to every x, e.g. to draw the path through box centers.
+ * @param offsetY Added to every y.
+ */
+export const formatMotionPathData = (
+  points: MotionPathPoint[],
+  offsetX: number = 0,
+  offsetY: number = 0,
+): string =>
+  points
+    .map((point, i) => {
+      if (i === 0) return `M${point.x + offsetX} ${point.y + offsetY}`;
+      const [, c1, c2, end] = getSegmentControls(points[i - 1], point).map(
+        ([x, y]) => `${x + offsetX} ${y + offsetY}`,
+      );
+      return `C${c1} ${c2} ${end}`;
+    })
+    .join(' ');
+
+/** Changes to one motion path point; tangents are relative to the point. */
+export interface MotionPathPointUpdate {
+  x?: number;
+  y?: number;
+  inTangent?: [number, number];
+  outTangent?: [number, number];
+}
+
+/** Applies one axis of a point update, creating the keyframe if needed. */
+const updateAxis = (
+  property: AnimatedProperty,
+  time: number,
+  value: number | undefined,
+  inTangent: number | undefined,
+  outTangent: number | undefined,
+): AnimatedProperty => {
+  const existing = findKeyframeAt(property, time);
+  const keyframe: Keyframe = existing ?? {
+    id: generateId(),
+    time,
+    value: getAnimatedValueAtTime(property, time),
+    easing: 'linear',
+  };
+  const updated: Keyframe = {
+    ...keyframe,
+    ...(value !== undefined && { value }),
+    ...(inTangent !== undefined && { inTangent }),
+    ...(outTangent !== undefined && { outTangent }),
+  };
+
+  return {
+    ...property,
+    keyframes: existing
+      ? property.keyframes.map((kf) => (kf === existing ? updated : kf))
+      : [...property.keyframes, updated].sort((a, b) => a.time - b.time),
+  };
+};
+
+/**
+ * Returns a copy of the layer with one motion path point changed. Missing x
+ * or y keyframes at that time are created so the point stays paired.
+ * @param layer The layer.
+ * @param time Time of the point in milliseconds.
+ * @param update The new position and/or tangents.
+ * @returns The updated layer.
+ */
+export const updateMotionPathPoint = (
+  layer: Layer,
+  time: number,
+  update: MotionPathPointUpdate,
+): Layer => ({
+  ...layer,
+  x: updateAxis(
+    layer.x,
+    time,
+    update.x,
+    update.inTangent?.[0],
+    update.outTangent?.[0],
+  ),
+  y: updateAxis(
+    layer.y,
+    time,
+    update.y,
+    update.inTangent?.[1],
+    update.outTangent?.[1],
+  ),
+});
+
+/**
+ * Gives every x keyframe a y keyframe at the same time and vice versa, so
+ * each motion path point can be edited on both axes.
+ * @param layer The layer.
+ * @returns The layer with paired keyframes.
+ */
+export const pairMotionPathKeyframes = (layer: Layer): Layer =>
+  getMotionPathPoints(layer).reduce(
+    (result, point) => updateMotionPathPoint(result, point.time, {}),
+    layer,
+  );
+
+/**
+ * Replaces a layer's motion path with dense linear x/y (and, when oriented,
+ * rotation) keyframes, for exporters that can only animate each property
+ * on its own. Rotation keyframes before or after the path still turn the
+ * layer, facing the path's first or last direction, so the rotation is
+ * sampled across them too.
+ * @param layer The layer.
+ * @param steps Number of samples across the path's time range.
+ * @returns The baked layer, or the layer itself if it has no motion path.
+ */
+export const bakeMotionPath = (layer: Layer, steps: number): Layer => {
+  const points = getMotionPathPoints(layer);
+  if (!layer.motionPath.enabled || points.length < 2) return layer;
+
+  const start = points[0].time;
+  const end = points[points.length - 1].time;
+  const times = Array.from(
+    { length: steps + 1 },
+    (_, i) => start + ((end - start) * i) / steps,
+  );
+  const positions = times.map(
+    (time) => getMotionPathPosition(points, time) ?? { x: 0, y: 0, angle: 0 },
+  );
+
+  // Unwrap angles so rotation does not spin the long way across ±180°.
+  const angles = positions.map((p) => p.angle);
+  for (let i = 1; i < angles.length; i++) {
+    const delta = ((((angles[i] - angles[i - 1]) % 360) + 540) % 360) - 180;
+    angles[i] = angles[i - 1] + delta;
+  }
+
+  // Samples at the path's spacing from one time towards another, excluding
+  // the latter.
+  const interval = (end - start) / steps;
+  const sampleToward = (from: number, to: number): number[] => {
+    const count = Math.ceil(Math.abs(to - from) / interval);
+    return Array.from(
+      { length: count },
+      (_, i) => from + ((to - from) * i) / count,
+    );
+  };
+  const rotationTimes = layer.rotation.keyframes.map((kf) => kf.time);
+  const before = sampleToward(Math.min(start, ...rotationTimes), start);
+  const after = sampleToward(Math.max(end, ...rotationTimes), end).reverse();
+  const orientedTimes = [...before, ...times, ...after];
+  const orientedAngles = [
+    ...before.map(() => angles[0]),
+    ...angles,
+    ...after.map(() => angles[angles.length - 1]),
+  ];
+
+  const track = (
+    property: AnimatedProperty,
+    sampleTimes: number[],
+    valueOf: (i: number) => number,
+  ): AnimatedProperty => ({
+    ...property,
+    keyframes: sampleTimes.map((time, i) => ({
+      id: generateId(),
+      time,
+      value: valueOf(i),
+      easing: 'linear',
+    })),
+  });
+
+  return {
+    ...layer,
+    x: track(layer.x, times, (i) => positions[i].x),
+    y: track(layer.y, times, (i) => positions[i].y),
+    rotation: layer.motionPath.orientToPath
+      ? track(
+          layer.rotation,
+          orientedTimes,
+          (i) =>
+            getAnimatedValueAtTime(layer.rotation, orientedTimes[i]) +
+            orientedAngles[i],
+        )
+      : layer.rotation,
+    motionPath: createMotionPathSettings(),
+  };
+};
@@ -0,0 +1,72 @@
+import type { Layer, OnionSkinSettings } from '../types';
+import { getLayerTrack, getLayerTrackKeys } from './layer';
+import { frameToTime, timeToFrame } from './playback';
+
+/** A ghost of a layer at a time near the playhead. */
+export interface OnionSkinGhost {
+  time: number; // In milliseconds
+  side: 'before' | 'after';
+  opacity: number;
+}
+
+/** Returns the distinct keyframe times of every track of a layer, sorted. */
+const getLayerKeyframeTimes = (layer: Layer): number[] =>
+  [
+    ...new Set(
+      getLayerTrackKeys(layer).flatMap(
+        (key) =>
+          getLayerTrack(layer, key)?.keyframes.map((kf) => kf.time) ?? [],
+      ),
+    ),
+  ].sort((a, b) => a - b);
+
+/**
+ * Picks the times a layer's onion skin ghosts are drawn at: every few frames
+ * out from the playhead's frame, or at the nearest keyframes of the layer.
+ * Ghosts fade by the falloff with each step away from the playhead.
+ * @param layer The layer.
+ * @param settings The onion skin settings.
+ * @param currentTime The playhead time in milliseconds.
+ * @param fps The project frame rate.
+ * @param duration The animation duration in milliseconds.
+ * @returns The ghosts, farthest first so nearer ones are drawn on top.
+ */
+export const getOnionSkinGhosts = (
+  layer: Layer,
+  settings: OnionSkinSettings,
+  currentTime: number,
+  fps: number,
+  duration: number,
+): OnionSkinGhost[] => {
+  let before: number[];
+  let after: number[];
+
+  if (settings.mode === 'keyframes') {
+    const times = getLayerKeyframeTimes(layer);
+    before = times
+      .filter((time) => time < currentTime)
+      .reverse()
+      .slice(0, settings.before);
+    after = times.filter((time) => time > currentTime).slice(0, settings.after);
+  } else {
+    const frame = timeToFrame(currentTime, fps);
+    const step = Math.max(1, settings.spacing);
+    const times = (count: number, direction: number) =>
+      Array.from({ length: count }, (_, i) =>
+        frameToTime(frame + direction * (i + 1) * step, fps),
+      ).filter((time) => time >= 0 && time <= duration);
+    before = times(settings.before, -1);
+    after = times(settings.after, 1);
+  }
+
+  const toGhosts = (times: number[], side: OnionSkinGhost['side']) =>
+    times.map((time, i) => ({
+      time,
+      side,
+      opacity: settings.opacity * Math.pow(settings.falloff, i),
+    }));
+
+  return [...toGhosts(before, 'before'), ...toGhosts(after, 'after')].sort(
+    (a, b) => Math.abs(b.time - currentTime) - Math.abs(a.time - currentTime),
+  );
+};
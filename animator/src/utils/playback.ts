@@ -0,0 +1,128 @@
+import type { LoopRange, PlaybackMode } from '../types';
+
+/** Playhead position and direction after a playback step. */
+export interface PlaybackStep {
+  time: number; // In milliseconds
+  direction: 1 | -1; // 1 plays forward, -1 backward
+  isFinished: boolean; // Play-once reached the end of the range
+}
+
+/**
+ * Returns the time playback starts from when play is pressed. It resumes at
+ * the playhead, except outside the range, or at the far end of the range
+ * in play-once mode, where it starts over from the near end.
+ * @param time The playhead time in milliseconds.
+ * @param direction The play direction.
+ * @param mode The playback mode.
+ * @param range The range that is played.
+ * @returns The start time in milliseconds.
+ */
+export const getPlaybackStartTime = (
+  time: number,
+  direction: 1 | -1,
+  mode: PlaybackMode,
+  range: LoopRange,
+): number => {
+  const from = direction > 0 ? range.start : range.end;
+  const to = direction > 0 ? range.end : range.start;
+  if (time < range.start || time > range.end) return from;
+  if (mode === 'once' && time === to) return from;
+  return time;
+};
+
+/**
+ * Moves the playhead by the given amount of animation time.
+ * @param time The current time in milliseconds.
+ * @param direction The current play direction.
+ * @param delta Animation time to advance, in milliseconds: the elapsed real
+ * time multiplied by the playback rate.
+ * @param mode 'loop' wraps around, 'ping-pong' bounces between the ends and
+ * 'once' stops at the end.
+ * @param range The range that is played.
+ * @returns The new time and direction.
+ */
+export const advancePlayback = (
+  time: number,
+  direction: 1 | -1,
+  delta: number,
+  mode: PlaybackMode,
+  range: LoopRange,
+): PlaybackStep => {
+  const length = range.end - range.start;
+  if (length <= 0) {
+    return { time: range.start, direction, isFinished: mode === 'once' };
+  }
+
+  const mod = (value: number, divisor: number) =>
+    ((value % divisor) + divisor) % divisor;
+
+  if (mode === 'loop') {
+    return {
+      time: range.start + mod(time - range.start + delta * direction, length),
+      direction,
+      isFinished: false,
+    };
+  }
+
+  if (mode === 'ping-pong') {
+    // Unfolds the bounce into one forward pass over twice the range: the
+    // first half plays forward, the second half backward.
+    const offset = time - range.start;
+    const unfolded = mod(
+      (direction > 0 ? offset : 2 * length - offset) + delta,
+      2 * length,
+    );
+    return unfolded <= length
+      ? { time: range.start + unfolded, direction: 1, isFinished: false }
+      : {
+          time: range.start + 2 * length - unfolded,
+          direction: -1,
+          isFinished: false,
+        };
+  }
+
+  const next = time + delta * direction;
+  if (next >= range.end) {
+    return { time: range.end, direction, isFinished: true };
+  }
+  if (next <= range.start) {
+    return { time: range.start, direction, isFinished: true };
+  }
+  return { time: next, direction, isFinished: false };
+};
+
+/**
+ * Returns the frame a time falls in. Times within half a millisecond of a
+ * frame boundary count as that frame, since frame times are rounded.
+ * @param time The time in milliseconds.
+ * @param fps The frame rate.
+ */
+export const timeToFrame = (time: number, fps: number): number =>
+  Math.floor(((time + 0.5) * fps) / 1000);
+
+/**
+ * Returns the start time of a frame, in whole milliseconds.
+ * @param frame The frame number, starting at 0.
+ * @param fps The frame rate.
+ */
+export const frameToTime = (frame: number, fps: number): number =>
+  Math.round((frame * 1000) / fps);
+
+/**
+ * Moves a time by whole frames, landing on a frame start.
+ * @param time The current time in milliseconds.
+ * @param frames Frames to move; negative steps backward.
+ * @param fps The frame rate.
+ * @param duration The animation duration in milliseconds.
+ * @returns The new time, clamped to the animation.
+ */
+export const stepFrames = (
+  time: number,
+  frames: number,
+  fps: number,
+  duration: number,
+): number =>
+  Math.max(
+    0,
+    Math.min(duration, frameToTime(timeToFrame(time, fps) + frames, fps)),
+  );
@@ -0,0 +1,176 @@
+import { crc32 } from './crc32';
+import type { FrameEncoder } from './rasterExport';
+
+const PNG_SIGNATURE = Uint8Array.of(137, 80, 78, 71, 13, 10, 26, 10);
+
+/** Compresses bytes to a zlib stream with the browser's own deflate. */
+const deflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate')),
+    ).arrayBuffer(),
+  );
+
+/** Builds a PNG chunk: length, type, data and the CRC of type and data. */
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** Builds a chunk from big-endian fields of the given byte sizes. */
+const createFieldChunk = (
+  type: string,
+  fields: Array<[value: number, size: 1 | 2 | 4]>,
+): Uint8Array => {
+  const data = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(data.buffer);
+  fields.reduce((offset, [value, size]) => {
+    if (size === 1) view.setUint8(offset, value);
+    else if (size === 2) view.setUint16(offset, value);
+    else view.setUint32(offset, value);
+    return offset + size;
+  }, 0);
+  return createChunk(type, data);
+};
+
+/** The header of an 8-bit RGBA image. */
+const createHeader = (width: number, height: number): Uint8Array =>
+  createFieldChunk('IHDR', [
+    [width, 4],
+    [height, 4],
+    [8, 1], // Bit depth
+    [6, 1], // RGBA
+    [0, 1], // Deflate
+    [0, 1], // Adaptive filtering
+    [0, 1], // Not interlaced
+  ]);
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Filters RGBA pixels for compression, every row with the Paeth predictor,
+ * which suits both flat areas and antialiased edges.
+ */
+const filterPixels = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Uint8Array<ArrayBuffer> => {
+  const stride = width * 4;
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const out = y * (stride + 1);
+    filtered[out] = 4; // Paeth
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? pixels[row + x - 4] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = x >= 4 && y > 0 ? pixels[row - stride + x - 4] : 0;
+      filtered[out + 1 + x] = pixels[row + x] - paeth(left, up, upLeft);
+    }
+  }
+  return filtered;
+};
+
+/** Compresses RGBA pixels to the data of a PNG image. */
+const compressPixels = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Promise<Uint8Array> => deflate(filterPixels(pixels, width, height));
+
+/**
+ * Encodes RGBA pixels as a PNG file.
+ * @param pixels The pixels, as getImageData returns them.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @returns The file.
+ */
+export const encodePng = async (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const chunks = [
+    PNG_SIGNATURE,
+    createHeader(width, height),
+    createChunk('IDAT', await compressPixels(pixels, width, height)),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+  const file = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  chunks.reduce((offset, chunk) => {
+    file.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return file;
+};
+
+/**
+ * Creates an encoder for a looping animated PNG. Every frame replaces the
+ * whole image and keeps full alpha. Frames are compressed as they arrive,
+ * so only compressed data is held.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param fps Frames per second.
+ */
+export const createApngEncoder = (
+  width: number,
+  height: number,
+  fps: number,
+): FrameEncoder => {
+  const frames: Uint8Array[] = [];
+
+  return {
+    addFrame: async (pixels) => {
+      frames.push(await compressPixels(pixels, width, height));
+    },
+    finish: () => {
+      let sequence = 0;
+      const chunks = frames.flatMap((data, i) => {
+        const control = createFieldChunk('fcTL', [
+          [sequence++, 4],
+          [width, 4],
+          [height, 4],
+          [0, 4], // x
+          [0, 4], // y
+          [1, 2], // Delay numerator
+          [fps, 2], // Delay denominator: 1/fps seconds
+          [0, 1], // Leave the frame as it is
+          [0, 1], // Replace, rather than blend over, the previous frame
+        ]);
+        if (i === 0) return [control, createChunk('IDAT', data)];
+
+        const frameData = new Uint8Array(4 + data.length);
+        new DataView(frameData.buffer).setUint32(0, sequence++);
+        frameData.set(data, 4);
+        return [control, createChunk('fdAT', frameData)];
+      });
+
+      return new Blob(
+        [
+          PNG_SIGNATURE,
+          createHeader(width, height),
+          createFieldChunk('acTL', [
+            [frames.length, 4],
+            [0, 4], // Loop forever
+          ]),
+          ...chunks,
+          createChunk('IEND', new Uint8Array(0)),
+        ],
+        { type: 'image/apng' },
+      );
+    },
+  };
+};
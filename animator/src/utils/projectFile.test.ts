@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectSnapshot, StepsEasing } from '../types';
+import {
+  ANIMATION_CONFIG,
+  DEFAULT_ARTBOARD,
+  LAYER_CONFIG,
+  PROJECT_FILE_CONFIG,
+  STEPS_CONFIG,
+} from '../constants';
+import { createNewLayer } from './layer';
+import { parseProjectFile, serializeProject } from './projectFile';
+
+/** A static property as every file version stores it. */
+const createStaticProperty = (defaultValue: number) => ({
+  keyframes: [],
+  defaultValue,
+});
+
+/**
+ * The animated properties of a layer in files before 1.1, with x moving
+ * from the first keyframe with an easing.
+ */
+const createLegacyProperties = (easing: string) => ({
+  x: {
+    keyframes: [
+      { id: 'k1', time: 0, value: 0, easing },
+      { id: 'k2', time: 500, value: 50, easing: 'linear' },
+    ],
+    defaultValue: 0,
+  },
+  y: createStaticProperty(0),
+  width: createStaticProperty(100),
+  height: createStaticProperty(100),
+  opacity: createStaticProperty(1),
+  rotation: createStaticProperty(0),
+  scale: createStaticProperty(1),
+});
+
+/** The JSON of a project with one path layer. */
+const createPathProject = (d: string): string => {
+  const layer = createNewLayer('A', 0);
+  const project: ProjectSnapshot = {
+    layers: [{ ...layer, shape: { type: 'path', d } }],
+    duration: 1000,
+    fps: 30,
+    markers: [],
+    easingPresets: [],
+    artboard: DEFAULT_ARTBOARD,
+  };
+  return JSON.stringify(serializeProject(project));
+};
+
+/** The JSON of a project whose first layer moves with a steps easing. */
+const createStepsProject = (count: number): string => {
+  const layer = createNewLayer('A', 0);
+  const easing: StepsEasing = { type: 'steps', count, position: 'jump-end' };
+  const project: ProjectSnapshot = {
+    layers: [
+      {
+        ...layer,
+        x: {
+          ...layer.x,
+          keyframes: [
+            { id: 'start', time: 0, value: 0, easing },
+            { id: 'end', time: 1000, value: 300, easing: 'linear' },
+          ],
+        },
+      },
+    ],
+    duration: 1000,
+    fps: 30,
+    markers: [],
+    easingPresets: [],
+    artboard: DEFAULT_ARTBOARD,
+  };
+  return JSON.stringify(serializeProject(project));
+};
+
+describe('parseProjectFile', () => {
+  it('reads back the project it wrote', () => {
+    const layer = createNewLayer('A', 0);
+    const project: ProjectSnapshot = {
+      layers: [layer],
+      duration: 1500,
+      fps: 24,
+      markers: [{ id: 'm', name: 'Intro', time: 0, endTime: 500 }],
+      easingPresets: [{ id: 'p', name: 'Soft', easing: [0.2, 0, 0.2, 1] }],
+      artboard: DEFAULT_ARTBOARD,
+    };
+    expect(parseProjectFile(JSON.stringify(serializeProject(project)))).toEqual(
+      { ok: true, project, migratedFrom: null },
+    );
+  });
+
+  it('migrates a 1.0 file through every version', () => {
+    const file = {
+      version: '1.0',
+      duration: 2000,
+      layers: [
+        {
+          id: 'a',
+          name: 'A',
+          zIndex: 1,
+          color: '#FF0000',
+          properties: createLegacyProperties('ease-in'),
+        },
+      ],
+    };
+    const result = parseProjectFile(JSON.stringify(file));
+    if (!result.ok) throw new Error(JSON.stringify(result.issues));
+
+    const { project, migratedFrom } = result;
+    const [layer] = project.layers;
+    expect(migratedFrom).toBe('1.0');
+    expect(layer.shape).toEqual({ type: 'rectangle' });
+    expect(layer.color).toEqual({
+      keyframes: [],
+      defaultValue: '#FF0000',
+      interpolation: 'srgb',
+    });
+    expect(layer.motionPath).toEqual({ enabled: false, orientToPath: false });
+    expect(layer.kind).toBe('shape');
+    expect(layer.parentId).toBeNull();
+    expect(layer.anchor).toEqual(LAYER_CONFIG.defaultAnchor);
+    expect(project.fps).toBe(ANIMATION_CONFIG.defaultFps);
+    expect(project.markers).toEqual([]);
+    expect(project.easingPresets).toEqual([]);
+    expect(project.artboard).toEqual({
+      width: 800,
+      height: 600,
+      background: '#FFFFFF',
+    });
+  });
+
+  it('migrates bare layers from the v2 editor and converts its easings', () => {
+    const layers = [
+      {
+        id: 'b',
+        name: 'B',
+        zIndex: 1,
+        color: '#00FF00',
+        ...createLegacyProperties('easeInQuad'),
+      },
+    ];
+    const result = parseProjectFile(JSON.stringify(layers));
+    if (!result.ok) throw new Error(JSON.stringify(result.issues));
+
+    expect(result.migratedFrom).toBe('animator-v2');
+    expect(result.project.duration).toBe(ANIMATION_CONFIG.defaultDuration);
+    expect(result.project.layers[0].x.keyframes.map((kf) => kf.easing)).toEqual(
+      [[0.11, 0, 0.5, 0], 'linear'],
+    );
+  });
+
+  it('rejects text that is not JSON', () => {
+    const result = parseProjectFile('{');
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues[0].message).toMatch(/^not valid JSON/);
+  });
+
+  it.each([
+    [{}, 'expected a version string, got undefined'],
+    [{ version: 2 }, 'expected a version string, got a number'],
+    [
+      { version: '99.0' },
+      `file format 99.0 is newer than the supported ${PROJECT_FILE_CONFIG.currentVersion}`,
+    ],
+    [{ version: 'beta' }, "unknown file format version 'beta'"],
+  ])('rejects the version of %j', (file, message) => {
+    expect(parseProjectFile(JSON.stringify(file))).toEqual({
+      ok: false,
+      issues: [{ path: 'version', message }],
+    });
+  });
+
+  it('reports where a current file is invalid', () => {
+    const file = JSON.parse(createPathProject('M0 0 L1 1'));
+    file.duration = -1;
+    file.layers[0].properties.opacity.keyframes = [
+      { id: 'k', time: 0, value: 'full', easing: 'linear' },
+    ];
+    const result = parseProjectFile(JSON.stringify(file));
+    expect(!result.ok && result.issues.map((issue) => issue.path)).toEqual([
+      'duration',
+      'layers[0].properties.opacity.keyframes[0].value',
+    ]);
+  });
+
+  it.each(['constructor', '__proto__', 'valueOf', 'hasOwnProperty'])(
+    "rejects the inherited key '%s' as a version",
+    (version) => {
+      expect(parseProjectFile(JSON.stringify({ version }))).toEqual({
+        ok: false,
+        issues: [
+          {
+            path: 'version',
+            message: `unknown file format version '${version}'`,
+          },
+        ],
+      });
+    },
+  );
+
+  it('reads back the path data it wrote', () => {
+    const result = parseProjectFile(createPathProject('M0 0 L100 100 Z'));
+    expect(result.ok && result.project.layers[0].shape).toEqual({
+      type: 'path',
+      d: 'M0 0 L100 100 Z',
+    });
+  });
+
+  it.each(['', 'L100 100', 'M0 0 L100 100" onload="x'])(
+    "rejects '%s' as path data",
+    (d) => {
+      expect(parseProjectFile(createPathProject(d))).toEqual({
+        ok: false,
+        issues: [
+          { path: 'layers[0].shape.d', message: 'expected SVG path data' },
+        ],
+      });
+    },
+  );
+
+  it('accepts up to the maximum number of steps', () => {
+    expect(parseProjectFile(createStepsProject(STEPS_CONFIG.maxCount)).ok).toBe(
+      true,
+    );
+  });
+
+  it('rejects more than the maximum number of steps', () => {
+    expect(parseProjectFile(createStepsProject(1e7))).toEqual({
+      ok: false,
+      issues: [
+        {
+          path: 'layers[0].properties.x.keyframes[0].easing.count',
+          message: `expected a whole number of steps from 1 to ${STEPS_CONFIG.maxCount}`,
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,946 @@
+import type {
+  AnimatedProperty,
+  ColorProperty,
+  EasingFunction,
+  ImportIssue,
+  ImportResult,
+  Keyframe,
+  Layer,
+  LayerShape,
+  ProjectFile,
+  ProjectSnapshot,
+  ShapeType,
+  SpringEasing,
+  StepsEasing,
+} from '../types';
+import {
+  ANIMATABLE_PROPERTIES,
+  ANIMATION_CONFIG,
+  COLOR_INTERPOLATION_LABELS,
+  LAYER_CONFIG,
+  LAYER_KIND_LABELS,
+  PROJECT_FILE_CONFIG,
+  SHAPE_LABELS,
+  STEP_POSITION_LABELS,
+  STEPS_CONFIG,
+} from '../constants';
+import { generateId } from './animation';
+import { clampArtboardSize } from './artboard';
+import { isHexColor } from './color';
+import { isValidSpring } from './spring';
+import { getMinSteps, isValidSteps } from './steps';
+import {
+  createShape,
+  getShapeProperty,
+  getShapePropertyKeys,
+  isValidPathData,
+} from './shape';
+
+type JsonObject = Record<string, unknown>;
+
+/** Pseudo-version assigned to bare layer data from the v2 dark editor. */
+const LEGACY_V2_VERSION = 'animator-v2';
+
+const NAMED_EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'hold'];
+
+/** Cubic-bezier equivalents of the named easings only the v2 editor knows. */
+const V2_EASING_CURVES: Record<string, [number, number, number, number]> = {
+  easeInQuad: [0.11, 0, 0.5, 0],
+  easeOutQuad: [0.5, 1, 0.89, 1],
+  easeInOutQuad: [0.45, 0, 0.55, 1],
+  easeInCubic: [0.32, 0, 0.67, 0],
+  easeOutCubic: [0.33, 1, 0.68, 1],
+  easeInOutCubic: [0.65, 0, 0.35, 1],
+  easeInQuart: [0.5, 0, 0.75, 0],
+  easeOutQuart: [0.25, 1, 0.5, 1],
+  easeInOutQuart: [0.76, 0, 0.24, 1],
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Returns true if the object has the key itself. Inherited keys such as
+ * 'toString' or '__proto__' do not count, so a lookup table only matches
+ * its own entries.
+ */
+const hasOwnKey = (object: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return 'an infinite number';
+  }
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+/** How the values of an animated property are checked. */
+interface ValueRule {
+  test: (value: unknown) => boolean;
+  expected: string;
+}
+
+const NUMBER_VALUE: ValueRule = { test: isFiniteNumber, expected: 'a number' };
+
+const COLOR_VALUE: ValueRule = {
+  test: isHexColor,
+  expected: 'a hex color string such as #3B82F6',
+};
+
+/**
+ * Serializes the project into the JSON project file format.
+ * @param project The layers, timing, markers, easing presets and artboard
+ * to export.
+ * @returns The project file object, ready for `JSON.stringify`.
+ */
+export const serializeProject = ({
+  layers,
+  duration,
+  fps,
+  markers,
+  easingPresets,
+  artboard,
+}: ProjectSnapshot): ProjectFile => ({
+  version: PROJECT_FILE_CONFIG.currentVersion,
+  duration,
+  fps,
+  layers: layers.map((layer) => ({
+    id: layer.id,
+    name: layer.name,
+    kind: layer.kind,
+    parentId: layer.parentId,
+    color: layer.color,
+    zIndex: layer.zIndex,
+    properties: {
+      x: layer.x,
+      y: layer.y,
+      width: layer.width,
+      height: layer.height,
+      opacity: layer.opacity,
+      rotation: layer.rotation,
+      scale: layer.scale,
+    },
+    shape: layer.shape,
+    motionPath: layer.motionPath,
+    anchor: layer.anchor,
+  })),
+  markers: markers.map(({ id, name, time, endTime }) => ({
+    id,
+    name,
+    time,
+    endTime,
+  })),
+  easingPresets: easingPresets.map(({ id, name, easing }) => ({
+    id,
+    name,
+    easing,
+  })),
+  artboard: {
+    width: artboard.width,
+    height: artboard.height,
+    background: artboard.background,
+  },
+  exportedAt: new Date().toISOString(),
+});
+
+/**
+ * Migrations keyed by the version they upgrade from. Each one returns data in
+ * the next format version; they run in sequence until the current version.
+ */
+const MIGRATIONS: Record<string, (data: JsonObject) => JsonObject> = {
+  // The v2 dark editor keeps animated properties directly on the layer and
+  // names extra easings that v1 only knows as cubic-bezier curves.
+  [LEGACY_V2_VERSION]: (data) => ({
+    version: '1.0',
+    duration: data.duration ?? ANIMATION_CONFIG.defaultDuration,
+    layers: Array.isArray(data.layers)
+      ? data.layers.map((layer) => {
+          if (!isObject(layer)) return layer;
+          const { x, y, width, height, opacity, rotation, scale, ...rest } =
+            layer;
+          const properties = { x, y, width, height, opacity, rotation, scale };
+
+          return {
+            ...rest,
+            properties: Object.fromEntries(
+              Object.entries(properties).map(([key, property]) => [
+                key,
+                isObject(property) && Array.isArray(property.keyframes)
+                  ? {
+                      ...property,
+                      keyframes: property.keyframes.map((kf) =>
+                        isObject(kf) &&
+                        typeof kf.easing === 'string' &&
+                        hasOwnKey(V2_EASING_CURVES, kf.easing)
+                          ? { ...kf, easing: V2_EASING_CURVES[kf.easing] }
+                          : kf,
+                      ),
+                    }
+                  : property,
+              ]),
+            ),
+          };
+        })
+      : data.layers,
+  }),
+  // 1.1 added layer shapes; every earlier layer was drawn as a rectangle.
+  '1.0': (data) => ({
+    ...data,
+    version: '1.1',
+    layers: Array.isArray(data.layers)
+      ? data.layers.map((layer) =>
+          isObject(layer) && layer.shape === undefined
+            ? { ...layer, shape: { type: 'rectangle' } }
+            : layer,
+        )
+      : data.layers,
+  }),
+  // 1.2 made color animatable; a static color becomes its default value.
+  '1.1': (data) => ({
+    ...data,
+    version: '1.2',
+    layers: Array.isArray(data.layers)
+      ? data.layers.map((layer) =>
+          isObject(layer) && typeof layer.color === 'string'
+            ? {
+                ...layer,
+                color: {
+                  keyframes: [],
+                  defaultValue: layer.color,
+                  interpolation: 'srgb',
+                },
+              }
+            : layer,
+        )
+      : data.layers,
+  }),
+  // 1.3 added motion paths, off for every existing layer.
+  '1.2': (data) => ({
+    ...data,
+    version: '1.3',
+    layers: Array.isArray(data.layers)
+      ? data.layers.map((layer) =>
+          isObject(layer) && layer.motionPath === undefined
+            ? { ...layer, motionPath: { enabled: false, orientToPath: false } }
+            : layer,
+        )
+      : data.layers,
+  }),
+  // 1.4 added groups and parenting; every existing layer is a top-level shape.
+  '1.3': (data) => ({
+    ...data,
+    version: '1.4',
+    layers: Array.isArray(data.layers)
+      ? data.layers.map((layer) =>
+          isObject(layer)
+            ? {
+                kind: 'shape',
+                parentId: null,
+                anchor: { ...LAYER_CONFIG.defaultAnchor },
+                ...layer,
+              }
+            : layer,
+        )
+      : data.layers,
+  }),
+  // 1.5 added the project frame rate.
+  '1.4': (data) => ({
+    ...data,
+    version: '1.5',
+    fps: ANIMATION_CONFIG.defaultFps,
+  }),
+  // 1.6 added timeline markers and regions.
+  '1.5': (data) => ({
+    ...data,
+    version: '1.6',
+    markers: [],
+  }),
+  // 1.7 added custom easing presets.
+  '1.6': (data) => ({
+    ...data,
+    version: '1.7',
+    easingPresets: [],
+  }),
+  // 1.8 made the artboard configurable; it used to be a white 800×600.
+  '1.7': (data) => ({
+    ...data,
+    version: '1.8',
+    artboard: { width: 800, height: 600, background: '#FFFFFF' },
+  }),
+};
+
+/** Returns true for layer data shaped like the v2 editor's `Layer` objects. */
+const isLegacyV2Layer = (layer: unknown): boolean =>
+  isObject(layer) && !('properties' in layer) && isObject(layer.x);
+
+/** Detects the format version of raw parsed data. */
+const detectVersion = (data: unknown): unknown => {
+  if (Array.isArray(data) && data.every(isLegacyV2Layer)) {
+    return LEGACY_V2_VERSION;
+  }
+  if (!isObject(data)) return undefined;
+  if (
+    data.version === undefined &&
+    Array.isArray(data.layers) &&
+    data.layers.some(isLegacyV2Layer)
+  ) {
+    return LEGACY_V2_VERSION;
+  }
+  return data.version;
+};
+
+/** Compares dotted numeric versions; returns a positive number if a > b. */
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Upgrades raw parsed data to the current file format version.
+ * @param data The parsed JSON.
+ * @returns The migrated data and the version it started from, or an issue.
+ */
+const migrate = (
+  data: unknown,
+): { data: unknown; from: string | null } | { issue: ImportIssue } => {
+  const detected = detectVersion(data);
+  const { currentVersion } = PROJECT_FILE_CONFIG;
+
+  if (typeof detected !== 'string') {
+    return {
+      issue: {
+        path: 'version',
+        message: `expected a version string, got ${describe(detected)}`,
+      },
+    };
+  }
+
+  let current: JsonObject =
+    detected === LEGACY_V2_VERSION && Array.isArray(data)
+      ? { layers: data }
+      : (data as JsonObject);
+  let version = detected;
+
+  while (version !== currentVersion) {
+    const step = hasOwnKey(MIGRATIONS, version) ? MIGRATIONS[version] : null;
+    if (!step) {
+      const isNewer =
+        /^\d+(\.\d+)*$/.test(version) &&
+        compareVersions(version, currentVersion) > 0;
+      return {
+        issue: {
+          path: 'version',
+          message: isNewer
+            ? `file format ${version} is newer than the supported ${currentVersion}`
+            : `unknown file format version '${version}'`,
+        },
+      };
+    }
+    current = step(current);
+    version = String(current.version);
+  }
+
+  return { data: current, from: detected === currentVersion ? null : detected };
+};
+
+const validateEasing = (
+  easing: unknown,
+  path: string,
+  issues: ImportIssue[],
+) => {
+  if (typeof easing === 'string') {
+    if (!NAMED_EASINGS.includes(easing)) {
+      issues.push({ path, message: `unknown easing '${easing}'` });
+    }
+    return;
+  }
+  if (isObject(easing) && easing.type === 'spring') {
+    // isValidSpring rejects non-numeric fields via Number.isFinite.
+    if (!isValidSpring(easing as unknown as SpringEasing)) {
+      issues.push({
+        path,
+        message:
+          'expected a spring with positive mass and stiffness, non-negative damping and a numeric velocity',
+      });
+    }
+    return;
+  }
+  if (isObject(easing) && easing.type === 'steps') {
+    if (
+      typeof easing.position !== 'string' ||
+      !hasOwnKey(STEP_POSITION_LABELS, easing.position)
+    ) {
+      issues.push({
+        path: `${path}.position`,
+        message: `unknown step position '${String(easing.position)}'`,
+      });
+    } else if (!isValidSteps(easing as unknown as StepsEasing)) {
+      issues.push({
+        path: `${path}.count`,
+        message: `expected a whole number of steps from ${getMinSteps(
+          easing as unknown as StepsEasing,
+        )} to ${STEPS_CONFIG.maxCount}`,
+      });
+    }
+    return;
+  }
+  if (
+    !Array.isArray(easing) ||
+    easing.length !== 4 ||
+    !easing.every(isFiniteNumber)
+  ) {
+    issues.push({
+      path,
+      message:
+        'expected an easing name, four cubic-bezier numbers, a spring or steps',
+    });
+  }
+};
+
+const validateKeyframe = (
+  keyframe: unknown,
+  path: string,
+  issues: ImportIssue[],
+  rule: ValueRule,
+) => {
+  if (!isObject(keyframe)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(keyframe)}`,
+    });
+    return;
+  }
+  if (typeof keyframe.id !== 'string') {
+    issues.push({ path: `${path}.id`, message: 'expected a string' });
+  }
+  if (!isFiniteNumber(keyframe.time)) {
+    issues.push({
+      path: `${path}.time`,
+      message: `expected a number, got ${describe(keyframe.time)}`,
+    });
+  } else if (keyframe.time < 0) {
+    issues.push({ path: `${path}.time`, message: 'must not be negative' });
+  }
+  if (!rule.test(keyframe.value)) {
+    issues.push({
+      path: `${path}.value`,
+      message: `expected ${rule.expected}, got ${describe(keyframe.value)}`,
+    });
+  }
+  validateEasing(keyframe.easing, `${path}.easing`, issues);
+  (['inTangent', 'outTangent'] as const).forEach((key) => {
+    if (keyframe[key] !== undefined && !isFiniteNumber(keyframe[key])) {
+      issues.push({
+        path: `${path}.${key}`,
+        message: `expected a number, got ${describe(keyframe[key])}`,
+      });
+    }
+  });
+};
+
+const validateProperty = (
+  property: unknown,
+  path: string,
+  issues: ImportIssue[],
+  rule: ValueRule = NUMBER_VALUE,
+) => {
+  if (!isObject(property)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(property)}`,
+    });
+    return;
+  }
+  if (!rule.test(property.defaultValue)) {
+    issues.push({
+      path: `${path}.defaultValue`,
+      message: `expected ${rule.expected}, got ${describe(
+        property.defaultValue,
+      )}`,
+    });
+  }
+  if (!Array.isArray(property.keyframes)) {
+    issues.push({
+      path: `${path}.keyframes`,
+      message:
+        property.keyframes === undefined
+          ? 'missing keyframes array'
+          : `expected an array, got ${describe(property.keyframes)}`,
+    });
+    return;
+  }
+  property.keyframes.forEach((kf, i) =>
+    validateKeyframe(kf, `${path}.keyframes[${i}]`, issues, rule),
+  );
+};
+
+const validateColorProperty = (
+  property: unknown,
+  path: string,
+  issues: ImportIssue[],
+) => {
+  validateProperty(property, path, issues, COLOR_VALUE);
+  if (!isObject(property)) return;
+
+  if (
+    typeof property.interpolation !== 'string' ||
+    !hasOwnKey(COLOR_INTERPOLATION_LABELS, property.interpolation)
+  ) {
+    issues.push({
+      path: `${path}.interpolation`,
+      message: `unknown color interpolation '${String(
+        property.interpolation,
+      )}'`,
+    });
+  }
+};
+
+const validateShape = (shape: unknown, path: string, issues: ImportIssue[]) => {
+  if (!isObject(shape)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(shape)}`,
+    });
+    return;
+  }
+  if (typeof shape.type !== 'string' || !hasOwnKey(SHAPE_LABELS, shape.type)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `unknown shape type '${String(shape.type)}'`,
+    });
+    return;
+  }
+  if (
+    shape.type === 'path' &&
+    (typeof shape.d !== 'string' || !isValidPathData(shape.d))
+  ) {
+    issues.push({ path: `${path}.d`, message: 'expected SVG path data' });
+  }
+  getShapePropertyKeys(createShape(shape.type as ShapeType)).forEach((key) =>
+    validateProperty(shape[key], `${path}.${key}`, issues),
+  );
+};
+
+const validateHierarchyFields = (
+  layer: JsonObject,
+  path: string,
+  issues: ImportIssue[],
+) => {
+  if (
+    typeof layer.kind !== 'string' ||
+    !hasOwnKey(LAYER_KIND_LABELS, layer.kind)
+  ) {
+    issues.push({
+      path: `${path}.kind`,
+      message: `unknown layer kind '${String(layer.kind)}'`,
+    });
+  }
+  if (layer.parentId !== null && typeof layer.parentId !== 'string') {
+    issues.push({
+      path: `${path}.parentId`,
+      message: `expected a layer id or null, got ${describe(layer.parentId)}`,
+    });
+  }
+  if (!isObject(layer.anchor)) {
+    issues.push({
+      path: `${path}.anchor`,
+      message: `expected an object, got ${describe(layer.anchor)}`,
+    });
+    return;
+  }
+  const anchor = layer.anchor;
+  (['x', 'y'] as const).forEach((key) => {
+    if (!isFiniteNumber(anchor[key])) {
+      issues.push({
+        path: `${path}.anchor.${key}`,
+        message: `expected a number, got ${describe(anchor[key])}`,
+      });
+    }
+  });
+};
+
+const validateLayer = (layer: unknown, path: string, issues: ImportIssue[]) => {
+  if (!isObject(layer)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(layer)}`,
+    });
+    return;
+  }
+  (['id', 'name'] as const).forEach((key) => {
+    if (typeof layer[key] !== 'string') {
+      issues.push({
+        path: `${path}.${key}`,
+        message: `expected a string, got ${describe(layer[key])}`,
+      });
+    }
+  });
+  validateColorProperty(layer.color, `${path}.color`, issues);
+  if (!isFiniteNumber(layer.zIndex)) {
+    issues.push({
+      path: `${path}.zIndex`,
+      message: `expected a number, got ${describe(layer.zIndex)}`,
+    });
+  }
+  if (!isObject(layer.properties)) {
+    issues.push({
+      path: `${path}.properties`,
+      message: `expected an object, got ${describe(layer.properties)}`,
+    });
+    return;
+  }
+  const properties = layer.properties;
+  ANIMATABLE_PROPERTIES.forEach((key) =>
+    validateProperty(properties[key], `${path}.properties.${key}`, issues),
+  );
+  validateShape(layer.shape, `${path}.shape`, issues);
+  if (!isObject(layer.motionPath)) {
+    issues.push({
+      path: `${path}.motionPath`,
+      message: `expected an object, got ${describe(layer.motionPath)}`,
+    });
+    return;
+  }
+  const motionPath = layer.motionPath;
+  (['enabled', 'orientToPath'] as const).forEach((key) => {
+    if (typeof motionPath[key] !== 'boolean') {
+      issues.push({
+        path: `${path}.motionPath.${key}`,
+        message: `expected a boolean, got ${describe(motionPath[key])}`,
+      });
+    }
+  });
+  validateHierarchyFields(layer, path, issues);
+};
+
+/** Checks that every parent exists and that no layer is its own ancestor. */
+const validateParents = (layers: unknown[], issues: ImportIssue[]) => {
+  const parentOf = new Map<unknown, unknown>();
+  layers.forEach((layer) => {
+    if (isObject(layer)) parentOf.set(layer.id, layer.parentId);
+  });
+
+  layers.forEach((layer, i) => {
+    if (!isObject(layer) || typeof layer.parentId !== 'string') return;
+    const path = `layers[${i}].parentId`;
+    if (!parentOf.has(layer.parentId)) {
+      issues.push({ path, message: `no layer has the id '${layer.parentId}'` });
+      return;
+    }
+
+    const visited = new Set<unknown>([layer.id]);
+    let current: unknown = layer.parentId;
+    while (typeof current === 'string') {
+      if (visited.has(current)) {
+        issues.push({ path, message: 'the parent chain forms a cycle' });
+        return;
+      }
+      visited.add(current);
+      current = parentOf.get(current);
+    }
+  });
+};
+
+const validateMarker = (
+  marker: unknown,
+  path: string,
+  issues: ImportIssue[],
+): void => {
+  if (!isObject(marker)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(marker)}`,
+    });
+    return;
+  }
+  if (typeof marker.id !== 'string' || typeof marker.name !== 'string') {
+    issues.push({ path, message: 'expected a string id and name' });
+  }
+  if (!isFiniteNumber(marker.time) || marker.time < 0) {
+    issues.push({
+      path: `${path}.time`,
+      message: `expected a non-negative number, got ${describe(marker.time)}`,
+    });
+  }
+  if (
+    marker.endTime !== null &&
+    !(
+      isFiniteNumber(marker.endTime) &&
+      isFiniteNumber(marker.time) &&
+      marker.endTime >= marker.time
+    )
+  ) {
+    issues.push({
+      path: `${path}.endTime`,
+      message: `expected null or a number not before time, got ${describe(
+        marker.endTime,
+      )}`,
+    });
+  }
+};
+
+const validateEasingPreset = (
+  preset: unknown,
+  path: string,
+  issues: ImportIssue[],
+): void => {
+  if (!isObject(preset)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(preset)}`,
+    });
+    return;
+  }
+  if (typeof preset.id !== 'string' || typeof preset.name !== 'string') {
+    issues.push({ path, message: 'expected a string id and name' });
+  }
+  const { easing } = preset;
+  if (
+    !Array.isArray(easing) ||
+    easing.length !== 4 ||
+    !easing.every(isFiniteNumber) ||
+    [easing[0], easing[2]].some((x) => x < 0 || x > 1)
+  ) {
+    issues.push({
+      path: `${path}.easing`,
+      message: 'expected four cubic-bezier numbers with x1 and x2 in 0..1',
+    });
+  }
+};
+
+const validateArtboard = (
+  artboard: unknown,
+  path: string,
+  issues: ImportIssue[],
+): void => {
+  if (!isObject(artboard)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(artboard)}`,
+    });
+    return;
+  }
+  (['width', 'height'] as const).forEach((key) => {
+    const size = artboard[key];
+    if (!isFiniteNumber(size) || size <= 0) {
+      issues.push({
+        path: `${path}.${key}`,
+        message: `expected a positive number, got ${describe(size)}`,
+      });
+    }
+  });
+  if (artboard.background !== null && !isHexColor(artboard.background)) {
+    issues.push({
+      path: `${path}.background`,
+      message: `expected ${COLOR_VALUE.expected} or null for transparent`,
+    });
+  }
+};
+
+/**
+ * Checks migrated data against the current project file schema.
+ * @returns Every issue found; an empty list means the data is a valid ProjectFile.
+ */
+const validateProjectFile = (data: unknown): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+
+  if (!isObject(data)) {
+    return [{ path: '', message: `expected an object, got ${describe(data)}` }];
+  }
+  if (!isFiniteNumber(data.duration) || data.duration <= 0) {
+    issues.push({
+      path: 'duration',
+      message: `expected a positive number, got ${describe(data.duration)}`,
+    });
+  }
+  if (!isFiniteNumber(data.fps) || data.fps <= 0) {
+    issues.push({
+      path: 'fps',
+      message: `expected a positive number, got ${describe(data.fps)}`,
+    });
+  }
+  if (!Array.isArray(data.layers)) {
+    issues.push({
+      path: 'layers',
+      message: `expected an array, got ${describe(data.layers)}`,
+    });
+  } else {
+    data.layers.forEach((layer, i) =>
+      validateLayer(layer, `layers[${i}]`, issues),
+    );
+    validateParents(data.layers, issues);
+  }
+  if (!Array.isArray(data.markers)) {
+    issues.push({
+      path: 'markers',
+      message: `expected an array, got ${describe(data.markers)}`,
+    });
+  } else {
+    data.markers.forEach((marker, i) =>
+      validateMarker(marker, `markers[${i}]`, issues),
+    );
+  }
+  if (!Array.isArray(data.easingPresets)) {
+    issues.push({
+      path: 'easingPresets',
+      message: `expected an array, got ${describe(data.easingPresets)}`,
+    });
+  } else {
+    data.easingPresets.forEach((preset, i) =>
+      validateEasingPreset(preset, `easingPresets[${i}]`, issues),
+    );
+  }
+  validateArtboard(data.artboard, 'artboard', issues);
+
+  return issues;
+};
+
+const toAnimatedProperty = <T>(
+  property: AnimatedProperty<T>,
+): AnimatedProperty<T> => ({
+  defaultValue: property.defaultValue,
+  keyframes: property.keyframes
+    .map((kf): Keyframe<T> => ({
+      id: kf.id,
+      time: kf.time,
+      value: kf.value,
+      easing: kf.easing as EasingFunction,
+      ...(kf.inTangent !== undefined && { inTangent: kf.inTangent }),
+      ...(kf.outTangent !== undefined && { outTangent: kf.outTangent }),
+    }))
+    .sort((a, b) => a.time - b.time),
+});
+
+const toColorProperty = (property: ColorProperty): ColorProperty => ({
+  ...toAnimatedProperty(property),
+  interpolation: property.interpolation,
+});
+
+const toLayerShape = (shape: LayerShape): LayerShape => {
+  const base: LayerShape =
+    shape.type === 'path'
+      ? { type: 'path', d: shape.d }
+      : createShape(shape.type);
+
+  return getShapePropertyKeys(base).reduce<LayerShape>((result, key) => {
+    const property = getShapeProperty(shape, key);
+    return property
+      ? { ...result, [key]: toAnimatedProperty(property) }
+      : result;
+  }, base);
+};
+
+/**
+ * Parses, migrates and validates a JSON project file.
+ * Never throws: malformed input is reported through `issues`.
+ * @param text The raw file contents.
+ * @returns The imported project, or the list of issues found.
+ */
+export const parseProjectFile = (text: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: '',
+          message: `not valid JSON: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+
+  const migrated = migrate(raw);
+  if ('issue' in migrated) return { ok: false, issues: [migrated.issue] };
+
+  const issues = validateProjectFile(migrated.data);
+  if (issues.length > 0) {
+    return {
+      ok: false,
+      issues: issues.slice(0, PROJECT_FILE_CONFIG.maxReportedIssues),
+    };
+  }
+
+  const file = migrated.data as ProjectFile;
+  const usedIds = new Set<string>();
+  const layers = file.layers.map((layer): Layer => {
+    // Duplicate ids would make selection and rendering ambiguous.
+    const id = usedIds.has(layer.id) ? generateId() : layer.id;
+    usedIds.add(id);
+
+    return {
+      id,
+      name: layer.name,
+      kind: layer.kind,
+      parentId: layer.parentId,
+      color: toColorProperty(layer.color),
+      zIndex: layer.zIndex,
+      x: toAnimatedProperty(layer.properties.x),
+      y: toAnimatedProperty(layer.properties.y),
+      width: toAnimatedProperty(layer.properties.width),
+      height: toAnimatedProperty(layer.properties.height),
+      opacity: toAnimatedProperty(layer.properties.opacity),
+      rotation: toAnimatedProperty(layer.properties.rotation),
+      scale: toAnimatedProperty(layer.properties.scale),
+      shape: toLayerShape(layer.shape),
+      motionPath: {
+        enabled: layer.motionPath.enabled,
+        orientToPath: layer.motionPath.orientToPath,
+      },
+      anchor: { x: layer.anchor.x, y: layer.anchor.y },
+    };
+  });
+
+  const usedMarkerIds = new Set<string>();
+  const markers = file.markers.map((marker) => {
+    const id = usedMarkerIds.has(marker.id) ? generateId() : marker.id;
+    usedMarkerIds.add(id);
+    return {
+      id,
+      name: marker.name,
+      time: marker.time,
+      endTime: marker.endTime,
+    };
+  });
+
+  return {
+    ok: true,
+    project: {
+      layers,
+      duration: Math.max(
+        ANIMATION_CONFIG.minDuration,
+        Math.min(ANIMATION_CONFIG.maxDuration, file.duration),
+      ),
+      fps: Math.max(
+        ANIMATION_CONFIG.minFps,
+        Math.min(ANIMATION_CONFIG.maxFps, file.fps),
+      ),
+      markers,
+      easingPresets: file.easingPresets.map((preset) => ({
+        id: preset.id,
+        name: preset.name,
+        easing: preset.easing,
+      })),
+      artboard: {
+        width: clampArtboardSize(file.artboard.width),
+        height: clampArtboardSize(file.artboard.height),
+        background: file.artboard.background,
+      },
+    },
+    migratedFrom: migrated.from,
+  };
+};
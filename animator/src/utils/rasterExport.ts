@@ -0,0 +1,226 @@
+import type { Artboard, Layer, RasterFormat } from '../types';
+import { EXPORT_CONFIG, SHAPE_CONFIG } from '../constants';
+import { createGifEncoder } from './gif';
+import { getChildLayers } from './hierarchy';
+import { frameToTime } from './playback';
+import { createApngEncoder, encodePng } from './png';
+import { sampleLayerAtTime, sortLayersForRendering } from './render';
+import type { LayerFrame } from './render';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+/** The parts of a project the raster export reads. */
+export interface RasterExportInput {
+  layers: Layer[];
+  duration: number;
+  artboard: Artboard;
+}
+
+/** How the composition is rendered and encoded. */
+export interface RasterExportOptions {
+  format: RasterFormat;
+  fps: number;
+  scale: number; // Output pixels per artboard pixel
+  background: string | null; // Hex color, or null for transparent
+}
+
+/** Encodes rendered frames, one at a time, into a file. */
+export interface FrameEncoder {
+  addFrame: (pixels: Uint8ClampedArray) => Promise<void>;
+  finish: () => Blob;
+}
+
+type Context2D = OffscreenCanvasRenderingContext2D;
+
+/**
+ * Returns the number of frames a raster export has. Frames start at every
+ * frame time before the end, so a looping export does not show the first
+ * and last moment twice.
+ */
+export const getRasterFrameCount = (duration: number, fps: number): number =>
+  Math.max(1, Math.ceil((duration * fps) / 1000));
+
+/** Returns the pixel size of the exported images. */
+export const getRasterSize = (
+  artboard: Artboard,
+  scale: number,
+): { width: number; height: number } => ({
+  width: Math.max(1, Math.round(artboard.width * scale)),
+  height: Math.max(1, Math.round(artboard.height * scale)),
+});
+
+/** Traces the shape of a sampled layer in its local space. */
+const drawShape = (context: Context2D, frame: LayerFrame): void => {
+  const { width, height, color, geometry } = frame;
+  context.fillStyle = color;
+  context.beginPath();
+  switch (geometry.kind) {
+    case 'ellipse':
+      context.ellipse(
+        width / 2,
+        height / 2,
+        width / 2,
+        height / 2,
+        0,
+        0,
+        2 * Math.PI,
+      );
+      break;
+    case 'polygon':
+      geometry.points.forEach(([px, py]) =>
+        context.lineTo(px * width, py * height),
+      );
+      context.closePath();
+      break;
+    case 'path': {
+      const size = SHAPE_CONFIG.pathBoxSize;
+      context.save();
+      context.scale(width / size, height / size);
+      context.fill(new Path2D(geometry.d));
+      context.restore();
+      return;
+    }
+    default:
+      context.roundRect(0, 0, width, height, geometry.rx);
+  }
+  context.fill();
+};
+
+/**
+ * Draws a layer and its children the way LayerNode does, from the same
+ * sampled frames. SVG applies a group's opacity to the group as a whole,
+ * so a translucent layer with children is drawn on its own canvas first
+ * and then blended in.
+ */
+const drawLayer = (
+  context: Context2D,
+  layer: Layer,
+  layers: Layer[],
+  time: number,
+): void => {
+  const frame = sampleLayerAtTime(layer, time);
+  const { x, y, rotation, scale, anchorX, anchorY, opacity } = frame;
+  const children = sortLayersForRendering(getChildLayers(layers, layer.id));
+  if (opacity <= 0) return;
+
+  context.save();
+  context.translate(x + anchorX, y + anchorY);
+  context.rotate((rotation * Math.PI) / 180);
+  context.scale(scale, scale);
+  context.translate(-anchorX, -anchorY);
+
+  const isIsolated = opacity < 1 && children.length > 0;
+  const { canvas } = context;
+  const target = isIsolated
+    ? new OffscreenCanvas(canvas.width, canvas.height).getContext('2d')!
+    : context;
+  if (isIsolated) target.setTransform(context.getTransform());
+  else context.globalAlpha *= opacity;
+
+  if (layer.kind !== 'group') drawShape(target, frame);
+  children.forEach((child) => drawLayer(target, child, layers, time));
+
+  if (isIsolated) {
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.globalAlpha *= opacity;
+    context.drawImage(target.canvas, 0, 0);
+  }
+  context.restore();
+};
+
+/**
+ * Draws the composition at a point in time.
+ * @param context The context to draw on; it is cleared first.
+ * @param layers All layers.
+ * @param time The time in milliseconds.
+ * @param scale Output pixels per artboard pixel.
+ * @param background Hex color to fill with, or null for transparent.
+ */
+export const drawComposition = (
+  context: Context2D,
+  layers: Layer[],
+  time: number,
+  scale: number,
+  background: string | null,
+): void => {
+  const { width, height } = context.canvas;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, width, height);
+  if (background !== null) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+  context.scale(scale, scale);
+  sortLayersForRendering(getChildLayers(layers, null)).forEach((layer) =>
+    drawLayer(context, layer, layers, time),
+  );
+};
+
+/** Creates the encoder for a format. */
+const createEncoder = (
+  { format, fps, background }: RasterExportOptions,
+  width: number,
+  height: number,
+  frameCount: number,
+): FrameEncoder => {
+  switch (format) {
+    case 'gif':
+      return createGifEncoder(width, height, fps, background === null);
+    case 'apng':
+      return createApngEncoder(width, height, fps);
+    case 'png-zip': {
+      const digits = String(frameCount).length;
+      const entries: ZipEntry[] = [];
+      return {
+        addFrame: async (pixels) => {
+          const number = String(entries.length + 1).padStart(digits, '0');
+          entries.push({
+            name: `${EXPORT_CONFIG.defaultFilename}-${number}.png`,
+            data: await encodePng(pixels, width, height),
+          });
+        },
+        finish: () => createZip(entries),
+      };
+    }
+  }
+};
+
+/**
+ * Renders the composition offscreen frame by frame and encodes it, all in
+ * the browser. Frames are encoded as they are drawn, so only encoded data
+ * is kept, and the work yields between frames to keep the page responsive.
+ * @param input The project to render.
+ * @param options Format, frame rate, scale and background.
+ * @param onProgress Called with the fraction of frames done.
+ * @param signal Cancels the export.
+ * @returns The file, or null when cancelled.
+ */
+export const exportRaster = async (
+  { layers, duration, artboard }: RasterExportInput,
+  options: RasterExportOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal,
+): Promise<Blob | null> => {
+  const { width, height } = getRasterSize(artboard, options.scale);
+  const frameCount = getRasterFrameCount(duration, options.fps);
+  const encoder = createEncoder(options, width, height, frameCount);
+  const context = new OffscreenCanvas(width, height).getContext('2d', {
+    willReadFrequently: true,
+  })!;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (signal.aborted) return null;
+    drawComposition(
+      context,
+      layers,
+      Math.min(duration, frameToTime(frame, options.fps)),
+      options.scale,
+      options.background,
+    );
+    await encoder.addFrame(context.getImageData(0, 0, width, height).data);
+    onProgress((frame + 1) / frameCount);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return signal.aborted ? null : encoder.finish();
+};
@@ -0,0 +1,72 @@
+import type { Layer } from '../types';
+import { getAnimatedValueAtTime } from './animation';
+import { getAnimatedColorAtTime } from './color';
+import { getMotionPathPoints, getMotionPathPosition } from './motionPath';
+import { getShapeGeometry } from './shape';
+import type { ShapeGeometry } from './shape';
+
+/** Every drawable value of a layer, resolved at one point in time. */
+export interface LayerFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number;
+  rotation: number;
+  scale: number;
+  anchorX: number; // Pivot, in px from the left edge of the box
+  anchorY: number; // Pivot, in px from the top edge of the box
+  color: string;
+  geometry: ShapeGeometry;
+}
+
+/**
+ * Samples all animated properties of a layer at a specific time.
+ * Width, height and opacity are clamped to drawable ranges. With a motion
+ * path, x/y follow the path and orienting adds its direction to rotation.
+ * @param layer The layer to sample.
+ * @param time The time in milliseconds.
+ * @returns The resolved frame.
+ */
+export const sampleLayerAtTime = (layer: Layer, time: number): LayerFrame => {
+  const width = Math.max(0, getAnimatedValueAtTime(layer.width, time));
+  const height = Math.max(0, getAnimatedValueAtTime(layer.height, time));
+  const path = layer.motionPath.enabled
+    ? getMotionPathPosition(getMotionPathPoints(layer), time)
+    : null;
+  const rotation = getAnimatedValueAtTime(layer.rotation, time);
+
+  return {
+    x: path ? path.x : getAnimatedValueAtTime(layer.x, time),
+    y: path ? path.y : getAnimatedValueAtTime(layer.y, time),
+    width,
+    height,
+    opacity: Math.max(
+      0,
+      Math.min(1, getAnimatedValueAtTime(layer.opacity, time)),
+    ),
+    rotation:
+      path && layer.motionPath.orientToPath ? rotation + path.angle : rotation,
+    scale: getAnimatedValueAtTime(layer.scale, time),
+    anchorX: layer.anchor.x * width,
+    anchorY: layer.anchor.y * height,
+    color: getAnimatedColorAtTime(layer.color, time),
+    geometry: getShapeGeometry(layer.shape, time, width, height),
+  };
+};
+
+/**
+ * Builds the SVG transform that maps a layer's local space, where its box
+ * starts at (0, 0), into its parent's space. Rotation and scale pivot around
+ * the anchor.
+ * @param frame The sampled layer.
+ * @returns The transform list.
+ */
+export const formatLayerTransform = (frame: LayerFrame): string => {
+  const { x, y, rotation, scale, anchorX, anchorY } = frame;
+  return `translate(${x + anchorX} ${y + anchorY}) rotate(${rotation}) scale(${scale}) translate(${-anchorX} ${-anchorY})`;
+};
+
+/** Returns the layers sorted back to front. */
+export const sortLayersForRendering = (layers: Layer[]): Layer[] =>
+  layers.slice().sort((a, b) => a.zIndex - b.zIndex);
@@ -0,0 +1,191 @@
+import type {
+  AnimatedProperty,
+  LayerShape,
+  ShapePropertyKey,
+  ShapeType,
+} from '../types';
+import { SHAPE_CONFIG } from '../constants';
+import { getAnimatedValueAtTime } from './animation';
+
+/**
+ * The shape of a layer resolved at one point in time. Polygon points are
+ * relative to the layer box, where (0, 0) is its top-left and (1, 1) its
+ * bottom-right corner.
+ */
+export type ShapeGeometry =
+  | { kind: 'rect'; rx: number }
+  | { kind: 'ellipse' }
+  | { kind: 'polygon'; points: Array<[number, number]> }
+  | { kind: 'path'; d: string };
+
+/** Creates an un-keyframed shape property with the given value. */
+const createShapeProperty = (defaultValue: number): AnimatedProperty => ({
+  keyframes: [],
+  defaultValue,
+});
+
+/**
+ * Creates a shape of the given type with default property values.
+ * @param type The shape type.
+ * @returns A new LayerShape.
+ */
+export const createShape = (type: ShapeType): LayerShape => {
+  switch (type) {
+    case 'rounded-rectangle':
+      return {
+        type,
+        cornerRadius: createShapeProperty(SHAPE_CONFIG.defaultCornerRadius),
+      };
+    case 'polygon':
+      return {
+        type,
+        sides: createShapeProperty(SHAPE_CONFIG.defaultSides),
+      };
+    case 'star':
+      return {
+        type,
+        points: createShapeProperty(SHAPE_CONFIG.defaultStarPoints),
+        innerRadius: createShapeProperty(SHAPE_CONFIG.defaultInnerRadius),
+      };
+    case 'path':
+      return { type, d: SHAPE_CONFIG.defaultPath };
+    default:
+      return { type };
+  }
+};
+
+/**
+ * Returns true if the text is usable path data: a moveto followed only by
+ * path commands, numbers, spaces and commas. Exports write path data into
+ * attributes and CSS as it is, so nothing else may get in.
+ */
+export const isValidPathData = (d: string): boolean =>
+  /^\s*[Mm](?=.*\d)[\s,0-9.eE+\-MmLlHhVvCcSsQqTtAaZz]*$/.test(d);
+
+/** Returns the animatable property keys a shape adds to its layer. */
+export const getShapePropertyKeys = (shape: LayerShape): ShapePropertyKey[] => {
+  switch (shape.type) {
+    case 'rounded-rectangle':
+      return ['cornerRadius'];
+    case 'polygon':
+      return ['sides'];
+    case 'star':
+      return ['points', 'innerRadius'];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Looks up an animatable property of a shape.
+ * @returns The property, or undefined if this shape type does not have it.
+ */
+export const getShapeProperty = (
+  shape: LayerShape,
+  key: ShapePropertyKey,
+): AnimatedProperty | undefined =>
+  (shape as Partial<Record<ShapePropertyKey, AnimatedProperty>>)[key];
+
+/** Converts an animated vertex count to a drawable integer. */
+const toVertexCount = (value: number): number =>
+  Math.max(SHAPE_CONFIG.minVertices, Math.round(value));
+
+/**
+ * Computes vertices on the ellipse inscribed in the unit box, starting at the
+ * top and going clockwise. Odd vertices use `innerRatio` of the radius.
+ */
+const getRadialPoints = (
+  count: number,
+  innerRatio: number = 1,
+): Array<[number, number]> =>
+  Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    const r = i % 2 === 1 ? innerRatio : 1;
+    return [0.5 + 0.5 * r * Math.cos(angle), 0.5 + 0.5 * r * Math.sin(angle)];
+  });
+
+/**
+ * Resolves a shape at a point in time.
+ * @param shape The layer shape.
+ * @param time The time in milliseconds.
+ * @param width The layer width at that time, used to clamp corner radii.
+ * @param height The layer height at that time.
+ * @returns The drawable geometry.
+ */
+export const getShapeGeometry = (
+  shape: LayerShape,
+  time: number,
+  width: number,
+  height: number,
+): ShapeGeometry => {
+  switch (shape.type) {
+    case 'rounded-rectangle': {
+      const radius = getAnimatedValueAtTime(shape.cornerRadius, time);
+      const maxRadius = Math.max(0, Math.min(width, height) / 2);
+      return { kind: 'rect', rx: Math.max(0, Math.min(maxRadius, radius)) };
+    }
+    case 'ellipse':
+      return { kind: 'ellipse' };
+    case 'polygon':
+      return {
+        kind: 'polygon',
+        points: getRadialPoints(
+          toVertexCount(getAnimatedValueAtTime(shape.sides, time)),
+        ),
+      };
+    case 'star': {
+      const points = toVertexCount(getAnimatedValueAtTime(shape.points, time));
+      const inner = getAnimatedValueAtTime(shape.innerRadius, time);
+      return {
+        kind: 'polygon',
+        points: getRadialPoints(points * 2, Math.max(0, Math.min(1, inner))),
+      };
+    }
+    case 'path':
+      return { kind: 'path', d: shape.d };
+    default:
+      return { kind: 'rect', rx: 0 };
+  }
+};
+
+/**
+ * Formats relative polygon points as an SVG `points` attribute for a box.
+ * @param points Points relative to the layer box.
+ * @param x Left edge of the box.
+ * @param y Top edge of the box.
+ * @param width Width of the box.
+ * @param height Height of the box.
+ */
+export const formatSvgPoints = (
+  points: Array<[number, number]>,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): string =>
+  points
+    .map(
+      ([px, py]) =>
+        `${+(x + px * width).toFixed(2)},${+(y + py * height).toFixed(2)}`,
+    )
+    .join(' ');
+
+/** Formats relative polygon points as a CSS `polygon()` clip-path. */
+export const formatCssPolygon = (points: Array<[number, number]>): string =>
+  `polygon(${points
+    .map(([px, py]) => `${+(px * 100).toFixed(2)}% ${+(py * 100).toFixed(2)}%`)
+    .join(', ')})`;
+
+/**
+ * Builds the SVG transform that maps path data from its authoring box onto
+ * the layer box.
+ */
+export const getPathTransform = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): string =>
+  `translate(${x} ${y}) scale(${width / SHAPE_CONFIG.pathBoxSize} ${
+    height / SHAPE_CONFIG.pathBoxSize
+  })`;
@@ -0,0 +1,88 @@
+import type { Layer, SelectedKeyframeInfo, SnapTargetKind } from '../types';
+import { ANIMATION_CONFIG } from '../constants';
+import { getLayerTrack, getLayerTrackKeys } from './layer';
+import { isKeyframeSelected } from './keyframeSelection';
+
+/** A time that dragged times are pulled towards. */
+export interface SnapTarget {
+  time: number; // In milliseconds
+  kind: SnapTargetKind;
+}
+
+/** Where snapping can pull a time to. */
+export interface SnapSources {
+  layers: Layer[];
+  duration: number;
+  playhead: number | null; // Null while the playhead itself is dragged
+  markers: number[]; // Marker times in milliseconds
+  exclude: SelectedKeyframeInfo[]; // Keyframes being dragged
+}
+
+/**
+ * Collects the playhead, every keyframe on any track, the markers and the
+ * ruler ticks as snap targets.
+ * @param sources The times to collect.
+ * @returns The targets, in no particular order.
+ */
+export const getSnapTargets = ({
+  layers,
+  duration,
+  playhead,
+  markers,
+  exclude,
+}: SnapSources): SnapTarget[] => {
+  const targets: SnapTarget[] = [];
+  if (playhead !== null) targets.push({ time: playhead, kind: 'playhead' });
+
+  layers.forEach((layer) =>
+    getLayerTrackKeys(layer).forEach((propertyKey) =>
+      getLayerTrack(layer, propertyKey)?.keyframes.forEach((keyframe) => {
+        const ref = { layerId: layer.id, propertyKey, keyframeId: keyframe.id };
+        if (!isKeyframeSelected(exclude, ref)) {
+          targets.push({ time: keyframe.time, kind: 'keyframe' });
+        }
+      }),
+    ),
+  );
+
+  markers.forEach((time) => targets.push({ time, kind: 'marker' }));
+
+  for (let t = 0; t <= duration; t += ANIMATION_CONFIG.rulerTickInterval) {
+    targets.push({ time: t, kind: 'tick' });
+  }
+  return targets;
+};
+
+/**
+ * Rounds a time to the nearest whole frame, in whole milliseconds.
+ * @param time The time in milliseconds.
+ * @param fps The frame rate.
+ */
+export const snapToFrame = (time: number, fps: number): number =>
+  Math.round(Math.round((time * fps) / 1000) * (1000 / fps));
+
+/**
+ * Snaps a time to the nearest target within the snap distance. Without a
+ * target in reach the time is rounded to a whole frame instead.
+ * @param time The unsnapped time in milliseconds.
+ * @param targets The snap targets.
+ * @param fps The project frame rate.
+ * @param distance How far a target pulls, in milliseconds.
+ * @returns The snapped time and what it snapped to.
+ */
+export const snapTime = (
+  time: number,
+  targets: SnapTarget[],
+  fps: number,
+  distance: number = ANIMATION_CONFIG.keyframeSnapDistance,
+): SnapTarget => {
+  let nearest: SnapTarget | null = null;
+  for (const target of targets) {
+    const gap = Math.abs(target.time - time);
+    if (gap <= distance && (!nearest || gap < Math.abs(nearest.time - time))) {
+      nearest = target;
+    }
+  }
+
+  return nearest ?? { time: snapToFrame(time, fps), kind: 'frame' };
+};
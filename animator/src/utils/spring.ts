@@ -0,0 +1,139 @@
+import type { EasingFunction, SpringEasing } from '../types';
+import { SPRING_CONFIG } from '../constants';
+
+/**
+ * Creates a spring easing with default physical parameters.
+ * @returns A new SpringEasing.
+ */
+export const createSpringEasing = (): SpringEasing => ({
+  type: 'spring',
+  mass: SPRING_CONFIG.defaultMass,
+  stiffness: SPRING_CONFIG.defaultStiffness,
+  damping: SPRING_CONFIG.defaultDamping,
+  velocity: SPRING_CONFIG.defaultVelocity,
+});
+
+/** Returns true if the easing is a spring. */
+export const isSpringEasing = (
+  easing: EasingFunction,
+): easing is SpringEasing =>
+  typeof easing === 'object' &&
+  !Array.isArray(easing) &&
+  easing.type === 'spring';
+
+/**
+ * Returns true if the spring parameters describe a physical spring: positive
+ * mass and stiffness, non-negative damping and finite values throughout.
+ */
+export const isValidSpring = ({
+  mass,
+  stiffness,
+  damping,
+  velocity,
+}: SpringEasing): boolean =>
+  [mass, stiffness, damping, velocity].every(Number.isFinite) &&
+  mass > 0 &&
+  stiffness > 0 &&
+  damping >= 0;
+
+/**
+ * Position of a damped spring released at 0 with the end value 1 as its
+ * rest position, using the closed-form solution of m·x'' + c·x' + k·(x − 1) = 0.
+ * @param spring The spring parameters.
+ * @param seconds Physical time since release.
+ * @returns The position; overshoots past 1 are preserved.
+ */
+export const getSpringPosition = (
+  { mass, stiffness, damping, velocity }: SpringEasing,
+  seconds: number,
+): number => {
+  const omega = Math.sqrt(stiffness / mass); // Undamped angular frequency
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass)); // Damping ratio
+  const t = seconds;
+
+  // Displacement from rest starts at -1 with the given velocity.
+  if (zeta < 1) {
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    const b = (velocity - zeta * omega) / omegaD;
+    return (
+      1 +
+      Math.exp(-zeta * omega * t) *
+        (-Math.cos(omegaD * t) + b * Math.sin(omegaD * t))
+    );
+  }
+
+  if (zeta === 1) {
+    return 1 + (-1 + (velocity - omega) * t) * Math.exp(-omega * t);
+  }
+
+  const root = omega * Math.sqrt(zeta * zeta - 1);
+  const r1 = -zeta * omega + root;
+  const r2 = -zeta * omega - root;
+  const c1 = (velocity + r2) / (r1 - r2);
+  const c2 = -1 - c1;
+  return 1 + c1 * Math.exp(r1 * t) + c2 * Math.exp(r2 * t);
+};
+
+const settleTimeCache = new Map<string, number>();
+
+/**
+ * Finds how long a spring takes to come to rest, i.e. the last moment it is
+ * farther than `SPRING_CONFIG.restThreshold` from the end value.
+ * @param spring The spring parameters.
+ * @returns The settle time in seconds, capped at `SPRING_CONFIG.maxSettleTime`.
+ */
+export const getSpringSettleTime = (spring: SpringEasing): number => {
+  const key = `${spring.mass}:${spring.stiffness}:${spring.damping}:${spring.velocity}`;
+  const cached = settleTimeCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const step = 0.01;
+  let settleTime = step;
+  for (let t = 0; t <= SPRING_CONFIG.maxSettleTime; t += step) {
+    if (
+      Math.abs(getSpringPosition(spring, t) - 1) > SPRING_CONFIG.restThreshold
+    ) {
+      settleTime = t + step;
+    }
+  }
+
+  const result = Math.min(settleTime, SPRING_CONFIG.maxSettleTime);
+  settleTimeCache.set(key, result);
+  return result;
+};
+
+/**
+ * Evaluates a spring easing. The segment between two keyframes is stretched
+ * to the spring's settle time, so the spring always comes to rest exactly on
+ * the next keyframe whatever the keyframe spacing.
+ * @param spring The spring parameters.
+ * @param t_progress Time progress through the segment (0 to 1).
+ * @returns The eased progress; may overshoot 1.
+ */
+export const evaluateSpring = (
+  spring: SpringEasing,
+  t_progress: number,
+): number =>
+  getSpringPosition(spring, t_progress * getSpringSettleTime(spring));
+
+/**
+ * Approximates a spring as a CSS `linear()` timing function, since CSS has no
+ * native spring.
+ * @param spring The spring parameters.
+ * @param stops Number of segments to sample.
+ * @returns A value for `animation-timing-function`.
+ */
+export const formatSpringAsCssLinear = (
+  spring: SpringEasing,
+  stops: number = SPRING_CONFIG.cssLinearStops,
+): string => {
+  const points = Array.from({ length: stops + 1 }, (_, i) => {
+    if (i === 0) return '0';
+    if (i === stops) return '1';
+    const progress = i / stops;
+    return `${+evaluateSpring(spring, progress).toFixed(4)} ${+(
+      progress * 100
+    ).toFixed(2)}%`;
+  });
+  return `linear(${points.join(', ')})`;
+};
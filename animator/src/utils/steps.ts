@@ -0,0 +1,96 @@
+import type { EasingFunction, Keyframe, StepsEasing } from '../types';
+import { STEPS_CONFIG } from '../constants';
+
+/**
+ * Creates a steps easing with the default count and jump position.
+ * @returns A new StepsEasing.
+ */
+export const createStepsEasing = (): StepsEasing => ({
+  type: 'steps',
+  count: STEPS_CONFIG.defaultCount,
+  position: STEPS_CONFIG.defaultPosition,
+});
+
+/** Returns true if the easing is a steps easing. */
+export const isStepsEasing = (easing: EasingFunction): easing is StepsEasing =>
+  typeof easing === 'object' &&
+  !Array.isArray(easing) &&
+  easing.type === 'steps';
+
+/** Returns true for easings that jump between values instead of blending. */
+export const isDiscreteEasing = (
+  easing: EasingFunction,
+): easing is 'hold' | StepsEasing => easing === 'hold' || isStepsEasing(easing);
+
+/**
+ * Returns the fewest steps the jump position allows: `jump-none` needs two,
+ * matching CSS.
+ */
+export const getMinSteps = ({ position }: StepsEasing): number =>
+  position === 'jump-none' ? 2 : 1;
+
+/**
+ * Returns true if the step count is an integer from the position's minimum
+ * up to `STEPS_CONFIG.maxCount`.
+ */
+export const isValidSteps = (steps: StepsEasing): boolean =>
+  Number.isInteger(steps.count) &&
+  steps.count >= getMinSteps(steps) &&
+  steps.count <= STEPS_CONFIG.maxCount;
+
+/**
+ * Evaluates a steps easing with the CSS `steps()` algorithm.
+ * @param steps The steps parameters.
+ * @param t_progress Time progress through the segment (0 to 1).
+ * @returns The stepped progress.
+ */
+export const evaluateSteps = (
+  { count, position }: StepsEasing,
+  t_progress: number,
+): number => {
+  let step = Math.floor(t_progress * count);
+  if (position === 'jump-start' || position === 'jump-both') step += 1;
+
+  const jumps =
+    position === 'jump-none'
+      ? count - 1
+      : position === 'jump-both'
+        ? count + 1
+        : count;
+  return Math.max(0, Math.min(jumps, step)) / jumps;
+};
+
+/**
+ * Formats a discrete easing as a CSS timing function. Hold is a single step
+ * that jumps at the end of the segment.
+ * @param easing A hold or steps easing.
+ * @returns A value for `animation-timing-function`.
+ */
+export const formatStepsAsCss = (easing: 'hold' | StepsEasing): string =>
+  easing === 'hold'
+    ? 'steps(1, jump-end)'
+    : `steps(${easing.count}, ${easing.position})`;
+
+/**
+ * Lists the times at which a track held by discrete easings can change value.
+ * Every step boundary of every segment is included, so sampling the track at
+ * these times and holding each value reproduces it exactly.
+ * @param keyframes Keyframes sorted by time.
+ * @returns The times in milliseconds, or null if any segment blends smoothly.
+ */
+export const getDiscreteChangeTimes = <T>(
+  keyframes: Keyframe<T>[],
+): number[] | null => {
+  const segments = keyframes.slice(0, -1);
+  if (!segments.every((kf) => isDiscreteEasing(kf.easing))) return null;
+
+  const times = keyframes.map((kf) => kf.time);
+  segments.forEach((kf, i) => {
+    if (!isStepsEasing(kf.easing)) return;
+    const span = keyframes[i + 1].time - kf.time;
+    for (let k = 1; k < kf.easing.count; k++) {
+      times.push(kf.time + (span * k) / kf.easing.count);
+    }
+  });
+  return times.sort((a, b) => a - b);
+};
@@ -0,0 +1,352 @@
+import type { Artboard, Keyframe, Layer, TimelineMarker } from '../types';
+import { MOTION_PATH_CONFIG, SHAPE_CONFIG } from '../constants';
+import { getChildLayers } from './hierarchy';
+import { getLayerSlug } from './layer';
+import { getMarkerRange } from './markers';
+import { bakeMotionPath } from './motionPath';
+import {
+  formatLayerTransform,
+  sampleLayerAtTime,
+  sortLayersForRendering,
+} from './render';
+import type { LayerFrame } from './render';
+import {
+  formatSvgPoints,
+  getShapeProperty,
+  getShapePropertyKeys,
+} from './shape';
+import { getKeyframeStops } from './keyframeStops';
+import type { ExportEasing } from './keyframeStops';
+
+/** The parts of a project the SVG export reads. */
+export interface SvgExportInput {
+  layers: Layer[];
+  duration: number;
+  artboard: Artboard;
+}
+
+/** One animated attribute of an element. */
+interface SvgAnimation {
+  attributeName: string;
+  tracks: Keyframe<unknown>[][];
+  canBlend: boolean;
+  valueOf: (frame: LayerFrame) => string | number;
+  transformType?: string; // Emits an additive <animateTransform>
+}
+
+const LINEAR_SPLINE = '0 0 1 1';
+
+const formatNumber = (value: number): number => +value.toFixed(3);
+
+/** Escapes text for a double-quoted attribute value. */
+const escapeAttribute = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Returns true for easings SMIL reproduces exactly: Béziers as keySplines,
+ * whose control points must stay within 0..1, and holds as a repeated
+ * keyTime.
+ */
+const isSplineEasing = (easing: ExportEasing): boolean =>
+  easing === 'linear' ||
+  easing === 'hold' ||
+  (Array.isArray(easing) && easing.every((value) => value >= 0 && value <= 1));
+
+/**
+ * Builds the `begin`, `dur` and `repeatCount` of every animation. Starting
+ * at a marker skips into the animation with a negative begin offset and
+ * plays the marker's range once, holding its last frame.
+ */
+const formatTiming = (
+  duration: number,
+  marker: TimelineMarker | undefined,
+): string => {
+  if (!marker) return `dur="${duration}ms" repeatCount="indefinite"`;
+  const { start, end } = getMarkerRange(marker, duration);
+  return `begin="-${start}ms" dur="${duration}ms" repeatCount="${+(
+    Math.max(1, end) / duration
+  ).toFixed(4)}" fill="freeze"`;
+};
+
+/**
+ * Emits an animation at the merged keyframe times of its tracks, with their
+ * easings as keySplines, or nothing when the value never changes. A hold
+ * repeats its value up to the next keyTime, where it jumps.
+ * @returns The <animate> or <animateTransform> element, or ''.
+ */
+const formatAnimation = (
+  layer: Layer,
+  animation: SvgAnimation,
+  duration: number,
+  timing: string,
+): string => {
+  const { attributeName, tracks, canBlend, valueOf, transformType } = animation;
+  if (tracks.every((keyframes) => keyframes.length === 0)) return '';
+
+  const stops = getKeyframeStops(tracks, duration, {
+    canBlend,
+    canExpress: isSplineEasing,
+  });
+  const values = stops.map(({ sampleTime }) =>
+    valueOf(sampleLayerAtTime(layer, sampleTime)),
+  );
+  if (values.every((value) => value === values[0])) return '';
+
+  const points = stops.flatMap((stop, i) => {
+    const next = stops[i + 1];
+    const point = {
+      time: stop.time,
+      value: values[i],
+      spline: Array.isArray(stop.easing)
+        ? stop.easing.join(' ')
+        : LINEAR_SPLINE,
+    };
+    return stop.easing === 'hold' && next && next.time > stop.time
+      ? [point, { ...point, time: next.time, spline: LINEAR_SPLINE }]
+      : [point];
+  });
+  const splines = points.slice(0, -1).map((point) => point.spline);
+  const isLinear = splines.every((spline) => spline === LINEAR_SPLINE);
+
+  const element = transformType
+    ? `animateTransform attributeName="${attributeName}" type="${transformType}" additive="sum"`
+    : `animate attributeName="${attributeName}"`;
+  const keyTimes = points.map((point) => +(point.time / duration).toFixed(4));
+  const spline = isLinear
+    ? ''
+    : `
+             calcMode="spline"
+             keySplines="${splines.join(';')}"`;
+  return `
+    <${element}
+             values="${points.map((point) => point.value).join(';')}"
+             keyTimes="${keyTimes.join(';')}"${spline}
+             ${timing} />`;
+};
+
+/** Indents nested markup by one level. */
+const nest = (markup: string): string => markup.replace(/\n/g, '\n  ');
+
+/**
+ * Renders a layer as a <g> carrying its transform and opacity, with its
+ * shape drawn in local space and its children nested inside.
+ */
+const renderLayer = (
+  layer: Layer,
+  layers: Layer[],
+  duration: number,
+  timing: string,
+): string => {
+  const frame = sampleLayerAtTime(layer, 0);
+  const { width, height, opacity, color, geometry } = frame;
+  const { shape } = layer;
+  const shapeTracks = getShapePropertyKeys(shape).map(
+    (key) => getShapeProperty(shape, key)?.keyframes ?? [],
+  );
+  const animate = (animation: SvgAnimation) =>
+    formatAnimation(layer, animation, duration, timing);
+
+  const opacityAnimation = animate({
+    attributeName: 'opacity',
+    tracks: [layer.opacity.keyframes],
+    canBlend: true,
+    valueOf: (f) => formatNumber(f.opacity),
+  });
+  const fillAnimation = animate({
+    attributeName: 'fill',
+    tracks: [layer.color.keyframes],
+    canBlend: layer.color.interpolation === 'srgb',
+    valueOf: (f) => f.color,
+  });
+  const sizeAnimations = (['width', 'height'] as const)
+    .map((prop) =>
+      animate({
+        attributeName: prop,
+        tracks: [layer[prop].keyframes],
+        canBlend: true,
+        valueOf: (f) => formatNumber(f[prop]),
+      }),
+    )
+    .join('');
+
+  // The additive parts compose to formatLayerTransform. Once any of them
+  // is animated, the constant ones become single-value animations too,
+  // since an animated transform replaces the static attribute.
+  const size = [layer.width.keyframes, layer.height.keyframes];
+  const transformParts: Array<Omit<SvgAnimation, 'attributeName'>> = [
+    {
+      transformType: 'translate',
+      tracks: [layer.x.keyframes, layer.y.keyframes, ...size],
+      canBlend: true,
+      valueOf: (f) =>
+        `${formatNumber(f.x + f.anchorX)} ${formatNumber(f.y + f.anchorY)}`,
+    },
+    {
+      transformType: 'rotate',
+      tracks: [layer.rotation.keyframes],
+      canBlend: true,
+      valueOf: (f) => formatNumber(f.rotation),
+    },
+    {
+      transformType: 'scale',
+      tracks: [layer.scale.keyframes],
+      canBlend: true,
+      valueOf: (f) => formatNumber(f.scale),
+    },
+    {
+      transformType: 'translate',
+      tracks: size,
+      canBlend: true,
+      valueOf: (f) => `${formatNumber(-f.anchorX)} ${formatNumber(-f.anchorY)}`,
+    },
+  ];
+  const transformAnimations = transformParts.map((part) =>
+    animate({ ...part, attributeName: 'transform' }),
+  );
+  const isTransformAnimated = transformAnimations.some(Boolean);
+  const transform = isTransformAnimated
+    ? transformAnimations
+        .map(
+          (animation, i) =>
+            animation ||
+            `
+    <animateTransform attributeName="transform" type="${transformParts[i].transformType}" additive="sum"
+             values="${transformParts[i].valueOf(frame)}"
+             ${timing} />`,
+        )
+        .join('')
+    : '';
+  const transformAttribute = isTransformAnimated
+    ? ''
+    : ` transform="${formatLayerTransform(frame)}"`;
+
+  let shapeContent = '';
+  switch (layer.kind === 'group' ? 'group' : geometry.kind) {
+    case 'group':
+      break;
+    case 'ellipse': {
+      const animations = [
+        ...(['cx', 'rx'] as const).map((attributeName) =>
+          animate({
+            attributeName,
+            tracks: [layer.width.keyframes],
+            canBlend: true,
+            valueOf: (f) => formatNumber(f.width / 2),
+          }),
+        ),
+        ...(['cy', 'ry'] as const).map((attributeName) =>
+          animate({
+            attributeName,
+            tracks: [layer.height.keyframes],
+            canBlend: true,
+            valueOf: (f) => formatNumber(f.height / 2),
+          }),
+        ),
+        fillAnimation,
+      ].join('');
+
+      shapeContent = `
+  <ellipse cx="${width / 2}"
+           cy="${height / 2}"
+           rx="${width / 2}"
+           ry="${height / 2}"
+           fill="${color}">${animations}
+  </ellipse>`;
+      break;
+    }
+    case 'polygon': {
+      // Vertex counts round to whole numbers, so points are always sampled.
+      const pointsAnimation = animate({
+        attributeName: 'points',
+        tracks: [...size, ...shapeTracks],
+        canBlend: false,
+        valueOf: (f) =>
+          f.geometry.kind === 'polygon'
+            ? formatSvgPoints(f.geometry.points, 0, 0, f.width, f.height)
+            : '',
+      });
+
+      shapeContent = `
+  <polygon points="${
+    geometry.kind === 'polygon'
+      ? formatSvgPoints(geometry.points, 0, 0, width, height)
+      : ''
+  }"
+           fill="${color}">${pointsAnimation}${fillAnimation}
+  </polygon>`;
+      break;
+    }
+    case 'path':
+      // A nested viewport maps the 100×100 path box onto the layer box.
+      shapeContent = `
+  <svg width="${width}"
+       height="${height}"
+       viewBox="0 0 ${SHAPE_CONFIG.pathBoxSize} ${SHAPE_CONFIG.pathBoxSize}"
+       preserveAspectRatio="none"
+       overflow="visible">${sizeAnimations}
+    <path d="${geometry.kind === 'path' ? escapeAttribute(geometry.d) : ''}" fill="${color}">${fillAnimation}
+    </path>
+  </svg>`;
+      break;
+    default: {
+      // The preview clamps the radius to the shorter side, which SVG does
+      // per axis; clamping here keeps the corners circular.
+      const radiusAnimation = animate({
+        attributeName: 'rx',
+        tracks: [...size, ...shapeTracks],
+        canBlend: true,
+        valueOf: (f) =>
+          formatNumber(f.geometry.kind === 'rect' ? f.geometry.rx : 0),
+      });
+
+      shapeContent = `
+  <rect width="${width}"
+        height="${height}"
+        rx="${geometry.kind === 'rect' ? geometry.rx : 0}"
+        fill="${color}">${sizeAnimations}${radiusAnimation}${fillAnimation}
+  </rect>`;
+    }
+  }
+
+  const children = sortLayersForRendering(getChildLayers(layers, layer.id))
+    .map((child) => renderLayer(child, layers, duration, timing))
+    .join('');
+
+  return `
+  <g id="${getLayerSlug(layer)}"${transformAttribute} opacity="${opacity}">${transform}${opacityAnimation}${nest(
+    shapeContent + children,
+  )}
+  </g>`;
+};
+
+/**
+ * Generates a SMIL-animated SVG that plays like the preview. Every element
+ * animates its own attributes at the real keyframe times, with Bézier
+ * easings as keySplines; only easings SMIL cannot express are sampled.
+ * Motion paths are baked into keyframes.
+ * @param input The project to export.
+ * @param marker Where to start playing, or undefined to loop everything.
+ * @returns The SVG document.
+ */
+export const generateSvgExport = (
+  { layers, duration, artboard }: SvgExportInput,
+  marker?: TimelineMarker,
+): string => {
+  const baked = layers.map((layer) =>
+    bakeMotionPath(layer, MOTION_PATH_CONFIG.bakeSteps),
+  );
+  const timing = formatTiming(duration, marker);
+
+  // A transparent artboard simply has no background rect.
+  const background =
+    artboard.background !== null
+      ? `
+  <rect width="100%" height="100%" fill="${artboard.background}" />`
+      : '';
+  return `<svg width="${artboard.width}" height="${artboard.height}" viewBox="0 0 ${artboard.width} ${artboard.height}" xmlns="http://www.w3.org/2000/svg">${background}${sortLayersForRendering(
+    getChildLayers(baked, null),
+  )
+    .map((layer) => renderLayer(layer, baked, duration, timing))
+    .join('')}
+</svg>`;
+};
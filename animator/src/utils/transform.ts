@@ -0,0 +1,224 @@
+import type {
+  AnimatablePropertyKey,
+  Layer,
+  LayerAnchor,
+  TransformMode,
+} from '../types';
+import { TRANSFORM_CONFIG } from '../constants';
+import { getAnimatedValueAtTime } from './animation';
+import { setPropertyValue } from './autoKey';
+import type { KeyingOptions } from './autoKey';
+import type { LayerFrame } from './render';
+
+/** A resize handle, as a position on the layer box from 0 (left/top) to 1. */
+export interface ResizeHandle {
+  x: 0 | 0.5 | 1;
+  y: 0 | 0.5 | 1;
+}
+
+/** The properties a canvas drag can change. */
+export type TransformPropertyKey = Extract<
+  AnimatablePropertyKey,
+  'x' | 'y' | 'width' | 'height' | 'rotation' | 'scale'
+>;
+
+/** New values for some of the transform properties. */
+export type TransformChanges = Partial<Record<TransformPropertyKey, number>>;
+
+/** A canvas drag in progress. Points are in the layer's parent space. */
+export interface TransformDrag {
+  mode: TransformMode;
+  handle: ResizeHandle | null; // Only set when resizing
+  start: [number, number]; // Pointer position when the drag started
+  frame: LayerFrame; // The layer when the drag started
+  rotation: number; // Rotation property value, without any path orientation
+  anchor: LayerAnchor;
+}
+
+/** The corners and edge midpoints of the layer box, clockwise from top-left. */
+export const RESIZE_HANDLES: readonly ResizeHandle[] = [
+  { x: 0, y: 0 },
+  { x: 0.5, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 0.5 },
+  { x: 1, y: 1 },
+  { x: 0.5, y: 1 },
+  { x: 0, y: 1 },
+  { x: 0, y: 0.5 },
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Maps a point in a layer's local space, where its box starts at (0, 0),
+ * into its parent's space. Matches `formatLayerTransform`.
+ * @param frame The sampled layer.
+ * @param x Local x in px.
+ * @param y Local y in px.
+ * @returns The point in parent space.
+ */
+export const toParentSpace = (
+  frame: LayerFrame,
+  x: number,
+  y: number,
+): [number, number] => {
+  const angle = toRadians(frame.rotation);
+  const dx = (x - frame.anchorX) * frame.scale;
+  const dy = (y - frame.anchorY) * frame.scale;
+  return [
+    frame.x + frame.anchorX + dx * Math.cos(angle) - dy * Math.sin(angle),
+    frame.y + frame.anchorY + dx * Math.sin(angle) + dy * Math.cos(angle),
+  ];
+};
+
+/** Turns an offset in parent space into one along the layer's own axes. */
+const toLocalOffset = (
+  frame: LayerFrame,
+  dx: number,
+  dy: number,
+): [number, number] => {
+  const angle = toRadians(frame.rotation);
+  const scale = frame.scale || 1;
+  return [
+    (dx * Math.cos(angle) + dy * Math.sin(angle)) / scale,
+    (-dx * Math.sin(angle) + dy * Math.cos(angle)) / scale,
+  ];
+};
+
+/**
+ * Resizes the box so the point opposite the handle stays in place on the
+ * canvas. With the aspect locked, corners keep the proportions and edges
+ * scale the other side to match.
+ */
+const resize = (
+  drag: TransformDrag,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  lockAspect: boolean,
+): TransformChanges => {
+  const { frame, anchor } = drag;
+  const [localX, localY] = toLocalOffset(frame, dx, dy);
+  const grow = (edge: number, size: number, offset: number) =>
+    edge === 1 ? size + offset : edge === 0 ? size - offset : size;
+
+  let width = grow(handle.x, frame.width, localX);
+  let height = grow(handle.y, frame.height, localY);
+  if (lockAspect && frame.width > 0 && frame.height > 0) {
+    const scaleX = width / frame.width;
+    const scaleY = height / frame.height;
+    const factor =
+      handle.x === 0.5
+        ? scaleY
+        : handle.y === 0.5
+          ? scaleX
+          : Math.abs(scaleX - 1) > Math.abs(scaleY - 1)
+            ? scaleX
+            : scaleY;
+    width = frame.width * factor;
+    height = frame.height * factor;
+  }
+  width = Math.max(TRANSFORM_CONFIG.minSize, width);
+  height = Math.max(TRANSFORM_CONFIG.minSize, height);
+
+  const fixedX = 1 - handle.x;
+  const fixedY = 1 - handle.y;
+  const [px, py] = toParentSpace(
+    frame,
+    fixedX * frame.width,
+    fixedY * frame.height,
+  );
+  const resized = {
+    ...frame,
+    x: 0,
+    y: 0,
+    width,
+    height,
+    anchorX: anchor.x * width,
+    anchorY: anchor.y * height,
+  };
+  const [ox, oy] = toParentSpace(resized, fixedX * width, fixedY * height);
+
+  return {
+    x: Math.round(px - ox),
+    y: Math.round(py - oy),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+};
+
+/**
+ * Works out the property values for the current pointer position of a
+ * canvas drag.
+ * @param drag The drag, as it started.
+ * @param pointer The pointer position in the layer's parent space.
+ * @param isConstrained Shift is held: moves keep to one axis, resizes keep
+ * the aspect ratio and rotation snaps to fixed steps.
+ * @returns The changed property values.
+ */
+export const getTransformChanges = (
+  drag: TransformDrag,
+  pointer: [number, number],
+  isConstrained: boolean,
+): TransformChanges => {
+  const { frame } = drag;
+  let dx = pointer[0] - drag.start[0];
+  let dy = pointer[1] - drag.start[1];
+  const pivotX = frame.x + frame.anchorX;
+  const pivotY = frame.y + frame.anchorY;
+
+  switch (drag.mode) {
+    case 'move':
+      if (isConstrained) {
+        if (Math.abs(dx) > Math.abs(dy)) dy = 0;
+        else dx = 0;
+      }
+      return { x: Math.round(frame.x + dx), y: Math.round(frame.y + dy) };
+
+    case 'resize':
+      return drag.handle
+        ? resize(drag, drag.handle, dx, dy, isConstrained)
+        : {};
+
+    case 'rotate': {
+      const angle = (x: number, y: number) =>
+        (Math.atan2(y - pivotY, x - pivotX) * 180) / Math.PI;
+      const rotation = drag.rotation + angle(...pointer) - angle(...drag.start);
+      const step = isConstrained ? TRANSFORM_CONFIG.rotationSnap : 0.1;
+      return { rotation: Math.round(rotation / step) * step };
+    }
+
+    case 'scale': {
+      const from = Math.hypot(drag.start[0] - pivotX, drag.start[1] - pivotY);
+      const to = Math.hypot(pointer[0] - pivotX, pointer[1] - pivotY);
+      if (from === 0) return {};
+      return {
+        scale: Math.max(
+          TRANSFORM_CONFIG.minScale,
+          Math.round(((frame.scale * to) / from) * 100) / 100,
+        ),
+      };
+    }
+  }
+};
+
+/**
+ * Writes transform values into a layer at the playhead. Values that already
+ * match the animation there are left alone, so a move does not key the size.
+ * @param layer The layer.
+ * @param changes The new values.
+ * @param options How the edits are written.
+ * @returns The updated layer.
+ */
+export const applyTransformChanges = (
+  layer: Layer,
+  changes: TransformChanges,
+  options: KeyingOptions,
+): Layer =>
+  (Object.entries(changes) as [TransformPropertyKey, number][]).reduce(
+    (result, [key, value]) =>
+      getAnimatedValueAtTime(result[key], options.time) === value
+        ? result
+        : { ...result, [key]: setPropertyValue(result[key], value, options) },
+    layer,
+  );
@@ -0,0 +1,212 @@
+import { getMarkerRange, getMarkerSlug, sortMarkers } from './markers';
+import { formatCssRule, getCssDocument } from './cssExport';
+import type { CssExportInput } from './cssExport';
+import { getLayerSlug } from './layer';
+
+/** Converts a CSS property name to its keyframe object key. */
+const toCamelCase = (property: string): string =>
+  property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Formats a value as a JavaScript literal. `<` is escaped so that text such
+ * as a layer name cannot close the demo page's script element.
+ */
+const literal = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c');
+
+/** Indents every line after the first. */
+const indent = (text: string, depth: number): string =>
+  text.replace(/\n/g, `\n${'  '.repeat(depth)}`);
+
+/**
+ * Generates an ES module that builds the animation with the Web Animations
+ * API. It exports the markup and static styles of the CSS export, and a
+ * controller that plays, pauses, seeks and reports the end of every
+ * animation at once. Each animated property of each element becomes an
+ * `element.animate()` keyframe array at the merged keyframe times, with
+ * per-keyframe easings.
+ * @param input The project to export.
+ * @returns The module source.
+ */
+export const generateWaapiModule = (input: CssExportInput): string => {
+  const { duration, markers } = input;
+  const { markup, artboardCss, rules } = getCssDocument(input);
+  const styles = [
+    artboardCss,
+    ...rules.map((rule) => formatCssRule(rule, duration, false)),
+  ].join('\n\n');
+
+  const tracks = rules.flatMap(({ layer, pseudoElement, animations }) =>
+    animations.map(
+      ({ property, keyframes }) => `{
+  selector: ${literal(`.${getLayerSlug(layer)}`)},
+  pseudoElement: ${literal(pseudoElement)},
+  keyframes: [
+    ${keyframes
+      .map(
+        ({ offset, easing, value }) =>
+          `{ offset: ${+offset.toFixed(6)}, ${toCamelCase(property)}: ${literal(
+            value,
+          )}${easing ? `, easing: ${literal(easing)}` : ''} },`,
+      )
+      .join('\n    ')}
+  ],
+},`,
+    ),
+  );
+  const markerRanges = sortMarkers(markers).map((marker) => {
+    const { start, end } = getMarkerRange(marker, duration);
+    return `${literal(getMarkerSlug(marker))}: { start: ${start}, end: ${end} },`;
+  });
+
+  return `// Animation built with the Web Animations API. Put \`markup\` in the page,
+// add \`styles\`, then drive it with createController().
+
+/** Length of one play-through, in milliseconds. */
+export const duration = ${duration};
+
+/** One element per layer, nested like the layer tree. */
+export const markup = ${literal(markup)};
+
+/** Static styles of the elements; the animations set everything else. */
+export const styles = ${literal(styles)};
+
+/** Start and end of each marker, in milliseconds, by name. */
+export const markers = {${
+    markerRanges.length > 0 ? `\n  ${markerRanges.join('\n  ')}\n` : ''
+  }};
+
+const tracks = [${tracks.length > 0 ? `\n  ${indent(tracks.join('\n'), 1)}\n` : ''}];
+
+/**
+ * Creates the animations on the markup and returns a controller for all of
+ * them. They start paused at 0.
+ * @param {ParentNode} [root] The element or document holding the markup.
+ * @param {{ iterations?: number }} [options] Play-throughs; Infinity loops.
+ */
+export function createController(root = document, { iterations = 1 } = {}) {
+  const timing = { duration, iterations, fill: 'both' };
+  // An effect without a target keeps time for the whole composition, so
+  // it finishes even when nothing is animated.
+  const clock = new Animation(new KeyframeEffect(null, [], timing));
+  const animations = [
+    clock,
+    ...tracks.map(({ selector, pseudoElement, keyframes }) => {
+      const element = root.querySelector(selector);
+      if (!element) throw new Error(\`Missing element \${selector}\`);
+      return element.animate(
+        keyframes,
+        pseudoElement ? { ...timing, pseudoElement } : timing,
+      );
+    }),
+  ];
+  const listeners = new Set();
+  clock.onfinish = () => listeners.forEach((listener) => listener());
+
+  const seek = (ms) => {
+    const time = Math.max(0, Math.min(duration * iterations, ms));
+    animations.forEach((animation) => {
+      animation.currentTime = time;
+    });
+  };
+  animations.forEach((animation) => animation.pause());
+  seek(0);
+
+  return {
+    /** Plays from the current time, or from the start once finished. */
+    play: () => animations.forEach((animation) => animation.play()),
+    pause: () => animations.forEach((animation) => animation.pause()),
+    /** Jumps to a time in milliseconds, keeping the play state. */
+    seek,
+    /** The current time in milliseconds. */
+    get currentTime() {
+      return clock.currentTime ?? 0;
+    },
+    /** Resolves when the current play-through ends. */
+    get finished() {
+      return clock.finished.then(() => undefined);
+    },
+    /** Calls back whenever playback ends; returns an unsubscribe function. */
+    onFinish(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    /** Removes every animation from the elements. */
+    cancel: () => animations.forEach((animation) => animation.cancel()),
+  };
+}
+`;
+};
+
+/**
+ * Builds a standalone HTML page that mounts the module's markup and plays
+ * it with the controller, with buttons, a scrubber and the finish event.
+ * The module is inlined, since pages opened from disk cannot import it.
+ * @param moduleSource The generated module.
+ * @param duration The animation duration in milliseconds.
+ * @returns The HTML document.
+ */
+export const formatWaapiDemo = (
+  moduleSource: string,
+  duration: number,
+): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Web Animations demo</title>
+<style>
+body { margin: 16px; font: 13px sans-serif; color: #374151; background: #F3F4F6; }
+.controls { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+.controls input { width: 320px; }
+#stage > * { outline: 1px solid #D1D5DB; }
+</style>
+</head>
+<body>
+<div class="controls">
+<button id="play">Play</button>
+<button id="pause">Pause</button>
+<input id="scrub" type="range" min="0" max="${duration}" step="1" value="0">
+<output id="time">0ms</output>
+<span id="status"></span>
+</div>
+<div id="stage"></div>
+<script type="module">
+${moduleSource}
+// Demo
+const stage = document.getElementById('stage');
+const scrub = document.getElementById('scrub');
+const time = document.getElementById('time');
+const status = document.getElementById('status');
+stage.innerHTML = markup;
+const style = document.createElement('style');
+style.textContent = styles;
+document.head.append(style);
+
+const controller = createController(stage);
+controller.onFinish(() => {
+  status.textContent = 'Finished';
+});
+document.getElementById('play').addEventListener('click', () => {
+  controller.play();
+  status.textContent = 'Playing';
+});
+document.getElementById('pause').addEventListener('click', () => {
+  controller.pause();
+  status.textContent = 'Paused';
+});
+scrub.addEventListener('input', () => {
+  controller.pause();
+  controller.seek(Number(scrub.value));
+  status.textContent = 'Paused';
+});
+
+const tick = () => {
+  scrub.value = controller.currentTime;
+  time.textContent = Math.round(controller.currentTime) + 'ms';
+  requestAnimationFrame(tick);
+};
+tick();
+</script>
+</body>
+</html>
+`;
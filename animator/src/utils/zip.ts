@@ -0,0 +1,90 @@
+import { crc32 } from './crc32';
+
+/** A file to put in a zip archive. */
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  data: Uint8Array;
+}
+
+const UTF8_FLAG = 0x0800; // File names are UTF-8
+const ZIP_VERSION = 20; // 2.0, the first version with folders
+
+/** Packs a date as the MS-DOS time and date that zip headers hold. */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    (date.getSeconds() >> 1),
+  date:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * Builds a zip archive that stores files without compressing them, which
+ * suits files that are compressed already, such as PNGs.
+ * @param entries The files, in archive order.
+ * @param modified The modification time recorded for every file.
+ * @returns The archive.
+ */
+export const createZip = (
+  entries: ZipEntry[],
+  modified: Date = new Date(),
+): Blob => {
+  const encoder = new TextEncoder();
+  const stamp = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true); // Stored
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    parts.push(local, data);
+    directory.push(central);
+    offset += local.length + data.length;
+  });
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};